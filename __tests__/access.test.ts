@@ -0,0 +1,157 @@
+import {
+  ApiKeyConfig,
+  makeAccessCheck,
+  MemoryRateLimitStore,
+  RateLimitStore,
+  setRateLimitStore
+} from '../access'
+import type { Endpoint } from '../config'
+
+/**
+ * Authorizes and charges a request, like the stitcher does for valid requests
+ */
+const makeCheck = (keys: ApiKeyConfig[]) => {
+  const { authorize, charge } = makeAccessCheck(keys)
+  return async (endpoint: Endpoint, apiKey: string | undefined) => {
+    const decision = authorize(endpoint, apiKey)
+    return decision.ok ? charge(decision.client) : decision
+  }
+}
+
+describe('access control', () => {
+  beforeEach(() => setRateLimitStore(new MemoryRateLimitStore()))
+  afterEach(() => jest.useRealTimers())
+
+  it('should let anyone in if no API keys are configured', async () => {
+    expect(await makeCheck([])('search', undefined)).toEqual({
+      client: null,
+      ok: true
+    })
+  })
+  it('should reject missing and unknown API keys', async () => {
+    const check = makeCheck([{ key: 'abc' }])
+    expect(await check('search', undefined)).toEqual({
+      error: 'missing api key',
+      ok: false,
+      statusCode: 401
+    })
+    expect(await check('search', 'xyz')).toMatchObject({
+      error: 'invalid api key',
+      statusCode: 401
+    })
+    expect(await check('search', 'abc')).toEqual({
+      client: { key: 'abc' },
+      ok: true
+    })
+  })
+  it('should only allow the endpoints of a key', async () => {
+    const check = makeCheck([{ endpoints: ['autocomplete'], key: 'abc' }])
+    expect((await check('autocomplete', 'abc')).ok).toBe(true)
+    expect(await check('reverse', 'abc')).toEqual({
+      error: 'api key may not use the reverse endpoint',
+      ok: false,
+      statusCode: 403
+    })
+  })
+  it('should limit the rate of requests with a token bucket', async () => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(0)
+    const check = makeCheck([
+      { key: 'abc', rateLimit: { burst: 2, perSecond: 0.5 } }
+    ])
+    expect((await check('search', 'abc')).ok).toBe(true)
+    expect((await check('search', 'abc')).ok).toBe(true)
+    expect(await check('search', 'abc')).toEqual({
+      error: 'rate limit exceeded',
+      ok: false,
+      retryAfterSeconds: 2,
+      statusCode: 429
+    })
+
+    // One token is back after 2 seconds
+    jest.setSystemTime(2000)
+    expect((await check('search', 'abc')).ok).toBe(true)
+    expect((await check('search', 'abc')).ok).toBe(false)
+  })
+  it('should enforce daily quotas until midnight UTC', async () => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(Date.parse('2024-05-01T23:00:00Z'))
+    const check = makeCheck([
+      { dailyQuota: 1, key: 'abc', name: 'web' },
+      { dailyQuota: 1, key: 'def' }
+    ])
+    expect((await check('search', 'abc')).ok).toBe(true)
+    expect(await check('search', 'abc')).toEqual({
+      error: 'daily quota exceeded',
+      ok: false,
+      retryAfterSeconds: 3600,
+      statusCode: 429
+    })
+    // Every client has its own quota
+    expect((await check('search', 'def')).ok).toBe(true)
+
+    jest.setSystemTime(Date.parse('2024-05-02T00:00:00Z'))
+    expect((await check('search', 'abc')).ok).toBe(true)
+  })
+  it('should only count requests which are charged', async () => {
+    const { authorize, charge } = makeAccessCheck([
+      { key: 'abc', rateLimit: { burst: 1, perSecond: 0.001 } }
+    ])
+    const decision = authorize('search', 'abc')
+    expect(decision).toEqual({
+      client: { key: 'abc', rateLimit: { burst: 1, perSecond: 0.001 } },
+      ok: true
+    })
+    // Authorizing, e.g. requests which then turn out to be invalid, is free
+    authorize('search', 'abc')
+    const client = decision.ok ? decision.client : null
+    expect((await charge(client)).ok).toBe(true)
+    expect((await charge(client)).ok).toBe(false)
+  })
+  it('should charge several requests at once', async () => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(0)
+    const { charge } = makeAccessCheck([])
+    const client = { key: 'abc', rateLimit: { burst: 3, perSecond: 1 } }
+    expect((await charge(client, 2)).ok).toBe(true)
+    expect(await charge(client, 2)).toMatchObject({
+      retryAfterSeconds: 1,
+      statusCode: 429
+    })
+    expect(await charge(client, 4)).toEqual({
+      error: 'rate limit allows at most 3 requests at once',
+      ok: false,
+      statusCode: 429
+    })
+    const quota = { dailyQuota: 3, key: 'def' }
+    expect((await charge(quota, 3)).ok).toBe(true)
+    expect((await charge(quota)).ok).toBe(false)
+  })
+  it('should count requests in the configured store', async () => {
+    const store: RateLimitStore = {
+      incrementDailyCount: jest.fn().mockResolvedValue(5),
+      takeToken: jest.fn().mockResolvedValue(0)
+    }
+    setRateLimitStore(store)
+    const check = makeCheck([
+      {
+        dailyQuota: 10,
+        key: 'abc',
+        name: 'web',
+        rateLimit: { burst: 1, perSecond: 1 }
+      }
+    ])
+    expect((await check('search', 'abc')).ok).toBe(true)
+    expect(store.takeToken).toHaveBeenCalledWith(
+      'web',
+      { burst: 1, perSecond: 1 },
+      expect.any(Number),
+      1
+    )
+    expect(store.incrementDailyCount).toHaveBeenCalledWith(
+      'web',
+      expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+      1
+    )
+  })
+})
@@ -0,0 +1,88 @@
+import { forEachWithConcurrency, getItemKey, parseBatch } from '../batch'
+
+describe('batches', () => {
+  it('should parse JSON arrays and NDJSON lines', () => {
+    const items = [
+      { id: 'row-1', query: { text: 'pike place' } },
+      {
+        endpoint: 'reverse',
+        id: 2,
+        query: { 'point.lat': 47.6, 'point.lon': -122.3 }
+      }
+    ]
+    const expected = [
+      { endpoint: 'search', id: 'row-1', query: { text: 'pike place' } },
+      {
+        endpoint: 'reverse',
+        id: 2,
+        query: { 'point.lat': '47.6', 'point.lon': '-122.3' }
+      }
+    ]
+    expect(parseBatch(JSON.stringify(items), false, 10)).toEqual({
+      errors: [],
+      items: expected
+    })
+    expect(
+      parseBatch(
+        `${items.map((item) => JSON.stringify(item)).join('\n')}\n\n`,
+        true,
+        10
+      )
+    ).toEqual({ errors: [], items: expected })
+  })
+  it('should reject invalid batches as a whole', () => {
+    expect(parseBatch('{"text":"x"}', false, 10).errors).toEqual([
+      'body must be a JSON array of items'
+    ])
+    expect(parseBatch('{"query":{}}\n{', true, 10).errors).toEqual([
+      'line 2 is not valid JSON'
+    ])
+    expect(parseBatch('[]', false, 10).errors).toEqual([
+      'batch must contain at least one item'
+    ])
+    expect(parseBatch('[{},{},{}]', false, 2).errors).toEqual([
+      'batch may contain at most 2 items'
+    ])
+    expect(
+      parseBatch(
+        JSON.stringify([
+          { endpoint: 'place', query: { ids: 'a' } },
+          { id: {}, query: { text: ['x'] } },
+          'x'
+        ]),
+        false,
+        10
+      )
+    ).toEqual({
+      errors: [
+        'items[0].endpoint must be one of reverse, search',
+        'items[1].id must be a string or number',
+        'items[1].query.text must be a string, number or boolean',
+        'items[2] must be an object'
+      ],
+      items: []
+    })
+  })
+  it('should run a bounded number of calls at once', async () => {
+    let running = 0
+    let maxRunning = 0
+    const started: number[] = []
+    await forEachWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      started.push(item)
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      running--
+    })
+    expect(maxRunning).toBe(2)
+    expect(started).toEqual([1, 2, 3, 4, 5])
+  })
+  it('should give identical items the same key', () => {
+    expect(
+      getItemKey({ endpoint: 'search', query: { size: '1', text: 'a' } })
+    ).toBe(getItemKey({ endpoint: 'search', query: { text: 'a', size: '1' } }))
+    expect(getItemKey({ endpoint: 'search', query: { text: 'a' } })).not.toBe(
+      getItemKey({ endpoint: 'reverse', query: { text: 'a' } })
+    )
+  })
+})
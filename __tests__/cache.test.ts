@@ -0,0 +1,156 @@
+import { FeatureCollection } from 'geojson'
+
+import {
+  configureCache,
+  DEFAULT_CACHE_OPTIONS,
+  getCacheTtl,
+  makeCacheKey,
+  MemoryCacheStore
+} from '../cache'
+import { cachedGeocoderRequest } from '../utils'
+
+const GEOCODE_EARTH_RESPONSE =
+  require('./json-mocks/geocode-earth-response.json') as FeatureCollection
+
+const EMPTY_RESPONSE: FeatureCollection = {
+  features: [],
+  type: 'FeatureCollection'
+}
+
+describe('memory cache store', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2)
+    await store.set('a', 'A', 60)
+    await store.set('b', 'B', 60)
+    // Reading "a" makes "b" the least recently used entry
+    expect(await store.get('a')).toBe('A')
+    await store.set('c', 'C', 60)
+
+    expect(store.size).toBe(2)
+    expect(await store.get('a')).toBe('A')
+    expect(await store.get('b')).toBeUndefined()
+    expect(await store.get('c')).toBe('C')
+  })
+  it('should not return expired entries', async () => {
+    const store = new MemoryCacheStore()
+    await store.set('a', 'A', -1)
+    expect(await store.get('a')).toBeUndefined()
+  })
+})
+
+describe('cache keys', () => {
+  const config = { baseUrl: 'https://example.com', type: 'PELIAS' }
+
+  it('should normalize text, layers and focus point', () => {
+    expect(
+      makeCacheKey(config, 'autocomplete', {
+        focusPoint: { lat: 47.60121, lon: -122.33207 },
+        layers: 'venue,address',
+        text: ' Main  Street'
+      })
+    ).toBe(
+      makeCacheKey(config, 'autocomplete', {
+        focusPoint: { lat: '47.6049', lon: '-122.3349' },
+        layers: 'address,venue',
+        text: 'main street'
+      })
+    )
+  })
+  it('should differ between methods, sizes and geocoders', () => {
+    const args = { size: 4, text: 'main street' }
+    const key = makeCacheKey(config, 'autocomplete', args)
+
+    expect(makeCacheKey(config, 'search', args)).not.toBe(key)
+    expect(
+      makeCacheKey(config, 'autocomplete', { ...args, size: 10 })
+    ).not.toBe(key)
+    expect(
+      makeCacheKey({ ...config, type: 'HERE' }, 'autocomplete', args)
+    ).not.toBe(key)
+  })
+  it('should cache empty responses for a shorter time', () => {
+    expect(getCacheTtl('search', EMPTY_RESPONSE)).toBeLessThan(
+      getCacheTtl('search', GEOCODE_EARTH_RESPONSE)
+    )
+    // Every endpoint is cached
+    expect(
+      ['nearby', 'place', 'structured'].map((method) =>
+        getCacheTtl(method, GEOCODE_EARTH_RESPONSE)
+      )
+    ).toEqual([86400, 86400, 21600])
+  })
+  it('should not cache empty responses of methods which are not cached', () => {
+    configureCache({
+      ...DEFAULT_CACHE_OPTIONS,
+      ttlSeconds: { ...DEFAULT_CACHE_OPTIONS.ttlSeconds, place: 0 }
+    })
+    try {
+      expect(getCacheTtl('place', GEOCODE_EARTH_RESPONSE)).toBe(0)
+      expect(getCacheTtl('place', EMPTY_RESPONSE)).toBe(0)
+      expect(getCacheTtl('search', EMPTY_RESPONSE)).toBe(300)
+    } finally {
+      configureCache(DEFAULT_CACHE_OPTIONS)
+    }
+  })
+})
+
+describe('cached geocoder requests', () => {
+  it('should only hit the geocoder once for repeated queries', async () => {
+    const store = new MemoryCacheStore()
+    const geocoder = { search: jest.fn(async () => GEOCODE_EARTH_RESPONSE) }
+
+    const first = await cachedGeocoderRequest(
+      geocoder,
+      'search',
+      { text: 'mariner' },
+      store
+    )
+    const second = await cachedGeocoderRequest(
+      geocoder,
+      'search',
+      { text: 'Mariner' },
+      store
+    )
+
+    expect(geocoder.search).toHaveBeenCalledTimes(1)
+    expect(second).toEqual(first)
+    // Cached responses must be copies, as merging mutates responses
+    expect(second).not.toBe(first)
+  })
+  it('should not cache failed requests', async () => {
+    const store = new MemoryCacheStore()
+    const geocoder = {
+      search: jest.fn(async (): Promise<FeatureCollection> => {
+        throw new Error('upstream down')
+      })
+    }
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => null)
+
+    await cachedGeocoderRequest(geocoder, 'search', { text: 'a' }, store)
+    await cachedGeocoderRequest(geocoder, 'search', { text: 'a' }, store)
+
+    expect(geocoder.search).toHaveBeenCalledTimes(2)
+    expect(store.size).toBe(0)
+    warn.mockRestore()
+  })
+  it('should not log secrets of failed geocoders', async () => {
+    const geocoder = {
+      geocoderConfig: {
+        apiKey: 'secret-key',
+        baseUrl: 'https://pelias.example.com/v1',
+        type: 'PELIAS'
+      },
+      search: jest.fn(async (): Promise<FeatureCollection> => {
+        throw new Error('upstream down')
+      })
+    }
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => null)
+
+    await cachedGeocoderRequest(geocoder, 'search', { text: 'a' }, null)
+
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toContain('pelias.example.com')
+    expect(warn.mock.calls[0][0]).not.toContain('secret-key')
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,66 @@
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  getCircuitBreaker,
+  getCircuitBreakerStatuses
+} from '../circuit-breaker'
+
+const fail = () => Promise.reject(new Error('upstream down'))
+const succeed = () => Promise.resolve('ok')
+
+describe('circuit breaker', () => {
+  it('should open after consecutive failures', async () => {
+    const breaker = new CircuitBreaker({
+      cooldownMs: 60000,
+      failureThreshold: 2
+    })
+
+    await expect(breaker.call(fail)).rejects.toThrow('upstream down')
+    expect(breaker.getStatus().state).toBe('closed')
+    await expect(breaker.call(fail)).rejects.toThrow('upstream down')
+    expect(breaker.getStatus().state).toBe('open')
+
+    const request = jest.fn(succeed)
+    await expect(breaker.call(request)).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(request).not.toHaveBeenCalled()
+  })
+
+  it('should reset the failure count after a success', async () => {
+    const breaker = new CircuitBreaker({
+      cooldownMs: 60000,
+      failureThreshold: 2
+    })
+
+    await expect(breaker.call(fail)).rejects.toThrow()
+    await breaker.call(succeed)
+    await expect(breaker.call(fail)).rejects.toThrow()
+    expect(breaker.getStatus()).toMatchObject({
+      consecutiveFailures: 1,
+      lastFailure: 'upstream down',
+      state: 'closed'
+    })
+  })
+
+  it('should let a single trial request through after the cooldown', async () => {
+    const breaker = new CircuitBreaker({ cooldownMs: 0, failureThreshold: 1 })
+    await expect(breaker.call(fail)).rejects.toThrow()
+    expect(breaker.getStatus().state).toBe('half-open')
+
+    // A failing trial re-opens the circuit, which is half-open again right away
+    // because there is no cooldown
+    await expect(breaker.call(fail)).rejects.toThrow('upstream down')
+    expect(breaker.getStatus().state).toBe('half-open')
+
+    // While the trial is in flight, other requests are skipped
+    const trial = breaker.call(succeed)
+    await expect(breaker.call(succeed)).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(await trial).toBe('ok')
+    expect(breaker.getStatus().state).toBe('closed')
+  })
+
+  it('should keep one breaker per geocoder', () => {
+    expect(getCircuitBreaker('a')).toBe(getCircuitBreaker('a'))
+    expect(getCircuitBreaker('a')).not.toBe(getCircuitBreaker('b'))
+    expect(Object.keys(getCircuitBreakerStatuses())).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { diffLines, formatTable, parseArgs, runCli, UsageError } from '../cli'
+import { parseConfig } from '../config'
+
+const POIS_PATH = join(tmpdir(), `cli-pois-${Date.now()}.csv`)
+const SNAPSHOT_PATH = join(tmpdir(), `cli-snapshot-${Date.now()}.json`)
+
+describe('command-line tool', () => {
+  beforeAll(() =>
+    fs.writeFile(
+      POIS_PATH,
+      'label,lat,lon\nSpace Needle,47.6205,-122.3493\nSpace Museum,47.5180,-122.2964\n'
+    )
+  )
+  afterAll(() => Promise.all([fs.unlink(POIS_PATH), fs.unlink(SNAPSHOT_PATH)]))
+
+  const config = parseConfig({
+    pois: { location: POIS_PATH },
+    sources: [
+      { geocoder: { type: 'OFFLINE' }, name: 'pois' },
+      { geocoder: { type: 'OFFLINE' }, name: 'more pois' }
+    ]
+  })
+
+  it('should parse query parameters and options', () => {
+    expect(
+      parseArgs([
+        'search',
+        'text=pike place',
+        'focus.point.lat=47.6',
+        '--source',
+        'pois',
+        '--table'
+      ])
+    ).toEqual({
+      endpoint: 'search',
+      json: false,
+      query: { 'focus.point.lat': '47.6', text: 'pike place' },
+      source: 'pois',
+      table: true,
+      updateSnapshot: false
+    })
+    expect(() => parseArgs(['geocode'])).toThrow('Unknown endpoint geocode')
+    expect(() => parseArgs(['search', '--source'])).toThrow(
+      '--source needs a value'
+    )
+    expect(() => parseArgs(['search', 'pike'])).toThrow(UsageError)
+    expect(() => parseArgs(['search', '--update-snapshot'])).toThrow(
+      '--update-snapshot needs --snapshot <file>'
+    )
+  })
+  it('should lay out columns next to each other', () => {
+    expect(
+      formatTable([
+        { cells: ['a', 'bb'], title: 'one' },
+        { cells: ['c'], title: 'two' }
+      ])
+    ).toBe(['# | one | two', '1 | a   | c', '2 | bb  |'].join('\n'))
+  })
+  it('should diff lines', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+      '  a',
+      '- b',
+      '  c',
+      '+ d'
+    ])
+  })
+  it('should show what every source returned next to the merged results', async () => {
+    const lines: string[] = []
+    expect(
+      await runCli(
+        parseArgs(['search', 'text=space', '--table']),
+        config,
+        (text) => lines.push(text)
+      )
+    ).toBe(0)
+    const [header, ...rows] = lines.join('\n').split('\n')
+    expect(header.split(/ *\| */)).toEqual(['#', 'pois', 'more pois', 'merged'])
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toContain(
+      'Space Needle [custom] 47.62050,-122.34930 (more pois)'
+    )
+
+    // Only the given source is queried
+    lines.length = 0
+    await runCli(
+      parseArgs(['search', 'text=space', '--table', '--source', 'more pois']),
+      config,
+      (text) => lines.push(text)
+    )
+    expect(lines[0].split('\n')[0].split(/ *\| */)).toEqual([
+      '#',
+      'more pois',
+      'merged'
+    ])
+    await expect(
+      runCli(parseArgs(['search', 'text=x', '--source', 'here']), config)
+    ).rejects.toThrow('Unknown source here, expected one of pois, more pois')
+  })
+  it('should compare the merged results with a snapshot', async () => {
+    const print = jest.fn()
+    const run = (text: string) =>
+      runCli(
+        parseArgs(['search', `text=${text}`, '--snapshot', SNAPSHOT_PATH]),
+        config,
+        print
+      )
+    expect(await run('space')).toBe(0)
+    expect(print).toHaveBeenLastCalledWith(`Saved snapshot ${SNAPSHOT_PATH}`)
+    expect(await run('space')).toBe(0)
+    expect(print).toHaveBeenLastCalledWith(
+      `Results match snapshot ${SNAPSHOT_PATH}`
+    )
+
+    print.mockClear()
+    expect(await run('space needle')).toBe(1)
+    expect(print.mock.calls.map(([text]) => text)).toEqual([
+      '1. Space Needle [custom] 47.62050,-122.34930',
+      `Warning: snapshot ${SNAPSHOT_PATH} was saved for another query`,
+      `Results differ from snapshot ${SNAPSHOT_PATH}:`,
+      '  Space Needle [custom] 47.62050,-122.34930',
+      '- Space Museum [custom] 47.51800,-122.29640'
+    ])
+  })
+  it('should report failed requests', async () => {
+    const print = jest.fn()
+    expect(await runCli(parseArgs(['reverse']), config, print)).toBe(1)
+    expect(print).toHaveBeenCalledWith('Request failed with 400:')
+  })
+})
@@ -0,0 +1,451 @@
+import { ConfigError, loadConfig, parseConfig } from '../config'
+
+const PELIAS = { baseUrl: 'https://pelias.example.com/v1', type: 'PELIAS' }
+const HERE = { apiKey: 'key', type: 'HERE' }
+
+describe('configuration', () => {
+  it('should convert the legacy configuration', () => {
+    const config = loadConfig({
+      BACKUP_GEOCODERS: JSON.stringify([null, HERE]),
+      CHECK_NAME_DUPLICATES: 'false',
+      GEOCODER_TIMEOUTS_MS: '2000',
+      GEOCODERS: JSON.stringify([PELIAS, { ...HERE, name: 'here' }])
+    })
+    expect(config.requestDeadlineMs).toBe(5000)
+    expect(config.hedgeAfterMs).toBe(null)
+    expect(config.sources).toEqual([
+      expect.objectContaining({
+        dedupe: { checkNameDuplicates: false, coordinatePrecisionDigits: 4 },
+        fallbacks: [],
+        name: 'PELIAS-0',
+        priority: 0,
+        timeoutMs: 2000
+      }),
+      expect.objectContaining({ fallbacks: [HERE], name: 'here', priority: 1 })
+    ])
+  })
+  it('should no longer require BACKUP_GEOCODERS', () => {
+    expect(
+      loadConfig({ GEOCODERS: JSON.stringify([PELIAS]) }).sources
+    ).toHaveLength(1)
+  })
+  it('should load the structured configuration', () => {
+    const config = loadConfig({
+      STITCH_CONFIG: JSON.stringify({
+        hedgeAfterMs: 500,
+        sources: [
+          {
+            dedupe: { coordinatePrecisionDigits: 3 },
+            endpoints: ['autocomplete', 'search'],
+            fallbacks: [HERE, PELIAS],
+            geocoder: PELIAS,
+            name: 'transit',
+            priority: 10
+          }
+        ]
+      })
+    })
+    expect(config.hedgeAfterMs).toBe(500)
+    expect(config.sources[0]).toEqual({
+      dedupe: { checkNameDuplicates: true, coordinatePrecisionDigits: 3 },
+      endpoints: ['autocomplete', 'search'],
+      fallbacks: [HERE, PELIAS],
+      geocoder: PELIAS,
+      name: 'transit',
+      priority: 10,
+      timeoutMs: 3000
+    })
+  })
+  it('should list every problem', () => {
+    expect(() => loadConfig({})).toThrow(ConfigError)
+    expect(() =>
+      parseConfig({
+        sources: [
+          {
+            dedupe: { checkNameDuplicates: 'no' },
+            endpoints: ['geocode'],
+            fallbacks: [{ type: 'GOOGLE' }],
+            geocoder: { type: 'HERE' },
+            name: 'a'
+          },
+          {
+            dedupe: {
+              layerDistances: { venue: -1 },
+              maxDistance: 0,
+              nameSimilarity: 2
+            },
+            geocoder: PELIAS,
+            name: 'a',
+            timeoutMs: -1
+          }
+        ]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- sources[0].geocoder.apiKey is required for HERE geocoders',
+        '- sources[0].fallbacks[0].type must be one of ARCGIS, HERE, OFFLINE, OTP, PELIAS, PHOTON',
+        '- sources[0].endpoints must be an array containing only autocomplete, nearby, place, reverse, search, structured',
+        '- sources[0].dedupe.checkNameDuplicates must be a boolean',
+        '- sources[1].timeoutMs must be a positive number',
+        '- sources[1].dedupe.layerDistances must map layers to distances in meters',
+        '- sources[1].dedupe.maxDistance must be a positive number of meters',
+        '- sources[1].dedupe.nameSimilarity must be between 0 and 1',
+        '- source name a is not unique'
+      ].join('\n')
+    )
+  })
+  it('should configure where POIs are loaded from', () => {
+    expect(
+      loadConfig({
+        GEOCODERS: JSON.stringify([PELIAS]),
+        POIS_LOCATION: 'https://example.com/pois.csv',
+        POIS_RELOAD_SECONDS: '300'
+      }).pois
+    ).toEqual({
+      format: undefined,
+      location: 'https://example.com/pois.csv',
+      reloadSeconds: 300
+    })
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).pois).toEqual({
+      format: undefined,
+      location: null,
+      reloadSeconds: null
+    })
+    expect(() =>
+      parseConfig({
+        pois: { format: 'xml', reloadSeconds: 0 },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- pois.format must be one of csv, geojson, json',
+        '- pois.reloadSeconds must be null or a positive number'
+      ].join('\n')
+    )
+  })
+  it('should configure where the GTFS feed is loaded from', () => {
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).gtfs).toEqual({
+      location: null,
+      matchRadiusMeters: 50,
+      reloadSeconds: null
+    })
+    expect(
+      loadConfig({
+        GEOCODERS: JSON.stringify([PELIAS]),
+        GTFS_LOCATION: 'https://example.com/gtfs',
+        GTFS_MATCH_RADIUS_METERS: '30'
+      }).gtfs
+    ).toEqual({
+      location: 'https://example.com/gtfs',
+      matchRadiusMeters: 30,
+      reloadSeconds: null
+    })
+    expect(() =>
+      parseConfig({
+        gtfs: { location: 5, matchRadiusMeters: 0 },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- gtfs.location must be a path or URL',
+        '- gtfs.matchRadiusMeters must be a positive number'
+      ].join('\n')
+    )
+  })
+  it('should configure how labels are formatted', () => {
+    // Upstream labels are kept unless formatting is turned on
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).labels).toEqual({
+      enabled: false,
+      streetTypes: 'abbreviate',
+      templates: {}
+    })
+    expect(
+      loadConfig({
+        FORMAT_LABELS: 'true',
+        GEOCODERS: JSON.stringify([PELIAS]),
+        LABEL_STREET_TYPES: 'expand',
+        LABEL_TEMPLATES: JSON.stringify({ USA: ['{name}', '{locality}'] })
+      }).labels
+    ).toEqual({
+      enabled: true,
+      streetTypes: 'expand',
+      templates: { USA: ['{name}', '{locality}'] }
+    })
+    expect(() =>
+      parseConfig({
+        labels: {
+          streetTypes: 'shorten',
+          templates: { DEU: [], USA: ['{name}', '{city|locality}'] }
+        },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- labels.streetTypes must be one of abbreviate, expand, keep',
+        '- labels.templates.DEU must be a non-empty array of strings',
+        '- labels.templates.USA[1] uses unknown component city'
+      ].join('\n')
+    )
+  })
+  it('should configure the admin API key', () => {
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).adminApiKey).toBe(
+      null
+    )
+    expect(
+      loadConfig({
+        ADMIN_API_KEY: 'admin',
+        GEOCODERS: JSON.stringify([PELIAS])
+      }).adminApiKey
+    ).toBe('admin')
+    expect(() =>
+      parseConfig({ adminApiKey: '', sources: [{ geocoder: PELIAS }] })
+    ).toThrow('- adminApiKey must be null or a non-empty string')
+  })
+  it('should only allow debugging if configured to', () => {
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).allowDebug).toBe(
+      false
+    )
+    expect(
+      loadConfig({ ALLOW_DEBUG: 'true', GEOCODERS: JSON.stringify([PELIAS]) })
+        .allowDebug
+    ).toBe(true)
+    expect(() =>
+      parseConfig({ allowDebug: 1, sources: [{ geocoder: PELIAS }] })
+    ).toThrow('- allowDebug must be a boolean')
+  })
+  it('should configure query normalization', () => {
+    const { normalization } = parseConfig({
+      sources: [
+        { geocoder: PELIAS, name: 'pelias' },
+        { geocoder: PELIAS, name: 'transit', priority: 10 }
+      ]
+    })
+    // Stop codes go to the highest priority source by default
+    expect(normalization.steps).toContainEqual({
+      source: 'transit',
+      type: 'stopCode'
+    })
+    expect(normalization.variants.HERE).toEqual([])
+    expect(() =>
+      parseConfig({
+        normalization: {
+          steps: [{ type: 'stopCode', source: 'gtfs' }, { type: 'shout' }],
+          variants: { GOOGLE: [] }
+        },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- normalization.steps[1].type must be one of intersection, replace, stopCode, unicode, whitespace',
+        '- normalization.variants.GOOGLE is not a geocoder type',
+        '- normalization.steps[0].source must be the name of a source'
+      ].join('\n')
+    )
+    expect(() =>
+      parseConfig({
+        normalization: { steps: [{ pattern: '(', type: 'replace' }] },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow('- normalization is invalid: Invalid regular expression')
+  })
+  it('should configure request logs and metrics', () => {
+    const config = parseConfig({ sources: [{ geocoder: PELIAS }] })
+    expect(config.logRequests).toBe(true)
+    expect(config.metrics).toEqual({
+      format: 'none',
+      namespace: 'PeliasStitch'
+    })
+    expect(
+      loadConfig({
+        GEOCODERS: JSON.stringify([PELIAS]),
+        LOG_REQUESTS: 'false',
+        METRICS_FORMAT: 'emf'
+      })
+    ).toMatchObject({
+      logRequests: false,
+      metrics: { format: 'emf', namespace: 'PeliasStitch' }
+    })
+    expect(() =>
+      parseConfig({
+        logRequests: 'yes',
+        metrics: { format: 'statsd', namespace: '' },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- logRequests must be a boolean',
+        '- metrics.format must be one of emf, none, prometheus',
+        '- metrics.namespace must be a non-empty string'
+      ].join('\n')
+    )
+  })
+  it('should limit batches', () => {
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).batch).toEqual({
+      concurrency: 4,
+      maxBytes: 1048576,
+      maxItems: 1000
+    })
+    expect(
+      loadConfig({
+        BATCH_CONCURRENCY: '8',
+        BATCH_MAX_BYTES: '10000000',
+        BATCH_MAX_ITEMS: '50000',
+        GEOCODERS: JSON.stringify([PELIAS])
+      }).batch
+    ).toEqual({ concurrency: 8, maxBytes: 10000000, maxItems: 50000 })
+    expect(() =>
+      parseConfig({
+        batch: { concurrency: 0, maxBytes: '1mb', maxItems: 1.5 },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        '- batch.concurrency must be a positive integer',
+        '- batch.maxBytes must be a positive integer',
+        '- batch.maxItems must be a positive integer'
+      ].join('\n')
+    )
+  })
+  it('should validate the cache', () => {
+    const { cache } = loadConfig({
+      CACHE_NEGATIVE_TTL_SECONDS: '60',
+      CACHE_STORE: 'none',
+      CACHE_TTL_SECONDS: JSON.stringify({ place: 0 }),
+      GEOCODERS: JSON.stringify([PELIAS])
+    })
+    expect(cache).toMatchObject({
+      negativeTtlSeconds: 60,
+      store: 'none',
+      ttlSeconds: { place: 0, search: 21600 }
+    })
+    expect(() =>
+      loadConfig({
+        CACHE_NEGATIVE_TTL_SECONDS: 'five minutes',
+        CACHE_TTL_SECONDS: '{search: 60}',
+        GEOCODERS: JSON.stringify([PELIAS])
+      })
+    ).toThrow(
+      /CACHE_TTL_SECONDS is not valid JSON.*\n- cache.negativeTtlSeconds must be an integer >= 0/
+    )
+    expect(() =>
+      parseConfig({
+        cache: {
+          directory: '',
+          focusPrecisionDigits: 20,
+          maxEntries: 0,
+          store: 'redis',
+          ttlSeconds: { geocode: 60, search: -1 }
+        },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        '- cache.directory must be null or a non-empty string',
+        '- cache.focusPrecisionDigits must be an integer between 0 and 10',
+        '- cache.maxEntries must be a positive integer',
+        '- cache.store must be one of file, memory, none',
+        '- cache.ttlSeconds must map endpoints to an integer number of seconds >= 0'
+      ].join('\n')
+    )
+  })
+  it('should validate ranking and circuit breakers', () => {
+    const config = loadConfig({
+      CIRCUIT_BREAKER_COOLDOWN_MS: '1000',
+      FOCUS_BLEND: '0.5',
+      GEOCODERS: JSON.stringify([PELIAS]),
+      RANKING_WEIGHTS: JSON.stringify({ source: 1 })
+    })
+    expect(config.circuitBreaker).toEqual({
+      cooldownMs: 1000,
+      failureThreshold: 5
+    })
+    expect(config.ranking).toEqual({
+      focusBlend: 0.5,
+      weights: { confidence: 0.3, layer: 0.1, position: 0.1, source: 1 }
+    })
+    expect(() =>
+      loadConfig({
+        CIRCUIT_BREAKER_FAILURE_THRESHOLD: 'often',
+        FOCUS_BLEND: 'near',
+        GEOCODERS: JSON.stringify([PELIAS])
+      })
+    ).toThrow(
+      [
+        '- circuitBreaker.failureThreshold must be a positive integer',
+        '- ranking.focusBlend must be between 0 and 1'
+      ].join('\n')
+    )
+    expect(() =>
+      parseConfig({
+        circuitBreaker: { cooldownMs: -1 },
+        ranking: { focusBlend: 2, weights: { distance: 1, source: -1 } },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      [
+        '- circuitBreaker.cooldownMs must be a number >= 0',
+        '- ranking.focusBlend must be between 0 and 1',
+        '- ranking.weights must map confidence, layer, position, source to numbers >= 0'
+      ].join('\n')
+    )
+  })
+  it('should validate API keys', () => {
+    expect(parseConfig({ sources: [{ geocoder: PELIAS }] }).apiKeys).toEqual([])
+    expect(
+      loadConfig({
+        API_KEYS: JSON.stringify([{ dailyQuota: 100, key: 'abc' }]),
+        GEOCODERS: JSON.stringify([PELIAS])
+      }).apiKeys
+    ).toEqual([{ dailyQuota: 100, key: 'abc' }])
+    expect(() =>
+      parseConfig({
+        apiKeys: [
+          { endpoints: ['geocode'], key: 'abc', sources: ['google'] },
+          { dailyQuota: 1.5, key: 'abc', rateLimit: { burst: 0 } },
+          'def'
+        ],
+        sources: [{ geocoder: PELIAS, name: 'pelias' }]
+      })
+    ).toThrow(
+      [
+        'Error: invalid configuration:',
+        '- apiKeys[0].endpoints must be an array containing only autocomplete, nearby, place, reverse, search, structured',
+        '- apiKeys[0].sources must be an array of source names',
+        '- apiKeys[1].key is not unique',
+        '- apiKeys[1].rateLimit must have a positive burst and perSecond',
+        '- apiKeys[1].dailyQuota must be a positive integer',
+        '- apiKeys[2] must be an object'
+      ].join('\n')
+    )
+  })
+  it('should validate satisfaction rules', () => {
+    const config = loadConfig({
+      FALLBACK_MODE: 'merge',
+      GEOCODERS: JSON.stringify([PELIAS]),
+      SATISFACTION_RULES: JSON.stringify({
+        search: [{ confidence: 0.8, type: 'minConfidence' }]
+      })
+    })
+    expect(config.satisfaction.fallbackMode).toBe('merge')
+    expect(config.satisfaction.rules.search).toEqual([
+      { confidence: 0.8, type: 'minConfidence' }
+    ])
+    expect(config.satisfaction.rules.reverse).toEqual([
+      { count: 1, type: 'minCount' }
+    ])
+    expect(() =>
+      parseConfig({
+        satisfaction: { fallbackMode: 'mix', rules: { geocode: [] } },
+        sources: [{ geocoder: PELIAS }]
+      })
+    ).toThrow(
+      '- satisfaction.fallbackMode must be merge or replace\n- satisfaction.rules.geocode is not an endpoint'
+    )
+  })
+})
@@ -0,0 +1,120 @@
+import { Feature, FeatureCollection } from 'geojson'
+
+import { GEOCODER_TYPES } from '../config'
+import {
+  filterUnsupportedConstraints,
+  GEOCODER_CAPABILITIES
+} from '../constraints'
+
+const makeFeature = (
+  lon: number,
+  lat: number,
+  properties: Record<string, unknown>
+): Feature => ({
+  geometry: { coordinates: [lon, lat], type: 'Point' },
+  properties,
+  type: 'Feature'
+})
+
+const RESPONSE: FeatureCollection = {
+  features: [
+    makeFeature(-122.3, 47.6, {
+      category: ['food'],
+      country_a: 'USA',
+      gid: 'here:venue:1',
+      locality_gid: 'whosonfirst:locality:101730401',
+      name: 'Seattle',
+      source: 'here'
+    }),
+    makeFeature(-123.1, 49.28, {
+      country_a: 'CAN',
+      locality_gid: 'whosonfirst:locality:101741075',
+      name: 'Vancouver',
+      source: 'openstreetmap'
+    })
+  ],
+  type: 'FeatureCollection'
+}
+
+const HERE_RESPONSE =
+  require('./json-mocks/here-response-bus.json') as FeatureCollection
+
+const names = (response: FeatureCollection) =>
+  response.features.map((feature) => feature.properties?.name)
+
+describe('constraint filtering', () => {
+  it('should know the capabilities of every geocoder type', () => {
+    expect(Object.keys(GEOCODER_CAPABILITIES).sort()).toEqual(
+      [...GEOCODER_TYPES].sort()
+    )
+  })
+  it('should not filter geocoders which support a constraint', () => {
+    expect(
+      filterUnsupportedConstraints(
+        RESPONSE,
+        { boundary: { country: 'CAN' } },
+        'PELIAS'
+      )
+    ).toBe(RESPONSE)
+  })
+  it('should enforce boundaries', () => {
+    expect(
+      names(
+        filterUnsupportedConstraints(
+          RESPONSE,
+          { boundaryCircle: { lat: 47.61, lon: -122.33, radius: 10 } },
+          'HERE'
+        )
+      )
+    ).toEqual(['Seattle'])
+    expect(
+      names(
+        filterUnsupportedConstraints(
+          RESPONSE,
+          { boundary: { country: 'can' } },
+          'HERE'
+        )
+      )
+    ).toEqual(['Vancouver'])
+    expect(
+      names(
+        filterUnsupportedConstraints(
+          RESPONSE,
+          { boundaryGid: 'whosonfirst:locality:101741075' },
+          'HERE'
+        )
+      )
+    ).toEqual(['Vancouver'])
+  })
+  it('should enforce categories and sources', () => {
+    const withStation = {
+      ...RESPONSE,
+      features: [
+        ...RESPONSE.features,
+        makeFeature(-122.33, 47.6, { category: ['transport'], name: 'Station' })
+      ]
+    }
+    // Features without categories can't be checked, so they are kept
+    expect(
+      names(
+        filterUnsupportedConstraints(
+          withStation,
+          { categories: 'food' },
+          'HERE'
+        )
+      )
+    ).toEqual(['Seattle', 'Vancouver'])
+    expect(
+      names(filterUnsupportedConstraints(RESPONSE, { sources: 'osm' }, 'HERE'))
+    ).toEqual(['Vancouver'])
+  })
+  it('should keep results of geocoders which return no categories', () => {
+    expect(
+      filterUnsupportedConstraints(
+        HERE_RESPONSE,
+        { categories: 'transport' },
+        'HERE'
+      ).features
+    ).toEqual(HERE_RESPONSE.features)
+  })
+})
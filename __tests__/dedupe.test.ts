@@ -0,0 +1,179 @@
+import { Feature } from 'geojson'
+
+import {
+  findDuplicateReason,
+  getNameSimilarity,
+  getRichness,
+  mergeDuplicate
+} from '../dedupe'
+import { mergeRankedResponses } from '../merge'
+
+const makeFeature = (
+  lon: number,
+  lat: number,
+  properties: Record<string, unknown>
+): Feature => ({
+  geometry: { coordinates: [lon, lat], type: 'Point' },
+  properties,
+  type: 'Feature'
+})
+
+describe('duplicate detection', () => {
+  it('should compare normalized names', () => {
+    expect(getNameSimilarity('N. Main St', 'north main street')).toBe(1)
+    expect(getNameSimilarity('Café Nero', 'CAFE NERO')).toBe(1)
+    expect(getNameSimilarity('Main St', 'Main')).toBeLessThan(0.8)
+    expect(getNameSimilarity('', 'Main')).toBe(0)
+    expect(getNameSimilarity('St. Mary', 'Street Mary')).toBeLessThan(1)
+    expect(getNameSimilarity('E Smith', 'East Smith')).toBeLessThan(1)
+  })
+  it('should match addresses on their components', () => {
+    const here = makeFeature(-122.3321, 47.6062, {
+      housenumber: '400',
+      layer: 'address',
+      name: '400 Broad Street',
+      postalcode: '98109',
+      street: 'Broad Street'
+    })
+    const osm = makeFeature(-122.3325, 47.6065, {
+      housenumber: '400',
+      layer: 'address',
+      name: 'Space Needle',
+      street: 'Broad St'
+    })
+    expect(findDuplicateReason(osm, here)).toBe('address')
+    expect(
+      findDuplicateReason(
+        { ...osm, properties: { ...osm.properties, postalcode: '98101' } },
+        here
+      )
+    ).toBe(null)
+  })
+  it('should use distance thresholds per layer', () => {
+    const venue = makeFeature(-122.3493, 47.6205, {
+      layer: 'venue',
+      name: 'Space Needle'
+    })
+    // Roughly 300m away
+    const farVenue = makeFeature(-122.3453, 47.6205, {
+      layer: 'venue',
+      name: 'Space Needle'
+    })
+    expect(findDuplicateReason(farVenue, venue)).toBe(null)
+    expect(
+      findDuplicateReason(farVenue, venue, {
+        layerDistances: { venue: 500 }
+      })
+    ).toBe('name')
+    expect(
+      findDuplicateReason(
+        { ...farVenue, properties: { layer: 'locality', name: 'Seattle' } },
+        { ...venue, properties: { layer: 'locality', name: 'Seattle' } }
+      )
+    ).toBe('name')
+    expect(
+      findDuplicateReason(farVenue, venue, {
+        checkNameDuplicates: false,
+        layerDistances: { venue: 500 }
+      })
+    ).toBe(null)
+  })
+  it('should match transit stops by their coordinates', () => {
+    const stop = makeFeature(-122.238459, 47.880281, {
+      addendum: { osm: { operator: 'Community Transit' } },
+      name: 'Mariner P&R'
+    })
+    const gtfsStop = makeFeature(-122.23846, 47.88028, {
+      layer: 'stops',
+      name: 'Mariner Park & Ride Bay 1'
+    })
+    expect(findDuplicateReason(stop, gtfsStop)).toBe('stop')
+    expect(
+      findDuplicateReason(stop, gtfsStop, { coordinatePrecisionDigits: 6 })
+    ).toBe(null)
+  })
+  it('should recognize HERE transit stops by their category', () => {
+    const gtfsStop = makeFeature(-122.43634, 37.793899, {
+      layer: 'stops',
+      name: 'Steiner St & Washington St'
+    })
+    const hereStop = makeFeature(-122.43634, 37.793899, {
+      addendum: {
+        categories: [{ id: '400-4100-0037', name: 'Underground Train-Subway' }]
+      },
+      layer: 'venue',
+      name: 'Steiner'
+    })
+    expect(findDuplicateReason(hereStop, gtfsStop)).toBe('stop')
+    // Other results near a stop are kept, unless they're named alike
+    const venue = { ...hereStop, properties: { layer: 'venue', name: 'Cafe' } }
+    expect(findDuplicateReason(venue, gtfsStop)).toBe(null)
+  })
+})
+
+describe('duplicate merging', () => {
+  const sparse = makeFeature(-122.3493, 47.6205, {
+    gid: 'transit:venue:1',
+    layer: 'venue',
+    name: 'Space Needle'
+  })
+  const rich = makeFeature(-122.3492, 47.6205, {
+    addendum: { osm: { website: 'https://www.spaceneedle.com' } },
+    gid: 'openstreetmap:venue:1',
+    housenumber: '400',
+    layer: 'venue',
+    name: 'Space Needle',
+    street: 'Broad Street'
+  })
+
+  it('should fill in missing properties', () => {
+    expect(getRichness(rich)).toBeGreaterThan(getRichness(sparse))
+    expect(mergeDuplicate(sparse, rich).properties).toEqual({
+      ...rich.properties,
+      gid: 'transit:venue:1'
+    })
+  })
+  it('should keep the higher priority or richer feature', () => {
+    const byPriority = mergeRankedResponses([
+      {
+        priority: 0,
+        response: { features: [rich], type: 'FeatureCollection' },
+        source: 'osm'
+      },
+      {
+        priority: 1,
+        response: { features: [sparse], type: 'FeatureCollection' },
+        source: 'transit'
+      }
+    ])
+    expect(byPriority.features).toHaveLength(1)
+    expect(byPriority.features[0].properties?.gid).toBe('transit:venue:1')
+    expect(byPriority.features[0].properties?.street).toBe('Broad Street')
+
+    const byRichness = mergeRankedResponses([
+      {
+        priority: 0,
+        response: { features: [sparse], type: 'FeatureCollection' },
+        source: 'transit'
+      },
+      {
+        priority: 0,
+        response: { features: [rich], type: 'FeatureCollection' },
+        source: 'osm'
+      }
+    ])
+    expect(byRichness.features).toHaveLength(1)
+    expect(byRichness.features[0].properties?.stitch.source).toBe('osm')
+  })
+  it('should not dedupe features of the same source', () => {
+    expect(
+      mergeRankedResponses([
+        {
+          priority: 0,
+          response: { features: [sparse, rich], type: 'FeatureCollection' },
+          source: 'osm'
+        }
+      ]).features
+    ).toHaveLength(2)
+  })
+})
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import fetch from 'node-fetch'
+
+import {
+  findFixture,
+  loadFixtures,
+  startFakeUpstream,
+  UpstreamFixture
+} from '../fake-upstream'
+
+const FIXTURES: UpstreamFixture[] = [
+  { request: { path: '/v1/search' }, response: { body: { any: true } } },
+  {
+    request: { path: '/v1/search', query: { text: 'main' } },
+    response: { body: 'unavailable', status: 503 }
+  }
+]
+
+describe('fake upstream', () => {
+  it('should prefer the fixture requiring the most query parameters', () => {
+    expect(
+      findFixture(FIXTURES, {
+        path: '/v1/search',
+        query: { size: '4', text: 'main' }
+      })
+    ).toBe(FIXTURES[1])
+    expect(
+      findFixture(FIXTURES, { path: '/v1/search', query: { text: 'elm' } })
+    ).toBe(FIXTURES[0])
+    expect(
+      findFixture(FIXTURES, { path: '/v1/reverse', query: {} })
+    ).toBeUndefined()
+  })
+  it('should answer from fixtures, and 404 without one', async () => {
+    const upstream = await startFakeUpstream({ fixtures: FIXTURES })
+    try {
+      const failing = await fetch(`${upstream.url}/v1/search?text=main`)
+      expect(failing.status).toBe(503)
+      expect(await failing.text()).toBe('unavailable')
+      const missing = await fetch(`${upstream.url}/v1/reverse`)
+      expect(missing.status).toBe(404)
+      expect(upstream.requests).toEqual([
+        { path: '/v1/search', query: { text: 'main' } },
+        { path: '/v1/reverse', query: {} }
+      ])
+    } finally {
+      await upstream.close()
+    }
+  })
+  it('should tell when delayed requests have been answered', async () => {
+    const upstream = await startFakeUpstream({
+      fixtures: [
+        { request: { path: '/v1/search' }, response: { body: {}, delayMs: 50 } }
+      ]
+    })
+    const response = fetch(`${upstream.url}/v1/search`)
+    while (!upstream.requests.length) {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+    await upstream.settled()
+    // Closing would otherwise hang up on the request
+    await upstream.close()
+    expect((await response).status).toBe(200)
+  })
+  it('should record missing fixtures without secrets', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'fixtures-'))
+    const real = await startFakeUpstream({ fixtures: FIXTURES })
+    const recording = await startFakeUpstream({
+      fixtures: [],
+      record: { directory, target: real.url }
+    })
+    try {
+      const response = await fetch(
+        `${recording.url}/v1/search?api_key=secret&text=elm`
+      )
+      expect(await response.json()).toEqual({ any: true })
+      // Answered from the recorded fixture
+      await fetch(`${recording.url}/v1/search?api_key=secret&text=elm`)
+      expect(real.requests).toHaveLength(1)
+
+      expect(await loadFixtures(directory)).toEqual([
+        {
+          request: { path: '/v1/search', query: { text: 'elm' } },
+          response: { body: { any: true }, status: 200 }
+        }
+      ])
+    } finally {
+      await recording.close()
+      await real.close()
+      await fs.rm(directory, { force: true, recursive: true })
+    }
+  })
+})
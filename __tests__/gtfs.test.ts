@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import type { Feature } from 'geojson'
+
+import {
+  enrichStops,
+  getRouteMode,
+  GtfsError,
+  GtfsIndex,
+  loadGtfsIndex,
+  queryStops
+} from '../gtfs'
+
+const FEED = join(__dirname, 'fixtures', 'gtfs')
+
+const makeFeature = (
+  name: string,
+  lat: number,
+  lon: number,
+  properties: Record<string, unknown> = {}
+): Feature => ({
+  geometry: { coordinates: [lon, lat], type: 'Point' },
+  properties: { layer: 'venue', name, ...properties },
+  type: 'Feature'
+})
+
+describe('GTFS', () => {
+  let index: GtfsIndex
+  beforeAll(async () => {
+    index = await loadGtfsIndex(FEED)
+  })
+
+  it('should load stops with the routes stopping there', () => {
+    // Entrances aren't stops
+    expect(index.stops.map(({ id }) => id)).toEqual([
+      '578',
+      '1108',
+      'westlake',
+      'westlake-1'
+    ])
+    expect(index.stops[0]).toEqual({
+      code: '578',
+      id: '578',
+      lat: 47.6099,
+      lon: -122.3383,
+      name: '3rd Ave & Pike St',
+      routes: [
+        {
+          agency: 'King County Metro',
+          color: 'FDB71A',
+          id: '100040',
+          longName: 'Northgate - Downtown Seattle',
+          mode: 'BUS',
+          shortName: '40'
+        },
+        {
+          agency: 'King County Metro',
+          id: '102576',
+          longName: 'RapidRide C Line',
+          mode: 'BUS',
+          shortName: 'C Line'
+        }
+      ]
+    })
+    // Stations are served by the routes of their platforms
+    expect(
+      index.get('gtfs:stops:westlake')?.routes.map(({ id }) => id)
+    ).toEqual(['100479'])
+  })
+  it('should map basic and extended route types to modes', () => {
+    expect(['0', '3', '401', '700', '1000', '99'].map(getRouteMode)).toEqual([
+      'TRAM',
+      'BUS',
+      'SUBWAY',
+      'BUS',
+      'FERRY',
+      'TRANSIT'
+    ])
+  })
+  it('should list every problem of an invalid feed', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'gtfs-'))
+    try {
+      await expect(loadGtfsIndex(directory)).rejects.toThrow(
+        'routes.txt could not be read'
+      )
+      await Promise.all(
+        ['routes.txt', 'trips.txt', 'stop_times.txt'].map((file) =>
+          fs.copyFile(join(FEED, file), join(directory, file))
+        )
+      )
+      await fs.writeFile(
+        join(directory, 'stops.txt'),
+        'stop_id,stop_name,stop_lat,stop_lon\n1,,47.6,-122.3\n2,Main St,91,\n'
+      )
+      await expect(loadGtfsIndex(directory)).rejects.toThrow(
+        new GtfsError([
+          'stops.txt row 1: stop_name is required',
+          'stops.txt row 2: stop_lat must be a number between -90 and 90',
+          'stops.txt row 2: stop_lon must be a number between -180 and 180'
+        ])
+      )
+    } finally {
+      await fs.rm(directory, { force: true, recursive: true })
+    }
+  })
+  it('should match stops and results named like stops', () => {
+    const { features } = enrichStops(
+      {
+        features: [
+          makeFeature('3rd & Pike', 47.60992, -122.33833, {
+            addendum: { osm: { operator: 'King County Metro' } }
+          }),
+          // Close to a stop, but not one
+          makeFeature('Pike Place Coffee', 47.6099, -122.3384),
+          // Named like a close stop, but not known to be one
+          makeFeature('Westlake Station', 47.6117, -122.3371),
+          makeFeature('3rd Ave & Pike St', 47.60991, -122.33831, {
+            layer: 'intersection'
+          }),
+          // Known to be a stop, and named like the one which isn't the closest
+          makeFeature('Westlake Station Platform 1', 47.6117, -122.3371, {
+            layer: 'stops'
+          }),
+          // Too far from the stop
+          makeFeature('Westlake Ave N & Harrison St', 47.63, -122.3384, {
+            layer: 'stops'
+          })
+        ],
+        type: 'FeatureCollection'
+      },
+      index,
+      50
+    )
+    expect(
+      features.map(({ properties }) => [
+        properties?.layer,
+        properties?.addendum?.gtfs?.stopId
+      ])
+    ).toEqual([
+      ['stops', '578'],
+      ['venue', undefined],
+      ['venue', undefined],
+      ['intersection', undefined],
+      ['stops', 'westlake-1'],
+      ['stops', undefined]
+    ])
+    expect(features[0].properties?.addendum).toEqual({
+      gtfs: {
+        agencies: ['King County Metro'],
+        code: '578',
+        modes: ['BUS'],
+        routes: index.stops[0].routes,
+        stopId: '578'
+      },
+      osm: { operator: 'King County Metro' }
+    })
+  })
+  it('should answer requests of the stops layer', () => {
+    const names = (
+      endpoint: 'autocomplete' | 'reverse' | 'search',
+      query = {}
+    ) =>
+      queryStops(index, endpoint, { size: 10, ...query }).features.map(
+        ({ properties }) => properties?.name
+      )
+    // Stops can be found by their code
+    expect(names('autocomplete', { text: '57' })).toEqual(['3rd Ave & Pike St'])
+    expect(names('search', { text: 'westlake station' })).toEqual([
+      'Westlake Station',
+      'Westlake Station Platform 1'
+    ])
+    expect(
+      names('reverse', { point: { lat: '47.6099', lon: '-122.3383' } })
+    ).toEqual([
+      '3rd Ave & Pike St',
+      'Westlake Station Platform 1',
+      'Westlake Station'
+    ])
+    expect(
+      queryStops(index, 'place', { ids: ['gtfs:stops:1108'] }).features[0]
+    ).toMatchObject({
+      geometry: { coordinates: [-122.3384, 47.6223] },
+      properties: { layer: 'stops', source: 'gtfs' }
+    })
+  })
+})
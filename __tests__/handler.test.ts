@@ -0,0 +1,194 @@
+import { join } from 'path'
+
+import {
+  FakeUpstream,
+  interceptHereRequests,
+  loadFixtures,
+  startFakeUpstream
+} from '../fake-upstream'
+import type { ServerlessEvent, ServerlessResponse } from '../utils'
+
+type Handler = (
+  event: Partial<ServerlessEvent>,
+  context: unknown
+) => Promise<ServerlessResponse>
+
+// Bugsnag would report sessions, its wrapper is replaced by one which only
+// turns the callback into a promise like Lambda does
+jest.mock('@bugsnag/js', () => ({
+  __esModule: true,
+  default: {
+    getPlugin: () => ({
+      createHandler:
+        () =>
+        (handler: (...args: unknown[]) => Promise<void>) =>
+        (event: unknown, context: unknown) =>
+          new Promise((resolve, reject) => {
+            handler(event, context, (error: unknown, response: unknown) =>
+              error ? reject(error) : resolve(response)
+            ).catch(reject)
+          })
+    }),
+    start: jest.fn()
+  }
+}))
+
+const FIXTURES = join(__dirname, 'fixtures', 'upstream')
+
+describe('handlers against fake upstreams', () => {
+  let handlers: Record<string, Handler>
+  let restoreFetch: () => void
+  let upstream: FakeUpstream
+  const env = process.env
+
+  const call = async (name: string, event: Partial<ServerlessEvent>) => {
+    const { body, headers, statusCode } = await handlers[name](event, {})
+    return {
+      body: headers['Content-Type'] === 'application/json' && JSON.parse(body),
+      statusCode
+    }
+  }
+  const labels = (body: { features: { properties: { label: string } }[] }) =>
+    body.features.map(({ properties }) => properties.label)
+
+  beforeAll(async () => {
+    upstream = await startFakeUpstream({
+      fixtures: await loadFixtures(FIXTURES)
+    })
+    restoreFetch = interceptHereRequests(upstream.url)
+    process.env = {
+      ...env,
+      BACKUP_GEOCODERS: JSON.stringify([
+        { baseUrl: `${upstream.url}/backup/v1`, type: 'PELIAS' },
+        null
+      ]),
+      FORMAT_LABELS: 'true',
+      GEOCODER_TIMEOUTS_MS: '300',
+      GEOCODERS: JSON.stringify([
+        { baseUrl: `${upstream.url}/primary/v1`, type: 'PELIAS' },
+        { apiKey: 'test-key', type: 'HERE' }
+      ]),
+      LOG_REQUESTS: 'false'
+    }
+    // The handler reads its configuration when it is loaded
+    jest.isolateModules(() => {
+      handlers = require('../handler')
+    })
+  })
+  afterAll(async () => {
+    process.env = env
+    restoreFetch()
+    await upstream.close()
+  })
+  beforeEach(() => {
+    upstream.requests.length = 0
+  })
+  afterEach(async () => {
+    // Requests the stitcher stopped waiting for are still answered, which must
+    // happen before the test ends rather than once the upstream is closed
+    await upstream.settled()
+    jest.restoreAllMocks()
+  })
+
+  it('should merge the results of every upstream', async () => {
+    const { body, statusCode } = await call('search', {
+      queryStringParameters: { text: 'pike place' }
+    })
+    expect(statusCode).toBe(200)
+    // Both are labelled the same way, whatever HERE's label was
+    expect(labels(body)).toEqual([
+      'Post Alley, Seattle, WA, USA',
+      'Pike Place Market, Seattle, WA, USA'
+    ])
+    expect(upstream.requests.map(({ path }) => path).sort()).toEqual([
+      '/here/geocode',
+      '/primary/v1/search'
+    ])
+    // The API key is sent upstream, but never saved
+    expect(
+      upstream.requests.find(({ path }) => path === '/here/geocode')?.query
+        .apiKey
+    ).toBe('test-key')
+  })
+  it('should use the backup geocoder if the primary one is too slow', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const { body, statusCode } = await call('search', {
+      queryStringParameters: { text: 'space needle' }
+    })
+    expect(statusCode).toBe(200)
+    expect(labels(body)).toEqual(['Seattle, WA, USA'])
+    expect(body.geocoding.engine.upstreams).toContainEqual(
+      expect.objectContaining({ backupUsed: true, featureCount: 1 })
+    )
+  })
+  it('should use the backup geocoder if the primary one fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const { body, statusCode } = await call('search', {
+      queryStringParameters: { text: 'union station' }
+    })
+    expect(statusCode).toBe(200)
+    expect(labels(body)).toEqual(['Seattle, WA, USA'])
+    expect(upstream.requests.map(({ path }) => path)).toContain(
+      '/backup/v1/search'
+    )
+  })
+  it('should answer reverse requests', async () => {
+    const { body, statusCode } = await call('reverse', {
+      queryStringParameters: {
+        'point.lat': '47.6205',
+        'point.lon': '-122.3493'
+      }
+    })
+    expect(statusCode).toBe(200)
+    expect(labels(body)).toEqual(['Space Needle, Seattle, WA, USA'])
+  })
+  it('should answer batches', async () => {
+    const { body, statusCode } = await call('batch', {
+      body: JSON.stringify([
+        { id: 'a', query: { text: 'pike place' } },
+        { endpoint: 'search', id: 'b', query: {} }
+      ]),
+      headers: {}
+    })
+    expect(statusCode).toBe(200)
+    expect(
+      body.results.map(
+        ({ id, statusCode }: { id: string; statusCode: number }) => [
+          id,
+          statusCode
+        ]
+      )
+    ).toEqual([
+      ['a', 200],
+      ['b', 400]
+    ])
+  })
+  it('should take the api key of batches from the query string', async () => {
+    let keyedHandlers: Record<string, Handler> = {}
+    const unkeyedEnv = process.env
+    process.env = { ...unkeyedEnv, API_KEYS: JSON.stringify([{ key: 'abc' }]) }
+    jest.isolateModules(() => {
+      keyedHandlers = require('../handler')
+    })
+    process.env = unkeyedEnv
+
+    const event = {
+      body: JSON.stringify([{ query: { text: 'pike place' } }]),
+      headers: {}
+    }
+    expect((await keyedHandlers.batch(event, {})).statusCode).toBe(401)
+    expect(
+      (
+        await keyedHandlers.batch(
+          { ...event, queryStringParameters: { api_key: 'abc' } },
+          {}
+        )
+      ).statusCode
+    ).toBe(200)
+  })
+  it('should not request upstreams for invalid requests', async () => {
+    const { statusCode } = await call('search', { queryStringParameters: {} })
+    expect(statusCode).toBe(400)
+    expect(upstream.requests).toEqual([])
+  })
+})
@@ -0,0 +1,129 @@
+import type { Feature } from 'geojson'
+
+import { formatStreet, LabelOptions, makeLabelFormatter } from '../labels'
+
+const OPTIONS: LabelOptions = {
+  enabled: true,
+  streetTypes: 'abbreviate',
+  templates: {}
+}
+
+const makeFeature = (properties: Record<string, unknown>): Feature => ({
+  geometry: { coordinates: [-122.3422, 47.6097], type: 'Point' },
+  properties,
+  type: 'Feature'
+})
+
+// How Pelias and HERE describe the same address
+const PELIAS_ADDRESS = makeFeature({
+  country: 'United States',
+  country_a: 'USA',
+  country_code: 'US',
+  housenumber: '85',
+  label: '85 Pike Street, Seattle, WA, USA',
+  layer: 'address',
+  locality: 'Seattle',
+  name: '85 Pike Street',
+  region: 'Washington',
+  region_a: 'WA',
+  source: 'openaddresses',
+  street: 'Pike Street'
+})
+const HERE_ADDRESS = makeFeature({
+  country: 'United States',
+  country_a: 'USA',
+  country_code: 'USA',
+  housenumber: '85',
+  label: '85 Pike St, Seattle, WA 98101, United States',
+  layer: 'address',
+  locality: 'Seattle',
+  name: '85 Pike St, Seattle, WA 98101, United States',
+  postalcode: '98101',
+  region: 'Washington',
+  source: 'here',
+  street: 'Pike St'
+})
+
+describe('labels', () => {
+  it('should abbreviate and expand street types and directions', () => {
+    const abbreviate = (street: string) => formatStreet(street, 'abbreviate')
+    const expand = (street: string) => formatStreet(street, 'expand')
+    expect(abbreviate('North Main Street')).toBe('N Main St')
+    expect(abbreviate('Main Ave. Northwest')).toBe('Main Ave NW')
+    expect(expand('N Main St')).toBe('North Main Street')
+    expect(expand('3rd Ave & Pike St')).toBe('3rd Avenue & Pike Street')
+    // Names which only look like street types or directions are kept
+    expect(abbreviate('North Avenue')).toBe('North Ave')
+    expect(expand('St Marks Pl')).toBe('St Marks Place')
+    expect(abbreviate('Avenue of the Americas')).toBe('Avenue of the Americas')
+    expect(formatStreet('North Main Street', 'keep')).toBe('North Main Street')
+  })
+  it('should label results of every source alike', () => {
+    const formatLabel = makeLabelFormatter(OPTIONS)
+    expect(formatLabel(PELIAS_ADDRESS)).toBe('85 Pike St, Seattle, WA, USA')
+    expect(formatLabel(HERE_ADDRESS)).toBe('85 Pike St, Seattle, WA, USA')
+    expect(
+      makeLabelFormatter({ ...OPTIONS, streetTypes: 'expand' })(HERE_ADDRESS)
+    ).toBe('85 Pike Street, Seattle, WA, USA')
+    expect(
+      formatLabel(
+        makeFeature({
+          ...PELIAS_ADDRESS.properties,
+          housenumber: undefined,
+          layer: 'venue',
+          name: 'Pike Place Market',
+          street: 'Pike Place'
+        })
+      )
+    ).toBe('Pike Place Market, Pike Pl, Seattle, WA, USA')
+    // Names repeating another part are left out
+    expect(
+      formatLabel(
+        makeFeature({
+          country: 'United States',
+          country_a: 'USA',
+          layer: 'locality',
+          locality: 'Seattle',
+          name: 'Seattle',
+          region: 'Washington'
+        })
+      )
+    ).toBe('Seattle, WA, USA')
+    // Without address components, results keep their label
+    expect(
+      formatLabel(
+        makeFeature({ label: 'Space Needle (Seattle)', name: 'Space Needle' })
+      )
+    ).toBe('Space Needle (Seattle)')
+    expect(formatLabel(makeFeature({ name: 'Space Needle' }))).toBe(
+      'Space Needle'
+    )
+  })
+  it('should use the template of the country, and translate its name', () => {
+    const formatLabel = makeLabelFormatter({
+      ...OPTIONS,
+      templates: { USA: ['{housenumber} {street}', '{postalcode} {locality}'] }
+    })
+    const berlin = makeFeature({
+      country: 'Deutschland',
+      country_a: 'DEU',
+      housenumber: '1',
+      layer: 'address',
+      locality: 'Berlin',
+      name: 'Pariser Platz 1',
+      postalcode: '10117',
+      street: 'Pariser Platz'
+    })
+    expect(formatLabel(berlin)).toBe(
+      'Pariser Platz 1, 10117 Berlin, Deutschland'
+    )
+    expect(formatLabel(berlin, 'en')).toBe(
+      'Pariser Platz 1, 10117 Berlin, Germany'
+    )
+    // Unknown languages are ignored
+    expect(formatLabel(berlin, 'not a language')).toBe(
+      'Pariser Platz 1, 10117 Berlin, Deutschland'
+    )
+    expect(formatLabel(HERE_ADDRESS)).toBe('85 Pike St, 98101 Seattle')
+  })
+})
@@ -0,0 +1,345 @@
+import type { LonLatOutput } from '@conveyal/lonlat'
+import { FeatureCollection } from 'geojson'
+
+import {
+  DEFAULT_FOCUS_BLEND,
+  DEFAULT_RANKING_WEIGHTS,
+  mergeRankedResponses
+} from '../merge'
+
+const CUSTOM_RESPONSE =
+  require('./json-mocks/custom-response.json') as FeatureCollection
+const GEOCODE_EARTH_RESPONSE =
+  require('./json-mocks/geocode-earth-response.json') as FeatureCollection
+const GEOCODE_EARTH_RESPONSE_BUS =
+  require('./json-mocks/geocode-earth-response-bus.json') as FeatureCollection
+const GEOCODE_EARTH_RESPONSE_BUS_SAME_NAME =
+  require('./json-mocks/geocode-earth-response-bus-same-name.json') as FeatureCollection
+const HERE_RESPONSE_BUS =
+  require('./json-mocks/here-response-bus.json') as FeatureCollection
+
+/**
+ * Merges a custom and a primary response like the stitcher does when the
+ * custom source has the higher priority. The explanations are left out, so
+ * that snapshots pin which features are kept and in which order
+ */
+const mergeResponses = (
+  responses: {
+    customResponse: FeatureCollection
+    primaryResponse: FeatureCollection
+  },
+  checkNameDuplicates = true,
+  focusPoint?: LonLatOutput
+): FeatureCollection => {
+  const merged = mergeRankedResponses(
+    [
+      { priority: 1, response: responses.customResponse, source: 'custom' },
+      { priority: 0, response: responses.primaryResponse, source: 'primary' }
+    ],
+    checkNameDuplicates,
+    focusPoint
+  )
+  return {
+    ...merged,
+    features: merged.features.map((feature) => {
+      const properties = { ...feature.properties }
+      delete properties.stitch
+      return { ...feature, properties }
+    })
+  }
+}
+
+describe('ranked response merging', () => {
+  it('should rank the higher priority source first by default', () => {
+    const merged = mergeRankedResponses([
+      { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' },
+      { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' }
+    ])
+
+    expect(merged.features).toHaveLength(
+      CUSTOM_RESPONSE.features.length + GEOCODE_EARTH_RESPONSE.features.length
+    )
+    expect(merged.features[0].properties?.stitch.source).toBe('transit')
+    expect(
+      merged.features[merged.features.length - 1].properties?.stitch.source
+    ).toBe('earth')
+    // Order of the input array must not matter
+    expect(
+      mergeRankedResponses([
+        { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' },
+        { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' }
+      ]).features.map((f) => f.properties?.gid)
+    ).toEqual(merged.features.map((f) => f.properties?.gid))
+  })
+
+  it('should not change the responses it merges', () => {
+    const responses = [
+      { priority: 0, response: GEOCODE_EARTH_RESPONSE_BUS, source: 'earth' },
+      { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' }
+    ]
+    const copies = JSON.parse(JSON.stringify(responses))
+    const merged = mergeRankedResponses(responses, true, {
+      lat: 47.880281,
+      lon: -122.238459
+    })
+    expect(responses).toEqual(copies)
+    expect(
+      mergeRankedResponses(responses, true, {
+        lat: 47.880281,
+        lon: -122.238459
+      })
+    ).toEqual(merged)
+  })
+
+  it('should explain every ranking decision', () => {
+    const merged = mergeRankedResponses([
+      { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' },
+      { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' }
+    ])
+
+    merged.features.forEach((feature, index) => {
+      const { stitch } = feature.properties || {}
+      expect(stitch.rank).toBe(index + 1)
+      expect(stitch.signals.proximity).toBeUndefined()
+      expect(feature.properties?.distance).toBe(
+        CUSTOM_RESPONSE.features
+          .concat(GEOCODE_EARTH_RESPONSE.features)
+          .find((f) => f.properties?.gid === feature.properties?.gid)
+          ?.properties?.distance
+      )
+      const contributionSum = Object.keys(stitch.contributions).reduce(
+        (sum: number, key: string) => sum + stitch.contributions[key],
+        0
+      )
+      expect(contributionSum).toBeCloseTo(stitch.score)
+    })
+    // Input must not be modified
+    expect(CUSTOM_RESPONSE.features[0].properties?.stitch).toBeUndefined()
+  })
+
+  it('should let confidence outweigh source priority when configured', () => {
+    const lowConfidence: FeatureCollection = {
+      ...CUSTOM_RESPONSE,
+      features: CUSTOM_RESPONSE.features.map((feature) => ({
+        ...feature,
+        properties: { ...feature.properties, confidence: 0.1 }
+      }))
+    }
+    const merged = mergeRankedResponses(
+      [
+        { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' },
+        { priority: 1, response: lowConfidence, source: 'transit' }
+      ],
+      true,
+      undefined,
+      {
+        focusBlend: DEFAULT_FOCUS_BLEND,
+        weights: { ...DEFAULT_RANKING_WEIGHTS, confidence: 1 }
+      }
+    )
+    expect(merged.features[0].properties?.stitch.source).toBe('earth')
+  })
+
+  it('should remove duplicate stops from lower priority sources only', () => {
+    const merged = mergeRankedResponses([
+      { priority: 0, response: GEOCODE_EARTH_RESPONSE_BUS, source: 'earth' },
+      { priority: 1, response: GEOCODE_EARTH_RESPONSE, source: 'transit' }
+    ])
+    expect(merged.features).toHaveLength(1)
+    expect(merged.features[0].properties?.stitch.source).toBe('transit')
+  })
+
+  it('should report every dropped duplicate', () => {
+    const onDuplicate = jest.fn()
+    mergeRankedResponses(
+      [
+        { priority: 0, response: GEOCODE_EARTH_RESPONSE_BUS, source: 'earth' },
+        { priority: 1, response: GEOCODE_EARTH_RESPONSE, source: 'transit' }
+      ],
+      true,
+      undefined,
+      undefined,
+      onDuplicate
+    )
+    expect(onDuplicate).toHaveBeenCalledTimes(
+      GEOCODE_EARTH_RESPONSE_BUS.features.length +
+        GEOCODE_EARTH_RESPONSE.features.length -
+        1
+    )
+    expect(onDuplicate).toHaveBeenCalledWith(
+      expect.objectContaining({ keptSource: 'transit', source: 'earth' })
+    )
+  })
+
+  it('should drop far away results if a higher priority source has results', () => {
+    const onDuplicate = jest.fn()
+    // Steiner St is in San Francisco, the stops are near Seattle
+    const focusPoint = { lat: 47.880281, lon: -122.238459 }
+    const merged = mergeRankedResponses(
+      [
+        { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' },
+        { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' }
+      ],
+      true,
+      focusPoint,
+      undefined,
+      onDuplicate
+    )
+    expect(merged.features).toHaveLength(CUSTOM_RESPONSE.features.length)
+    expect(onDuplicate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        keptSource: 'transit',
+        reason: 'distance',
+        source: 'earth'
+      })
+    )
+    // The distance can be set per source
+    expect(
+      mergeRankedResponses(
+        [
+          {
+            dedupe: {
+              checkNameDuplicates: true,
+              coordinatePrecisionDigits: 4,
+              maxDistance: 2000000
+            },
+            priority: 0,
+            response: GEOCODE_EARTH_RESPONSE,
+            source: 'earth'
+          },
+          { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' }
+        ],
+        true,
+        focusPoint
+      ).features
+    ).toHaveLength(CUSTOM_RESPONSE.features.length + 1)
+    // Results of the highest priority source are never dropped this way
+    expect(
+      mergeRankedResponses(
+        [
+          { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' },
+          { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' }
+        ],
+        true,
+        { lat: 37.793899, lon: -122.43634 }
+      ).features
+    ).toHaveLength(CUSTOM_RESPONSE.features.length + 1)
+  })
+
+  it('should rank closer results higher when a focus point is given', () => {
+    const focusedOnSteinerStreet = mergeRankedResponses(
+      [
+        { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' },
+        { priority: 0, response: CUSTOM_RESPONSE, source: 'transit' }
+      ],
+      true,
+      { lat: 37.793899, lon: -122.43634 }
+    )
+    expect(focusedOnSteinerStreet.features[0].properties?.stitch.source).toBe(
+      'earth'
+    )
+  })
+
+  it('should fill in the distance to the focus point in km', () => {
+    const merged = mergeRankedResponses(
+      [{ priority: 0, response: CUSTOM_RESPONSE, source: 'transit' }],
+      true,
+      { lat: 47.880281, lon: -122.238459 }
+    )
+    expect(merged.features[0].properties?.distance).toBe(0)
+    merged.features.forEach((feature) => {
+      expect(feature.properties?.distance).toBeLessThan(1)
+      expect(feature.properties?.stitch.signals.proximity).toBeDefined()
+    })
+  })
+
+  it('should rank purely by distance with a focus blend of 1', () => {
+    const focusPoint = { lat: 47.879915, lon: -122.238637 }
+    const merged = mergeRankedResponses(
+      [
+        { priority: 1, response: CUSTOM_RESPONSE, source: 'transit' },
+        { priority: 0, response: GEOCODE_EARTH_RESPONSE, source: 'earth' }
+      ],
+      true,
+      focusPoint,
+      { focusBlend: 1, weights: DEFAULT_RANKING_WEIGHTS }
+    )
+    const distances = merged.features.map((f) => f.properties?.distance)
+    expect(distances).toEqual([...distances].sort((a, b) => a - b))
+    expect(merged.features[0].properties?.gid).toBe(
+      'transit:stops:2104::commtrans::stops'
+    )
+  })
+})
+
+describe('response merging', () => {
+  it('should merge 2 real responses correctly', () => {
+    const merged = mergeResponses({
+      customResponse: CUSTOM_RESPONSE,
+      primaryResponse: GEOCODE_EARTH_RESPONSE
+    })
+    expect(merged).toBeDefined()
+    expect(merged).toMatchSnapshot()
+
+    // This is done to test that merging is done idempotently
+    // This is a common issue when dealing with Javascript objects
+    // We don't want to affect the original responses
+    const mergedAgain = mergeResponses({
+      customResponse: CUSTOM_RESPONSE,
+      primaryResponse: GEOCODE_EARTH_RESPONSE
+    })
+    expect(mergedAgain).toBeDefined()
+    expect(mergedAgain).toMatchSnapshot()
+  })
+
+  // Identical addresses are duplicates, even if neither is a bus stop
+  it('should filter out 2 identical addresses if geocodeEarth response is not a bus stop', () => {
+    const merged = mergeResponses({
+      customResponse: GEOCODE_EARTH_RESPONSE_BUS,
+      primaryResponse: GEOCODE_EARTH_RESPONSE
+    })
+    expect(merged).toMatchSnapshot()
+  })
+  it('should filter out 2 identical responses if geocodeEarth response is a bus stop', () => {
+    const merged = mergeResponses({
+      customResponse: GEOCODE_EARTH_RESPONSE,
+      primaryResponse: GEOCODE_EARTH_RESPONSE_BUS
+    })
+    expect(merged).toMatchSnapshot()
+  })
+  it('should filter out 2 identical responses if geocodeEarth response has the same name', () => {
+    const merged = mergeResponses({
+      customResponse: GEOCODE_EARTH_RESPONSE,
+      primaryResponse: GEOCODE_EARTH_RESPONSE_BUS_SAME_NAME
+    })
+    expect(merged).toMatchSnapshot()
+  })
+  it('should filter out 2 identical responses if HERE response is a bus stop', () => {
+    const merged = mergeResponses({
+      customResponse: GEOCODE_EARTH_RESPONSE,
+      primaryResponse: HERE_RESPONSE_BUS
+    })
+    expect(merged).toMatchSnapshot()
+  })
+  it('should sort results depending on focus point', () => {
+    const mergedFocusedOnBusStop = mergeResponses(
+      {
+        customResponse: CUSTOM_RESPONSE,
+        primaryResponse: GEOCODE_EARTH_RESPONSE
+      },
+      true,
+      { lat: 47.880281, lon: -122.238459 }
+    )
+    const mergedFocusedOnSteinerStreet = mergeResponses(
+      {
+        customResponse: CUSTOM_RESPONSE,
+        primaryResponse: GEOCODE_EARTH_RESPONSE
+      },
+      true,
+      { lat: 37.793899, lon: -122.43634 }
+    )
+    expect(mergedFocusedOnBusStop).not.toEqual(mergedFocusedOnSteinerStreet)
+    expect(mergedFocusedOnBusStop).toMatchSnapshot()
+    expect(mergedFocusedOnSteinerStreet).toMatchSnapshot()
+  })
+})
@@ -0,0 +1,118 @@
+import {
+  EmfMetrics,
+  makeMetrics,
+  NoMetrics,
+  PrometheusMetrics,
+  recordRequestMetrics
+} from '../metrics'
+import { RequestLog } from '../request-log'
+
+const LOG: RequestLog = {
+  durationMs: 120,
+  duplicates: { name: 2 },
+  endpoint: 'search',
+  featureCount: 3,
+  featureCountBeforeDedupe: 5,
+  queryHash: '0123456789abcdef',
+  sources: [
+    {
+      backupUsed: true,
+      durationMs: 100,
+      errorCount: 1,
+      fallbackReason: 'failed',
+      featureCount: 3,
+      name: 'transit'
+    },
+    {
+      backupUsed: false,
+      durationMs: 40,
+      errorCount: 0,
+      featureCount: 2,
+      name: 'pelias'
+    }
+  ],
+  statusCode: 200
+}
+
+describe('metrics', () => {
+  it('should render counters and histograms in the Prometheus format', () => {
+    const metrics = new PrometheusMetrics()
+    expect(metrics.render()).toBe('')
+
+    recordRequestMetrics(metrics, LOG)
+    recordRequestMetrics(metrics, LOG)
+    const lines = metrics.render().split('\n')
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '# TYPE stitcher_requests_total counter',
+        'stitcher_requests_total{endpoint="search",status="200"} 2',
+        'stitcher_duplicates_total{reason="name"} 4',
+        'stitcher_fallbacks_total{reason="failed",source="transit"} 2',
+        'stitcher_source_errors_total{source="transit"} 2',
+        '# TYPE stitcher_request_duration_ms histogram',
+        'stitcher_request_duration_ms_bucket{endpoint="search",le="100"} 0',
+        'stitcher_request_duration_ms_bucket{endpoint="search",le="250"} 2',
+        'stitcher_request_duration_ms_bucket{endpoint="search",le="+Inf"} 2',
+        'stitcher_request_duration_ms_sum{endpoint="search"} 240',
+        'stitcher_request_duration_ms_count{endpoint="search"} 2'
+      ])
+    )
+    // Sources which didn't fall back have no fallback series
+    expect(
+      lines.filter((line) => line.startsWith('stitcher_fallbacks_total'))
+    ).toHaveLength(1)
+  })
+  it('should escape label values', () => {
+    const metrics = new PrometheusMetrics()
+    metrics.increment('stitcher_source_errors_total', { source: 'a "b"\\c' })
+    expect(metrics.render()).toContain(
+      'stitcher_source_errors_total{source="a \\"b\\"\\\\c"} 1'
+    )
+  })
+  it('should log Embedded Metric Format documents when flushed', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    const metrics = new EmfMetrics('Test')
+    metrics.increment('stitcher_requests_total', { endpoint: 'search' })
+    metrics.observe('stitcher_request_duration_ms', 20, { endpoint: 'search' })
+    metrics.observe('stitcher_request_duration_ms', 30, { endpoint: 'search' })
+    metrics.increment('stitcher_duplicates_total', { reason: 'stop' }, 3)
+    expect(log).not.toHaveBeenCalled()
+
+    metrics.flush()
+    expect(log.mock.calls.map(([line]) => JSON.parse(line))).toEqual([
+      {
+        _aws: {
+          CloudWatchMetrics: [
+            {
+              Dimensions: [['endpoint']],
+              Metrics: [
+                { Name: 'stitcher_requests_total', Unit: 'Count' },
+                { Name: 'stitcher_request_duration_ms', Unit: 'Milliseconds' }
+              ],
+              Namespace: 'Test'
+            }
+          ],
+          Timestamp: expect.any(Number)
+        },
+        endpoint: 'search',
+        stitcher_request_duration_ms: [20, 30],
+        stitcher_requests_total: 1
+      },
+      expect.objectContaining({ reason: 'stop', stitcher_duplicates_total: 3 })
+    ])
+
+    // Values are only emitted once
+    metrics.flush()
+    expect(log).toHaveBeenCalledTimes(2)
+    log.mockRestore()
+  })
+  it('should create the configured format', () => {
+    const namespace = 'Test'
+    expect(makeMetrics({ format: 'emf', namespace })).toBeInstanceOf(EmfMetrics)
+    expect(makeMetrics({ format: 'none', namespace })).toBeInstanceOf(NoMetrics)
+    expect(makeMetrics({ format: 'prometheus', namespace })).toBeInstanceOf(
+      PrometheusMetrics
+    )
+    expect(makeMetrics({ format: 'none', namespace }).render()).toBe(null)
+  })
+})
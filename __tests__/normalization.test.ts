@@ -0,0 +1,94 @@
+import {
+  DEFAULT_NORMALIZATION_CONFIG,
+  makeNormalizer,
+  registerNormalizationStep
+} from '../normalization'
+
+describe('query normalization', () => {
+  const { normalize, variant } = makeNormalizer({
+    ...DEFAULT_NORMALIZATION_CONFIG,
+    steps: DEFAULT_NORMALIZATION_CONFIG.steps.map((step) =>
+      step.type === 'stopCode' ? { ...step, source: 'transit' } : step
+    )
+  })
+
+  it('should clean up unicode and whitespace', () => {
+    expect(normalize('  Ｐｉｋｅ​  Place’s\tMarket ').text).toBe(
+      "Pike Place's Market"
+    )
+    expect(normalize('Main St – North').text).toBe('Main St - North')
+  })
+  it('should recognize intersections', () => {
+    ;[
+      'Main St & 5th Ave',
+      'Main St&5th Ave',
+      'Main St / 5th Ave',
+      'Main St @ 5th Ave',
+      'Main St at 5th Ave'
+    ].forEach((text) => {
+      expect(normalize(text)).toEqual({
+        preferredLayers: ['intersection', 'venue', 'address', 'street'],
+        text: 'Main St and 5th Ave'
+      })
+    })
+    expect(normalize('Main/5th').text).toBe('Main and 5th')
+  })
+  it('should leave names which only look like intersections alone', () => {
+    ;[
+      'Barnes & Noble',
+      'AT&T Store',
+      '1/2 Price Books',
+      'Eat at Joes',
+      // Venues "at" a place or street aren't intersections
+      'Coffee at the Park',
+      'Cafe at 5th Ave',
+      'Pier 39 at Fishermans Wharf'
+    ].forEach((text) => {
+      expect(normalize(text)).toEqual({ text })
+    })
+    expect(normalize('Pike Place at 1st').text).toBe('Pike Place and 1st')
+  })
+  it('should route stop codes to the configured source', () => {
+    ;['#1234', '# 1234', 'stop 1234', 'Stop #1234', 'stop id 1234'].forEach(
+      (text) => {
+        expect(normalize(text)).toEqual({
+          preferredLayers: [
+            'stops',
+            'venue',
+            'address',
+            'street',
+            'intersection'
+          ],
+          preferredSource: 'transit',
+          preferredSourceText: '1234',
+          text
+        })
+      }
+    )
+    expect(normalize('1234 Main St').preferredSource).toBeUndefined()
+    expect(normalize('stop and shop').preferredSource).toBeUndefined()
+  })
+  it('should send each geocoder type its own variant', () => {
+    const text = 'first street @ second street & third street @ fourth & fifth'
+    expect(variant('PELIAS', text)).toBe(
+      'first street   second street   third street   fourth   fifth'
+    )
+    expect(variant(undefined, text)).toBe(variant('PELIAS', text))
+    expect(variant('HERE', text)).toBe(text)
+  })
+  it('should use registered steps', () => {
+    registerNormalizationStep('uppercase', () => (query) => ({
+      ...query,
+      text: query.text.toUpperCase()
+    }))
+    expect(
+      makeNormalizer({
+        steps: [{ type: 'uppercase' }],
+        variants: {}
+      }).normalize('main').text
+    ).toBe('MAIN')
+    expect(() =>
+      makeNormalizer({ steps: [{ type: 'lowercase' }], variants: {} })
+    ).toThrow('Unknown normalization step lowercase')
+  })
+})
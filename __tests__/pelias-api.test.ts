@@ -0,0 +1,163 @@
+import fetch from 'node-fetch'
+
+import {
+  convertQueryToPeliasParams,
+  getStitchGeocoder,
+  isPeliasGid,
+  makeStructuredQueryText
+} from '../pelias-api'
+import { PoiIndex } from '../poi-index'
+
+jest.mock('node-fetch', () => jest.fn())
+const mockFetch = fetch as unknown as jest.Mock
+
+const EMPTY_RESPONSE = { features: [], type: 'FeatureCollection' }
+
+describe('pelias query parameters', () => {
+  it('should convert a geocoder query', () => {
+    expect(
+      convertQueryToPeliasParams({
+        boundary: { country: 'US' },
+        focusPoint: { lat: 47.6, lon: -122.3 },
+        layers: 'venue',
+        size: 4
+      })
+    ).toEqual({
+      'boundary.country': 'US',
+      'focus.point.lat': '47.6',
+      'focus.point.lon': '-122.3',
+      layers: 'venue',
+      size: '4'
+    })
+  })
+  it('should join structured address components in order', () => {
+    expect(
+      makeStructuredQueryText({
+        address: '400 Broad St',
+        country: 'USA',
+        locality: 'Seattle'
+      })
+    ).toBe('400 Broad St, Seattle, USA')
+  })
+})
+
+describe('place gids', () => {
+  it('should only send gids to geocoders which know about their source', () => {
+    expect(isPeliasGid('offline:poi:1', { type: 'PELIAS' })).toBe(false)
+    expect(isPeliasGid('gtfs:stops:1', { type: 'PELIAS' })).toBe(false)
+    expect(isPeliasGid('openstreetmap:venue:1', { type: 'PELIAS' })).toBe(true)
+    expect(
+      isPeliasGid('openstreetmap:venue:1', {
+        sources: 'oa,wof',
+        type: 'PELIAS'
+      })
+    ).toBe(false)
+  })
+})
+
+describe('stitch geocoders', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    mockFetch.mockResolvedValue({ json: () => EMPTY_RESPONSE, ok: true })
+  })
+
+  it('should query structured search natively on pelias', async () => {
+    const geocoder = getStitchGeocoder({
+      apiKey: 'secret',
+      baseUrl: 'https://pelias.example.com/v1',
+      type: 'PELIAS'
+    })
+    expect(
+      await geocoder.structured({
+        size: 2,
+        structured: { locality: 'Seattle' }
+      })
+    ).toEqual(EMPTY_RESPONSE)
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://pelias.example.com/v1/search/structured?size=2&locality=Seattle&api_key=secret'
+    )
+  })
+  it('should look up places on pelias', async () => {
+    const geocoder = getStitchGeocoder({
+      baseUrl: 'https://pelias.example.com/v1',
+      type: 'PELIAS'
+    })
+    await geocoder.place({ ids: ['offline:poi:1', 'openaddresses:address:2'] })
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://pelias.example.com/v1/place?ids=openaddresses%3Aaddress%3A2'
+    )
+  })
+  it('should ask pelias for results in the requested language', async () => {
+    const geocoder = getStitchGeocoder({
+      baseUrl: 'https://pelias.example.com/v1',
+      type: 'PELIAS'
+    })
+    await geocoder.place({ ids: ['openaddresses:address:2'], lang: 'de' })
+    await geocoder.reverse({ lang: 'de', point: { lat: 47.6, lon: -122.3 } })
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://pelias.example.com/v1/place?ids=openaddresses%3Aaddress%3A2&lang=de',
+      'https://pelias.example.com/v1/reverse?lang=de&point.lat=47.6&point.lon=-122.3'
+    ])
+  })
+  it('should keep configured headers when a query passes options', async () => {
+    const geocoder = getStitchGeocoder({
+      baseUrl: 'https://pelias.example.com/v1',
+      options: { headers: { 'X-Custom': 'configured' } },
+      type: 'PELIAS'
+    })
+    // Jest's environment has no AbortController, the signal is only passed on
+    const signal = {} as AbortSignal
+    await geocoder.nearby({
+      options: { signal },
+      point: { lat: 47.6, lon: -122.3 }
+    })
+    await geocoder.place({
+      ids: ['openaddresses:address:2'],
+      options: { signal }
+    })
+    await geocoder.structured({
+      options: { signal },
+      structured: { locality: 'Seattle' }
+    })
+    await geocoder.search({
+      categories: 'food',
+      options: { signal },
+      text: 'x'
+    })
+    await geocoder.reverse({
+      lang: 'de',
+      options: { signal },
+      point: { lat: 47.6, lon: -122.3 }
+    })
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+    mockFetch.mock.calls.forEach(([, options]) =>
+      expect(options).toEqual({ headers: { 'X-Custom': 'configured' }, signal })
+    )
+  })
+  it('should look up offline items by gid', async () => {
+    const geocoder = getStitchGeocoder({ type: 'OFFLINE' })
+    const response = await geocoder.place({
+      ids: ['offline:poi:b', 'offline:poi:a'],
+      poiIndex: new PoiIndex([
+        { gid: 'offline:poi:a', label: 'A', lat: 1, lon: 2 },
+        { gid: 'offline:poi:b', label: 'B', lat: 3, lon: 4 }
+      ])
+    })
+    expect(response.features.map((f) => f.properties?.name)).toEqual(['B', 'A'])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+  it('should reject failed pelias requests', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: 'Internal Server Error'
+    })
+    const geocoder = getStitchGeocoder({
+      baseUrl: 'https://pelias.example.com/v1',
+      type: 'PELIAS'
+    })
+    await expect(
+      geocoder.nearby({ point: { lat: 47.6, lon: -122.3 } })
+    ).rejects.toThrow('500 Internal Server Error')
+  })
+})
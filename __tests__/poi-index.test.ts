@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import fetch from 'node-fetch'
+
+import {
+  loadPoiIndex,
+  makePoiIndexLoader,
+  parsePois,
+  PoiError,
+  PoiIndex,
+  validatePois
+} from '../poi-index'
+
+jest.mock('node-fetch', () => jest.fn())
+const mockFetch = fetch as unknown as jest.Mock
+
+const POIS = [
+  {
+    aliases: ['Pike Place'],
+    label: 'Pike Place Market',
+    lat: 47.6097,
+    lon: -122.3422
+  },
+  { label: 'Space Needle', lat: 47.6205, lon: -122.3493 },
+  { label: 'Seattle Central Library', lat: 47.6067, lon: -122.3325 },
+  { aliases: ['Sea-Tac'], label: 'SEA Airport', lat: 47.4502, lon: -122.3088 }
+]
+
+const labels = (pois: { label: string }[]) => pois.map(({ label }) => label)
+
+describe('POI parsing', () => {
+  it('should parse CSV', () => {
+    expect(
+      parsePois(
+        'name,lat,lon,aliases\r\n"Pike Place Market, ""The Market""",47.6,-122.3,Pike Place|Market\n\n'
+      )
+    ).toEqual([
+      {
+        aliases: ['Pike Place', 'Market'],
+        lat: '47.6',
+        lon: '-122.3',
+        name: 'Pike Place Market, "The Market"'
+      }
+    ])
+  })
+  it('should parse GeoJSON', () => {
+    expect(
+      parsePois(
+        JSON.stringify({
+          features: [
+            {
+              geometry: { coordinates: [-122.3, 47.6], type: 'Point' },
+              properties: { name: 'Space Needle' },
+              type: 'Feature'
+            }
+          ],
+          type: 'FeatureCollection'
+        })
+      )
+    ).toEqual([{ lat: 47.6, lon: -122.3, name: 'Space Needle' }])
+  })
+  it('should treat an empty object as no POIs', () => {
+    expect(parsePois('{}')).toEqual([])
+    expect(() => parsePois('{"a": 1}')).toThrow(PoiError)
+    expect(() => parsePois('[', 'json')).toThrow('POIs are not valid JSON')
+  })
+})
+
+describe('POI validation', () => {
+  it('should convert coordinates and fill in gids', () => {
+    expect(
+      validatePois([
+        { id: 7, label: 'A', lat: '1.5', lon: '2' },
+        { lat: 3, lon: 4, name: 'B', synonyms: ['Bee'] }
+      ])
+    ).toEqual([
+      { gid: 'offline:poi:7', id: 7, label: 'A', lat: 1.5, lon: 2 },
+      {
+        aliases: ['Bee'],
+        gid: 'offline:poi:1',
+        label: 'B',
+        lat: 3,
+        lon: 4,
+        name: 'B'
+      }
+    ])
+  })
+  it('should list every problem', () => {
+    expect(() =>
+      validatePois([
+        { aliases: 'A', label: '', lat: 'north', lon: 200 },
+        { gid: 'offline:poi:x', label: 'B', lat: 0, lon: 0 },
+        { gid: 'offline:poi:x', label: 'C', lat: 0, lon: 0 }
+      ])
+    ).toThrow(
+      [
+        'Error: invalid POIs:',
+        '- pois[0].label is required',
+        '- pois[0].lat must be a number between -90 and 90',
+        '- pois[0].lon must be a number between -180 and 180',
+        '- pois[0].aliases must be an array of strings',
+        '- gid offline:poi:x is not unique'
+      ].join('\n')
+    )
+  })
+})
+
+describe('POI index', () => {
+  const index = new PoiIndex(validatePois(POIS))
+
+  it('should find POIs by word prefixes and aliases', () => {
+    expect(labels(index.searchText('pike mark'))).toEqual(['Pike Place Market'])
+    expect(labels(index.searchText('sea'))).toEqual([
+      'SEA Airport',
+      'Seattle Central Library'
+    ])
+    expect(labels(index.searchText('seatac'))).toEqual([])
+    expect(labels(index.searchText('sea tac'))).toEqual(['SEA Airport'])
+    expect(labels(index.searchText('sea', 10, false))).toEqual(['SEA Airport'])
+    expect(index.searchText('  ')).toEqual([])
+  })
+  it('should find the closest POIs', () => {
+    expect(
+      index
+        .nearest(47.6101, -122.3421)
+        .map(({ distance, poi }) => [poi.label, Math.round(distance / 100)])
+    ).toEqual([
+      ['Pike Place Market', 0],
+      ['Seattle Central Library', 8]
+    ])
+    expect(
+      labels(index.nearest(47.6101, -122.3421, 50, 1).map(({ poi }) => poi))
+    ).toEqual(['Pike Place Market'])
+    expect(index.nearest(0, 0)).toEqual([])
+  })
+  it('should look up POIs by gid', () => {
+    expect(index.size).toBe(4)
+    expect(index.get('offline:poi:1')?.label).toBe('Space Needle')
+    expect(index.get('offline:poi:9')).toBeUndefined()
+  })
+})
+
+describe('POI loading', () => {
+  it('should load POIs from a file', async () => {
+    const path = join(tmpdir(), `pois-${Date.now()}.csv`)
+    await fs.writeFile(path, 'label,lat,lon\nSpace Needle,47.6205,-122.3493\n')
+    const index = await loadPoiIndex(path)
+    expect(labels(index.pois)).toEqual(['Space Needle'])
+    await fs.unlink(path)
+    await expect(loadPoiIndex(path)).rejects.toThrow(PoiError)
+  })
+  it('should load POIs from a URL and reload them', async () => {
+    const respond = (pois: unknown[]) =>
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify(pois)
+      })
+    respond(POIS.slice(0, 1))
+    const now = Date.now()
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now)
+    const getPoiIndex = makePoiIndexLoader(
+      {
+        location: 'https://example.com/pois.geojson?version=1',
+        reloadSeconds: 60
+      },
+      () => new PoiIndex([])
+    )
+    expect((await getPoiIndex()).size).toBe(1)
+
+    respond(POIS)
+    spy.mockReturnValue(now + 61000)
+    // The current index is used while the new one loads
+    expect((await getPoiIndex()).size).toBe(1)
+    await new Promise((resolve) => setImmediate(resolve))
+    expect((await getPoiIndex()).size).toBe(4)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    spy.mockRestore()
+  })
+  it('should use the fallback without a location', async () => {
+    const getPoiIndex = makePoiIndexLoader(
+      { location: null, reloadSeconds: null },
+      () => new PoiIndex(validatePois(POIS))
+    )
+    expect((await getPoiIndex()).size).toBe(4)
+  })
+})
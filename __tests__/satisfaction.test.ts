@@ -0,0 +1,270 @@
+import { Feature, FeatureCollection } from 'geojson'
+
+import {
+  combineResponses,
+  DEFAULT_SATISFACTION_CONFIG,
+  makeSatisfactionCheck,
+  registerSatisfactionRule
+} from '../satisfaction'
+import { normalizeText, tokenize } from '../text'
+
+const makeFeature = (properties: Record<string, unknown>): Feature => ({
+  geometry: { coordinates: [-122.3, 47.6], type: 'Point' },
+  properties,
+  type: 'Feature'
+})
+const makeResponse = (...features: Feature[]): FeatureCollection => ({
+  features,
+  type: 'FeatureCollection'
+})
+
+const isSatisfactory = makeSatisfactionCheck(
+  DEFAULT_SATISFACTION_CONFIG.rules.search
+)
+/** How the handler checked search results before rules were configurable */
+const checkIfResultsAreSatisfactory = (
+  response: FeatureCollection,
+  text: string
+) => isSatisfactory(response, { endpoint: 'search', text })
+
+describe('satisfaction rules', () => {
+  it('should normalize text', () => {
+    expect(normalizeText('Café  Müller-St.')).toBe('cafe muller st')
+  })
+  it('should only expand abbreviations in street position', () => {
+    expect(tokenize('N. Main St.')).toEqual(['north', 'main', 'street'])
+    expect(tokenize('400 Broad St, Seattle')).toEqual([
+      '400',
+      'broad',
+      'street',
+      'seattle'
+    ])
+    expect(tokenize('5th Ave NE & Pine St')).toEqual([
+      '5th',
+      'avenue',
+      'northeast',
+      'pine',
+      'street'
+    ])
+    // Saints and initials aren't streets
+    expect(tokenize("St. Mary's Hospital")).toEqual([
+      'st',
+      'mary',
+      's',
+      'hospital'
+    ])
+    expect(tokenize('E Smith')).toEqual(['e', 'smith'])
+    expect(tokenize('St Marks Pl')).toEqual(['st', 'marks', 'place'])
+  })
+  it('should reject empty responses and responses without preferred layers', () => {
+    expect(
+      isSatisfactory(makeResponse(), { endpoint: 'search', text: 'a' })
+    ).toBe(false)
+    expect(
+      isSatisfactory(
+        makeResponse(makeFeature({ layer: 'country', name: 'a' })),
+        {
+          endpoint: 'search',
+          text: 'a'
+        }
+      )
+    ).toBe(false)
+  })
+  it('should match names regardless of abbreviations and diacritics', () => {
+    const response = makeResponse(
+      makeFeature({ layer: 'address', name: '400 Broad Street' }),
+      makeFeature({ layer: 'venue', name: 'Café Flora' })
+    )
+    expect(
+      isSatisfactory(response, { endpoint: 'search', text: '400 broad st' })
+    ).toBe(true)
+    expect(
+      isSatisfactory(response, { endpoint: 'search', text: 'cafe flo' })
+    ).toBe(true)
+    expect(
+      isSatisfactory(response, { endpoint: 'search', text: '401 broad st' })
+    ).toBe(false)
+  })
+  it('should match non-latin text', () => {
+    expect(
+      isSatisfactory(
+        makeResponse(makeFeature({ layer: 'venue', name: '東京駅' })),
+        {
+          endpoint: 'search',
+          text: '東京'
+        }
+      )
+    ).toBe(true)
+  })
+  it('should support configured and custom rules', () => {
+    registerSatisfactionRule(
+      'hasAddendum',
+      () =>
+        ({ features }) =>
+          features.some((feature) => !!feature.properties?.addendum)
+    )
+    const check = makeSatisfactionCheck([
+      { count: 2, type: 'minCount' },
+      { confidence: 0.8, type: 'minConfidence' },
+      { type: 'hasAddendum' }
+    ])
+    const good = makeFeature({ addendum: {}, confidence: 0.9 })
+    expect(
+      check(makeResponse(good, makeFeature({})), { endpoint: 'reverse' })
+    ).toBe(true)
+    expect(check(makeResponse(good), { endpoint: 'reverse' })).toBe(false)
+    expect(() => makeSatisfactionCheck([{ type: 'nope' }])).toThrow(
+      'Unknown satisfaction rule nope'
+    )
+  })
+  it('should merge fallback results without duplicates', () => {
+    const merged = combineResponses(
+      makeResponse(makeFeature({ gid: 'a', name: 'Pike Place' })),
+      makeResponse(
+        makeFeature({ gid: 'b', name: 'pike place' }),
+        makeFeature({ gid: 'c', name: 'Pike Place Market' })
+      )
+    )
+    expect(merged.features.map((f) => f.properties?.gid)).toEqual(['a', 'c'])
+  })
+})
+
+describe('response rejection', () => {
+  it('should reject an empty response', () => {
+    const response = checkIfResultsAreSatisfactory(
+      { features: [], type: 'FeatureCollection' },
+      ''
+    )
+    expect(response).toBe(false)
+  })
+  it('should reject a response with all incorrect layers', () => {
+    const response = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'country', name: 'search' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'disputed', name: 'search' } }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search'
+    )
+
+    expect(response).toBe(false)
+  })
+
+  it('should accept a response with one correct layer and many incorrect layers', () => {
+    const response = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'country', name: 'search' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'venue', name: 'search' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'disputed', name: 'search' } }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search'
+    )
+
+    expect(response).toBe(true)
+  })
+  it('should accept a response with all correct layers and correct name', () => {
+    const response = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'address', name: 'search' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'venue', name: 'search' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'street', name: 'search' } }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search'
+    )
+
+    expect(response).toBe(true)
+  })
+  it('should reject a response with correct layers, but no name', () => {
+    const response = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'address' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'venue' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'street' } }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search'
+    )
+
+    expect(response).toBe(false)
+  })
+  it('should reject a response with correct layers, but incorrect name', () => {
+    const response = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'address', name: 'something different' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'venue', name: 'not the s word' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'street', name: 'bearch' } }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search'
+    )
+
+    expect(response).toBe(false)
+
+    // These failure cases are contreversial, but are in line with the philosophy to
+    // proactively fail rather than pass
+    const evenCloserResponse = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'address', name: 'searchQuery' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'venue', name: 'searc uery' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'street', name: 'searc' } }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search query'
+    )
+    expect(evenCloserResponse).toBe(false)
+  })
+  it('should reject a response with incorrect layers, but correct name', () => {
+    const response = checkIfResultsAreSatisfactory(
+      {
+        features: [
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'region', name: 'something different' } },
+          // @ts-expect-error demonstration object missing some data
+          { properties: { layer: 'dependency', name: 'not the s word' } },
+          // @ts-expect-error demonstration object missing some data
+          {
+            properties: {
+              layer: 'localadmin',
+              name: 'look what we found it is the search'
+            }
+          }
+        ],
+        type: 'FeatureCollection'
+      },
+      'search'
+    )
+
+    expect(response).toBe(false)
+  })
+})
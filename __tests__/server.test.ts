@@ -0,0 +1,277 @@
+import {
+  get,
+  IncomingHttpHeaders,
+  OutgoingHttpHeaders,
+  request as httpRequest
+} from 'http'
+import { AddressInfo } from 'net'
+
+import { makeServer, StitchServer } from '../server'
+import { StitchResponse } from '../stitcher'
+
+const EMPTY_RESPONSE: StitchResponse = {
+  body: { features: [], type: 'FeatureCollection' },
+  statusCode: 200
+}
+
+const request = (
+  { server }: StitchServer,
+  path: string,
+  headers: OutgoingHttpHeaders = {}
+): Promise<{
+  body: Record<string, unknown>
+  headers?: IncomingHttpHeaders
+  statusCode?: number
+}> =>
+  new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo
+    get({ agent: false, headers, path, port }, (response) => {
+      let body = ''
+      response.on('data', (chunk) => {
+        body += chunk
+      })
+      response.on('end', () =>
+        resolve({
+          // Metrics are plain text
+          body: response.headers['content-type']?.startsWith('text/plain')
+            ? { text: body }
+            : JSON.parse(body),
+          statusCode: response.statusCode,
+          // Only compared by tests which pass headers
+          ...(Object.keys(headers).length ? { headers: response.headers } : {})
+        })
+      )
+    }).on('error', reject)
+  })
+
+/**
+ * POSTs a body, resolving with the raw response body
+ */
+const post = (
+  { server }: StitchServer,
+  path: string,
+  body: string,
+  headers: OutgoingHttpHeaders = {}
+): Promise<{ body: string; contentType?: string; statusCode?: number }> =>
+  new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo
+    const req = httpRequest(
+      { agent: false, headers, method: 'POST', path, port },
+      (response) => {
+        let text = ''
+        response.on('data', (chunk) => {
+          text += chunk
+        })
+        response.on('end', () =>
+          resolve({
+            body: text,
+            contentType: response.headers['content-type'],
+            statusCode: response.statusCode
+          })
+        )
+      }
+    )
+    req.on('error', reject)
+    req.end(body)
+  })
+
+describe('standalone server', () => {
+  const stitcher = {
+    batch: jest.fn(),
+    isAdmin: jest.fn(),
+    metrics: jest.fn(),
+    request: jest.fn(),
+    status: jest.fn()
+  }
+  let stitchServer: StitchServer
+
+  beforeEach(async () => {
+    stitcher.batch.mockReset()
+    stitcher.isAdmin.mockReset().mockImplementation((key) => key === 'admin')
+    stitcher.metrics.mockReset().mockReturnValue(null)
+    stitcher.request.mockReset().mockResolvedValue(EMPTY_RESPONSE)
+    stitcher.status.mockReset().mockResolvedValue({ circuitBreakers: {} })
+    stitchServer = makeServer(stitcher, 1000)
+    await new Promise<void>((resolve) =>
+      stitchServer.server.listen(0, () => resolve())
+    )
+  })
+  afterEach(async () => {
+    if (stitchServer.server.listening) await stitchServer.shutdown()
+  })
+
+  it('should route Pelias endpoints to the stitcher', async () => {
+    expect(
+      await request(stitchServer, '/v1/search/structured/?locality=Seattle')
+    ).toEqual({ body: EMPTY_RESPONSE.body, statusCode: 200 })
+    expect(stitcher.request).toHaveBeenCalledWith(
+      'structured',
+      { locality: 'Seattle' },
+      undefined
+    )
+
+    stitcher.request.mockResolvedValue({ ...EMPTY_RESPONSE, statusCode: 400 })
+    expect((await request(stitchServer, '/v1/reverse')).statusCode).toBe(400)
+  })
+  it('should pass API keys to the stitcher and send its headers', async () => {
+    stitcher.request.mockResolvedValue({
+      ...EMPTY_RESPONSE,
+      headers: { 'Retry-After': '30' },
+      statusCode: 429
+    })
+    const response = await request(stitchServer, '/v1/search?text=x', {
+      'X-Api-Key': 'abc'
+    })
+    expect(response.statusCode).toBe(429)
+    expect(response.headers?.['retry-after']).toBe('30')
+    expect(stitcher.request).toHaveBeenCalledWith(
+      'search',
+      { text: 'x' },
+      'abc'
+    )
+  })
+  it('should answer unknown routes and failures in the Pelias format', async () => {
+    const notFound = await request(stitchServer, '/v1/geocode?text=x')
+    expect(notFound.statusCode).toBe(404)
+    expect(notFound.body.geocoding).toMatchObject({
+      errors: ['no route for /v1/geocode'],
+      query: { text: 'x' }
+    })
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    stitcher.request.mockRejectedValue(new Error('boom'))
+    expect((await request(stitchServer, '/v1/search?text=x')).statusCode).toBe(
+      500
+    )
+  })
+  it('should report health and status', async () => {
+    expect(await request(stitchServer, '/health')).toEqual({
+      body: { status: 'ok' },
+      statusCode: 200
+    })
+    expect((await request(stitchServer, '/status')).body).toEqual({
+      circuitBreakers: {}
+    })
+    expect(stitcher.status).toHaveBeenCalledWith({ admin: false, probe: false })
+    // Probes query every geocoder, so only admins may send them
+    expect(await request(stitchServer, '/status?probe=true')).toEqual({
+      body: { errors: ['probing requires the admin api key'] },
+      statusCode: 403
+    })
+    expect(
+      (
+        await request(stitchServer, '/status?probe=true', {
+          'x-api-key': 'admin'
+        })
+      ).statusCode
+    ).toBe(200)
+    expect(stitcher.status).toHaveBeenLastCalledWith({
+      admin: true,
+      probe: true
+    })
+  })
+  it('should serve Prometheus metrics if configured to', async () => {
+    expect((await request(stitchServer, '/metrics')).statusCode).toBe(404)
+
+    stitcher.metrics.mockReturnValue('stitcher_requests_total 1\n')
+    expect(await request(stitchServer, '/metrics')).toEqual({
+      body: { errors: ['metrics require the admin api key'] },
+      statusCode: 401
+    })
+    expect(await request(stitchServer, '/metrics?api_key=admin')).toEqual({
+      body: { text: 'stitcher_requests_total 1\n' },
+      statusCode: 200
+    })
+  })
+  it('should answer batches with JSON or stream them as NDJSON', async () => {
+    const results = [
+      { errors: ['x'], index: 1, statusCode: 400 },
+      { index: 0, response: EMPTY_RESPONSE.body, statusCode: 200 }
+    ]
+    stitcher.batch.mockResolvedValue({ body: { results }, statusCode: 200 })
+    const json = await post(stitchServer, '/v1/batch', '[]', {
+      'X-Api-Key': 'abc'
+    })
+    expect(json.statusCode).toBe(200)
+    expect(JSON.parse(json.body)).toEqual({ results })
+    expect(stitcher.batch).toHaveBeenCalledWith('[]', {
+      apiKey: 'abc',
+      ndjson: false
+    })
+
+    // Like other requests, the api key may also be sent in the query string
+    await post(stitchServer, '/v1/batch?api_key=def', '[]')
+    expect(stitcher.batch).toHaveBeenLastCalledWith('[]', {
+      apiKey: 'def',
+      ndjson: false
+    })
+
+    stitcher.batch.mockImplementation(async (body, { onResult }) => {
+      results.forEach((result) => onResult(result))
+      return { body: {}, statusCode: 200 }
+    })
+    const ndjson = await post(stitchServer, '/v1/batch', '{}\n{}', {
+      Accept: 'application/x-ndjson',
+      'Content-Type': 'application/x-ndjson'
+    })
+    expect(ndjson.contentType).toBe('application/x-ndjson')
+    expect(
+      ndjson.body
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+    ).toEqual(results)
+    expect(stitcher.batch.mock.calls[2][1].ndjson).toBe(true)
+
+    // Rejected batches are answered with JSON, even if NDJSON is accepted
+    stitcher.batch.mockResolvedValue({
+      body: { errors: ['batch must contain at least one item'] },
+      statusCode: 400
+    })
+    const rejected = await post(stitchServer, '/v1/batch', '', {
+      Accept: 'application/x-ndjson'
+    })
+    expect(rejected.statusCode).toBe(400)
+    expect(rejected.contentType).toBe('application/json')
+
+    expect((await request(stitchServer, '/v1/batch')).statusCode).toBe(405)
+  })
+  it('should reject batch bodies above the byte limit', async () => {
+    await stitchServer.shutdown()
+    stitchServer = makeServer(stitcher, 1000, 16)
+    await new Promise<void>((resolve) =>
+      stitchServer.server.listen(0, () => resolve())
+    )
+    stitcher.batch.mockResolvedValue({ body: { results: [] }, statusCode: 200 })
+    const body = JSON.stringify([{ endpoint: 'search', query: { text: 'x' } }])
+    // Whether or not the client announces the size of the body
+    for (const headers of [{}, { 'Transfer-Encoding': 'chunked' }]) {
+      const rejected = await post(stitchServer, '/v1/batch', body, headers)
+      expect(rejected.statusCode).toBe(413)
+      expect(JSON.parse(rejected.body)).toEqual({
+        errors: ['batch may be at most 16 bytes']
+      })
+    }
+    expect(stitcher.batch).not.toHaveBeenCalled()
+    expect((await post(stitchServer, '/v1/batch', '[]')).statusCode).toBe(200)
+  })
+  it('should finish in-flight requests when shutting down', async () => {
+    let respond: (response: StitchResponse) => void = () => undefined
+    stitcher.request.mockReturnValue(
+      new Promise((resolve) => {
+        respond = resolve
+      })
+    )
+    const inFlight = request(stitchServer, '/v1/autocomplete?text=x')
+    // Wait for the request to reach the stitcher
+    while (!stitcher.request.mock.calls.length) {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+
+    const shutdown = stitchServer.shutdown()
+    respond(EMPTY_RESPONSE)
+    expect((await inFlight).statusCode).toBe(200)
+    await shutdown
+    expect(stitchServer.server.listening).toBe(false)
+  })
+})
@@ -0,0 +1,61 @@
+import { hedge, TimeoutError, withTimeout } from '../timing'
+
+const resolveAfter = <T>(ms: number, value: T): Promise<T> =>
+  new Promise((resolve) => setTimeout(() => resolve(value), ms))
+
+describe('timeouts', () => {
+  it('should resolve if the function is fast enough', async () => {
+    expect(await withTimeout(() => resolveAfter(1, 'fast'), 100)).toBe('fast')
+  })
+  it('should reject if the function is too slow', async () => {
+    await expect(
+      withTimeout(() => resolveAfter(200, 'slow'), 10)
+    ).rejects.toBeInstanceOf(TimeoutError)
+  })
+})
+
+describe('hedged requests', () => {
+  const isAcceptable = (result: string) => result !== 'bad'
+
+  it('should not start the backup if the primary is fast', async () => {
+    const backup = jest.fn(() => resolveAfter(1, 'backup'))
+    const result = await hedge(
+      () => resolveAfter(1, 'primary'),
+      backup,
+      50,
+      isAcceptable
+    )
+    expect(result).toEqual({ result: 'primary', usedBackup: false })
+    expect(backup).not.toHaveBeenCalled()
+  })
+  it('should use the backup if it beats a slow primary', async () => {
+    const result = await hedge(
+      () => resolveAfter(200, 'primary'),
+      () => resolveAfter(1, 'backup'),
+      10,
+      isAcceptable
+    )
+    expect(result).toEqual({ result: 'backup', usedBackup: true })
+  })
+  it('should wait for the primary if the backup is not acceptable', async () => {
+    const result = await hedge(
+      () => resolveAfter(50, 'primary'),
+      () => resolveAfter(1, 'bad'),
+      10,
+      isAcceptable
+    )
+    expect(result).toEqual({ result: 'primary', usedBackup: false })
+  })
+  it('should use the backup if the primary fails after hedging', async () => {
+    const result = await hedge(
+      () =>
+        new Promise<string>((resolve, reject) =>
+          setTimeout(() => reject(new Error('failed')), 30)
+        ),
+      () => resolveAfter(40, 'bad'),
+      10,
+      isAcceptable
+    )
+    expect(result).toEqual({ result: 'bad', usedBackup: true })
+  })
+})
@@ -0,0 +1,40 @@
+import {
+  getStatsSummaries,
+  getUpstreamStats,
+  recordSourceRequest,
+  UpstreamStats
+} from '../upstream-stats'
+
+describe('upstream stats', () => {
+  it('should summarize the most recent requests only', () => {
+    const stats = new UpstreamStats(4)
+    expect(stats.getSummary()).toMatchObject({
+      errorRate: 0,
+      latencyMs: null,
+      recentRequests: 0
+    })
+
+    stats.record(1000, 'timed out after 1000ms')
+    ;[10, 20, 30, 40].forEach((duration) => stats.record(duration))
+    expect(stats.getSummary()).toEqual({
+      errorRate: 0,
+      lastError: 'timed out after 1000ms',
+      lastErrorAt: expect.any(Number),
+      latencyMs: { max: 40, mean: 25, p50: 20, p95: 40 },
+      recentRequests: 4,
+      totalRequests: 5
+    })
+    stats.record(50, '500 Internal Server Error')
+    expect(stats.getSummary().errorRate).toBe(0.25)
+  })
+  it('should keep stats per upstream and source', () => {
+    getUpstreamStats('transit').record(100)
+    expect(getUpstreamStats('transit')).toBe(getUpstreamStats('transit'))
+    recordSourceRequest('transit', false)
+    recordSourceRequest('transit', true)
+
+    const { sources, upstreams } = getStatsSummaries()
+    expect(sources.transit).toEqual({ backupUsed: 1, totalRequests: 2 })
+    expect(upstreams.transit.totalRequests).toBe(1)
+  })
+})
@@ -2,23 +2,17 @@ import { FeatureCollection } from 'geojson'
 
 import {
   arePointsRoughlyEqual,
-  checkIfResultsAreSatisfactory,
-  makeQueryPeliasCompatible,
-  mergeResponses
+  computeBbox,
+  convertQSPToGeocoderArgs,
+  convertReverseResponseToFeatureCollection,
+  makeGeocodingMetadata,
+  makeNormalizedQuery
 } from '../utils'
 
 // This is not a real mock, so can be imported using require()
 // eslint-disable-next-line jest/no-mocks-import
 const CUSTOM_RESPONSE =
   require('./json-mocks/custom-response.json') as FeatureCollection
-const GEOCODE_EARTH_RESPONSE =
-  require('./json-mocks/geocode-earth-response.json') as FeatureCollection
-const GEOCODE_EARTH_RESPONSE_BUS =
-  require('./json-mocks/geocode-earth-response-bus.json') as FeatureCollection
-const GEOCODE_EARTH_RESPONSE_BUS_SAME_NAME =
-  require('./json-mocks/geocode-earth-response-bus-same-name.json') as FeatureCollection
-const HERE_RESPONSE_BUS =
-  require('./json-mocks/here-response-bus.json') as FeatureCollection
 
 describe('arePointsEqual', () => {
   it('should handle null inputs', () => {
@@ -50,221 +44,145 @@ describe('arePointsEqual', () => {
   })
 })
 
-describe('pelias string cleaning', () => {
-  it('should strip pelias-unfriendly characters from a string correctly', () => {
-    const badString =
-      'first street @ second street & third street @ fourth & fifth'
-    expect(makeQueryPeliasCompatible(badString)).toMatchSnapshot()
+describe('reverse response conversion', () => {
+  it('should pass through feature collections', () => {
+    expect(convertReverseResponseToFeatureCollection(CUSTOM_RESPONSE)).toBe(
+      CUSTOM_RESPONSE
+    )
   })
-})
-
-describe('response merging', () => {
-  it('should merge 2 real responses correctly', () => {
-    const merged = mergeResponses({
-      customResponse: CUSTOM_RESPONSE,
-      primaryResponse: GEOCODE_EARTH_RESPONSE
+  it('should wrap single location responses', () => {
+    const [rawGeocodedFeature] = CUSTOM_RESPONSE.features
+    const converted = convertReverseResponseToFeatureCollection({
+      lat: 47.880281,
+      lon: -122.238459,
+      name: 'Mariner Park & Ride',
+      rawGeocodedFeature
     })
-    expect(merged).toBeDefined()
-    expect(merged).toMatchSnapshot()
-
-    // This is done to test that merging is done idempotently
-    // This is a common issue when dealing with Javascript objects
-    // We don't want to affect the original responses
-    const mergedAgain = mergeResponses({
-      customResponse: CUSTOM_RESPONSE,
-      primaryResponse: GEOCODE_EARTH_RESPONSE
+    expect(converted).toEqual({
+      features: [rawGeocodedFeature],
+      type: 'FeatureCollection'
     })
-    expect(mergedAgain).toBeDefined()
-    expect(mergedAgain).toMatchSnapshot()
   })
-
-  it('should not filter out 2 identical responses if geocodeEarth response is not a bus stop', () => {
-    const merged = mergeResponses({
-      customResponse: GEOCODE_EARTH_RESPONSE_BUS,
-      primaryResponse: GEOCODE_EARTH_RESPONSE
-    })
-    expect(merged).toMatchSnapshot()
+  it('should handle empty responses', () => {
+    expect(convertReverseResponseToFeatureCollection(null).features).toEqual([])
   })
-  it('should filter out 2 identical responses if geocodeEarth response is a bus stop', () => {
-    const merged = mergeResponses({
-      customResponse: GEOCODE_EARTH_RESPONSE,
-      primaryResponse: GEOCODE_EARTH_RESPONSE_BUS
+})
+
+describe('geocoding metadata', () => {
+  it('should normalize the query', () => {
+    expect(
+      makeNormalizedQuery(
+        convertQSPToGeocoderArgs({
+          'focus.point.lat': '47.88',
+          'focus.point.lon': '-122.23',
+          layers: 'venue,stops',
+          size: '10',
+          text: 'mariner'
+        })
+      )
+    ).toEqual({
+      'focus.point.lat': 47.88,
+      'focus.point.lon': -122.23,
+      layers: ['venue', 'stops'],
+      size: 10,
+      text: 'mariner'
     })
-    expect(merged).toMatchSnapshot()
   })
-  it('should filter out 2 identical responses if geocodeEarth response has the same name', () => {
-    const merged = mergeResponses({
-      customResponse: GEOCODE_EARTH_RESPONSE,
-      primaryResponse: GEOCODE_EARTH_RESPONSE_BUS_SAME_NAME
+  it('should parse every supported pelias parameter', () => {
+    expect(
+      makeNormalizedQuery(
+        convertQSPToGeocoderArgs({
+          'boundary.circle.lat': '47.6',
+          'boundary.circle.lon': '-122.3',
+          'boundary.country': 'USA',
+          'boundary.gid': 'whosonfirst:locality:101730401',
+          categories: 'food,retail',
+          lang: 'es',
+          size: '100',
+          sources: 'osm,oa',
+          text: 'cafe'
+        })
+      )
+    ).toEqual({
+      'boundary.circle.lat': 47.6,
+      'boundary.circle.lon': -122.3,
+      'boundary.circle.radius': 50,
+      'boundary.country': 'USA',
+      'boundary.gid': 'whosonfirst:locality:101730401',
+      categories: ['food', 'retail'],
+      lang: 'es',
+      layers: ['venue', 'address', 'street', 'intersection'],
+      size: 40,
+      sources: ['osm', 'oa'],
+      text: 'cafe'
     })
-    expect(merged).toMatchSnapshot()
   })
-  it('should filter out 2 identical responses if HERE response is a bus stop', () => {
-    const merged = mergeResponses({
-      customResponse: GEOCODE_EARTH_RESPONSE,
-      primaryResponse: HERE_RESPONSE_BUS
+  it('should keep boundary rects with a coordinate of 0', () => {
+    expect(
+      makeNormalizedQuery(
+        convertQSPToGeocoderArgs({
+          'boundary.rect.max_lat': '51.7',
+          'boundary.rect.max_lon': '0',
+          'boundary.rect.min_lat': '51.3',
+          'boundary.rect.min_lon': '-0.5',
+          text: 'greenwich'
+        })
+      )
+    ).toMatchObject({
+      'boundary.rect.max_lat': 51.7,
+      'boundary.rect.max_lon': 0,
+      'boundary.rect.min_lat': 51.3,
+      'boundary.rect.min_lon': -0.5
     })
-    expect(merged).toMatchSnapshot()
-  })
-  it('should sort results depending on focus point', () => {
-    const mergedFocusedOnBusStop = mergeResponses(
-      {
-        customResponse: CUSTOM_RESPONSE,
-        primaryResponse: GEOCODE_EARTH_RESPONSE
-      },
-      true,
-      { lat: 47.880281, lon: -122.238459 }
+    // Incomplete or invalid rects are left out
+    expect(
+      convertQSPToGeocoderArgs({
+        'boundary.rect.max_lat': '51.7',
+        'boundary.rect.max_lon': 'east',
+        'boundary.rect.min_lat': '51.3',
+        'boundary.rect.min_lon': '-0.5'
+      }).boundary
+    ).toBeUndefined()
+    expect(
+      convertQSPToGeocoderArgs({ 'boundary.rect.min_lat': '0' }).boundary
+    ).toBeUndefined()
+  })
+  it('should report upstream errors and warnings', () => {
+    const metadata = makeGeocodingMetadata(
+      { text: 'mariner' },
+      [
+        {
+          backupUsed: true,
+          duration: 3000,
+          errors: ['geocoder 500 Internal Server Error'],
+          featureCount: 2,
+          name: 'HERE-0',
+          warnings: []
+        },
+        {
+          backupUsed: false,
+          duration: 3000,
+          errors: [],
+          featureCount: 0,
+          name: 'PELIAS-1',
+          warnings: ['geocoder timed out after 3000ms']
+        }
+      ],
+      Date.now()
     )
-    const mergedFocusedOnSteinerStreet = mergeResponses(
-      {
-        customResponse: CUSTOM_RESPONSE,
-        primaryResponse: GEOCODE_EARTH_RESPONSE
-      },
-      true,
-      { lat: 37.793899, lon: -122.43634 }
-    )
-    expect(mergedFocusedOnBusStop).not.toEqual(mergedFocusedOnSteinerStreet)
-    expect(mergedFocusedOnBusStop).toMatchSnapshot()
-    expect(mergedFocusedOnSteinerStreet).toMatchSnapshot()
-  })
-})
-
-describe('response rejection', () => {
-  it('should reject an empty response', () => {
-    const response = checkIfResultsAreSatisfactory(
-      { features: [], type: 'FeatureCollection' },
-      ''
-    )
-    expect(response).toBe(false)
-  })
-  it('should reject a response with all incorrect layers', () => {
-    const response = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'country', name: 'search' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'disputed', name: 'search' } }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search'
-    )
-
-    expect(response).toBe(false)
-  })
-
-  it('should accept a response with one correct layer and many incorrect layers', () => {
-    const response = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'country', name: 'search' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'venue', name: 'search' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'disputed', name: 'search' } }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search'
-    )
-
-    expect(response).toBe(true)
-  })
-  it('should accept a response with all correct layers and correct name', () => {
-    const response = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'address', name: 'search' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'venue', name: 'search' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'street', name: 'search' } }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search'
-    )
-
-    expect(response).toBe(true)
-  })
-  it('should reject a response with correct layers, but no name', () => {
-    const response = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'address' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'venue' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'street' } }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search'
-    )
-
-    expect(response).toBe(false)
-  })
-  it('should reject a response with correct layers, but incorrect name', () => {
-    const response = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'address', name: 'something different' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'venue', name: 'not the s word' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'street', name: 'bearch' } }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search'
-    )
-
-    expect(response).toBe(false)
-
-    // These failure cases are contreversial, but are in line with the philosophy to
-    // proactively fail rather than pass
-    const evenCloserResponse = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'address', name: 'searchQuery' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'venue', name: 'searc uery' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'street', name: 'searc' } }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search query'
-    )
-    expect(evenCloserResponse).toBe(false)
-  })
-  it('should reject a response with incorrect layers, but correct name', () => {
-    const response = checkIfResultsAreSatisfactory(
-      {
-        features: [
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'region', name: 'something different' } },
-          // @ts-expect-error demonstration object missing some data
-          { properties: { layer: 'dependency', name: 'not the s word' } },
-          // @ts-expect-error demonstration object missing some data
-          {
-            properties: {
-              layer: 'localadmin',
-              name: 'look what we found it is the search'
-            }
-          }
-        ],
-        type: 'FeatureCollection'
-      },
-      'search'
-    )
-
-    expect(response).toBe(false)
+    expect(metadata.query).toEqual({ text: 'mariner' })
+    expect(metadata.errors).toEqual([
+      'HERE-0: geocoder 500 Internal Server Error'
+    ])
+    expect(metadata.warnings).toEqual([
+      'PELIAS-1: geocoder timed out after 3000ms'
+    ])
+    expect(metadata.engine.upstreams).toHaveLength(2)
+  })
+  it('should compute the bbox of all features', () => {
+    expect(computeBbox(CUSTOM_RESPONSE.features)).toEqual([
+      -122.238639, 47.87967, -122.238459, 47.880281
+    ])
+    expect(computeBbox([])).toBeUndefined()
   })
 })
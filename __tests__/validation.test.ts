@@ -0,0 +1,91 @@
+import { validateQuery } from '../validation'
+
+describe('query validation', () => {
+  it('should accept valid queries', () => {
+    expect(
+      validateQuery('autocomplete', {
+        'boundary.rect.max_lat': '48',
+        'boundary.rect.max_lon': '-122',
+        'boundary.rect.min_lat': '47',
+        'boundary.rect.min_lon': '-123',
+        'focus.point.lat': '47.6',
+        'focus.point.lon': '-122.3',
+        size: '10',
+        text: 'pike place'
+      })
+    ).toEqual({ errors: [], warnings: [] })
+    expect(
+      validateQuery('reverse', { 'point.lat': '0', 'point.lon': '0' }).errors
+    ).toEqual([])
+  })
+  it('should require the parameters of each endpoint', () => {
+    expect(validateQuery('search', null).errors).toEqual([
+      "missing param 'text'"
+    ])
+    expect(validateQuery('search', { text: '  ' }).errors).toEqual([
+      "invalid param 'text'"
+    ])
+    expect(validateQuery('nearby', {}).errors).toEqual([
+      "missing param 'point.lat'",
+      "missing param 'point.lon'"
+    ])
+    expect(validateQuery('structured', { text: 'x' }).errors).toHaveLength(1)
+    expect(validateQuery('place', { ids: 'osm:venue:1,bad' }).errors).toEqual([
+      "invalid param 'ids': 'bad' must be of the format source:layer:id"
+    ])
+  })
+  it('should reject invalid coordinates', () => {
+    expect(
+      validateQuery('search', {
+        'focus.point.lat': '47abc',
+        'focus.point.lon': '-190',
+        text: 'x'
+      }).errors
+    ).toEqual([
+      "invalid param 'focus.point.lat': must be a number",
+      "invalid param 'focus.point.lon': must be >=-180 and <=180"
+    ])
+    expect(
+      validateQuery('search', { 'focus.point.lat': '47', text: 'x' }).errors
+    ).toEqual([
+      "parameters 'focus.point.lat' and 'focus.point.lon' must both be specified"
+    ])
+  })
+  it('should reject incomplete or inverted boundary rects', () => {
+    expect(
+      validateQuery('search', {
+        'boundary.rect.max_lat': '48',
+        'boundary.rect.max_lon': '-122',
+        'boundary.rect.min_lat': '47',
+        text: 'x'
+      }).errors
+    ).toEqual(["missing boundary.rect param 'boundary.rect.min_lon'"])
+    expect(
+      validateQuery('search', {
+        'boundary.rect.max_lat': '47',
+        'boundary.rect.max_lon': '-122',
+        'boundary.rect.min_lat': '48',
+        'boundary.rect.min_lon': '-123',
+        text: 'x'
+      }).errors
+    ).toHaveLength(1)
+  })
+  it('should reject invalid boundary circles and countries', () => {
+    expect(
+      validateQuery('search', {
+        'boundary.circle.radius': '-1',
+        'boundary.country': 'United States',
+        text: 'x'
+      }).errors
+    ).toHaveLength(3)
+  })
+  it('should limit the size', () => {
+    expect(validateQuery('search', { size: '0', text: 'x' }).errors).toEqual([
+      "invalid param 'size': must be a positive integer"
+    ])
+    expect(validateQuery('search', { size: '100', text: 'x' })).toEqual({
+      errors: [],
+      warnings: ["out-of-range integer 'size', using MAX_SIZE (40)"]
+    })
+  })
+})
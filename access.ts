@@ -0,0 +1,238 @@
+import type { Endpoint } from './config'
+
+// Types
+/**
+ * A token bucket: up to `burst` requests at once, refilled with `perSecond`
+ * requests every second
+ */
+export type RateLimit = {
+  burst: number
+  perSecond: number
+}
+
+/**
+ * A client allowed to use the stitcher, and what it may do
+ */
+export type ApiKeyConfig = {
+  /** Number of requests per day, which resets at midnight UTC */
+  dailyQuota?: number
+  /** The endpoints the client may use. Defaults to every endpoint */
+  endpoints?: Endpoint[]
+  key: string
+  /** Name of the client, used in logs and to count requests. Defaults to the key */
+  name?: string
+  rateLimit?: RateLimit
+  /** The sources the client's requests are sent to. Defaults to every source */
+  sources?: string[]
+}
+
+/**
+ * Keeps the state of rate limits and quotas. The memory store only works
+ * within a single process, so several Lambda containers or server instances
+ * need a shared store to enforce limits together
+ */
+export interface RateLimitStore {
+  /**
+   * Counts requests towards the quota of a day
+   * @param count The number of requests, e.g. the items of a batch. Defaults to 1
+   * @returns     The number of requests on that day, including these
+   */
+  incrementDailyCount: (
+    client: string,
+    day: string,
+    count?: number
+  ) => Promise<number>
+  /**
+   * Takes tokens from the bucket of a client, if enough are left
+   * @param count The number of tokens, at most the burst. Defaults to 1
+   * @returns     0 if the tokens were taken, otherwise how many ms until enough
+   *              are available
+   */
+  takeToken: (
+    client: string,
+    limit: RateLimit,
+    now: number,
+    count?: number
+  ) => Promise<number>
+}
+
+/**
+ * Whether a request may be answered, and if not, how it is rejected
+ */
+export type AccessDecision =
+  | {
+      /** The client, or null if API keys aren't required */
+      client: ApiKeyConfig | null
+      ok: true
+    }
+  | {
+      error: string
+      ok: false
+      /** How long the client should wait before trying again */
+      retryAfterSeconds?: number
+      statusCode: 401 | 403 | 429
+    }
+
+/**
+ * Decides which requests are answered, in two steps
+ */
+export type AccessCheck = {
+  /**
+   * Decides whether a request with an API key may use an endpoint, without
+   * counting it towards the client's limits
+   */
+  authorize: (endpoint: Endpoint, apiKey: string | undefined) => AccessDecision
+  /**
+   * Counts requests towards the rate limit and daily quota of their client
+   * @param client  The client authorize found, or null if API keys aren't required
+   * @param count   The number of requests, e.g. the items of a batch. Defaults to 1
+   */
+  charge: (
+    client: ApiKeyConfig | null,
+    count?: number
+  ) => Promise<AccessDecision>
+}
+
+type Bucket = {
+  tokens: number
+  updatedAt: number
+}
+
+// Consts
+/** The header API keys are passed in. The `api_key` query parameter works too */
+export const API_KEY_HEADER = 'x-api-key'
+
+/**
+ * Keeps buckets and daily counts in memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>()
+  private dailyCounts = new Map<string, { count: number; day: string }>()
+
+  async incrementDailyCount(
+    client: string,
+    day: string,
+    count = 1
+  ): Promise<number> {
+    const previous = this.dailyCounts.get(client)
+    // Only the current day is kept, so counts don't pile up
+    const total = (previous?.day === day ? previous.count : 0) + count
+    this.dailyCounts.set(client, { count: total, day })
+    return total
+  }
+
+  async takeToken(
+    client: string,
+    { burst, perSecond }: RateLimit,
+    now: number,
+    count = 1
+  ): Promise<number> {
+    const bucket = this.buckets.get(client) || { tokens: burst, updatedAt: now }
+    const tokens = Math.min(
+      burst,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond
+    )
+    if (tokens < count) {
+      this.buckets.set(client, { tokens, updatedAt: now })
+      return Math.ceil(((count - tokens) / perSecond) * 1000)
+    }
+    this.buckets.set(client, { tokens: tokens - count, updatedAt: now })
+    return 0
+  }
+}
+
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore()
+
+/**
+ * @returns The store currently used to enforce rate limits and quotas
+ */
+export const getRateLimitStore = (): RateLimitStore => rateLimitStore
+
+/**
+ * Replaces the rate limit store, e.g. with one backed by Redis or DynamoDB
+ * @param store The new store
+ */
+export const setRateLimitStore = (store: RateLimitStore): void => {
+  rateLimitStore = store
+}
+
+/**
+ * Creates the checks deciding which requests are answered. Requests are
+ * authorized first, and only counted towards the client's limits once they are
+ * known to be valid, so that malformed requests don't use up a client's quota
+ * @param keys  The clients allowed to use the stitcher. If there are none, API
+ *              keys aren't required and requests aren't limited
+ * @returns     The checks
+ */
+export const makeAccessCheck = (keys: ApiKeyConfig[]): AccessCheck => {
+  const clients = new Map(keys.map((client) => [client.key, client]))
+
+  const authorize = (
+    endpoint: Endpoint,
+    apiKey: string | undefined
+  ): AccessDecision => {
+    if (!clients.size) return { client: null, ok: true }
+    if (!apiKey) return { error: 'missing api key', ok: false, statusCode: 401 }
+    const client = clients.get(apiKey)
+    if (!client) {
+      return { error: 'invalid api key', ok: false, statusCode: 401 }
+    }
+    if (client.endpoints && !client.endpoints.includes(endpoint)) {
+      return {
+        error: `api key may not use the ${endpoint} endpoint`,
+        ok: false,
+        statusCode: 403
+      }
+    }
+    return { client, ok: true }
+  }
+
+  const charge = async (
+    client: ApiKeyConfig | null,
+    count = 1
+  ): Promise<AccessDecision> => {
+    if (!client) return { client, ok: true }
+    const name = client.name || client.key
+    const now = Date.now()
+    if (client.rateLimit) {
+      // The bucket never holds more tokens than the burst, so waiting won't help
+      if (count > client.rateLimit.burst) {
+        return {
+          error: `rate limit allows at most ${client.rateLimit.burst} requests at once`,
+          ok: false,
+          statusCode: 429
+        }
+      }
+      const waitMs = await rateLimitStore.takeToken(
+        name,
+        client.rateLimit,
+        now,
+        count
+      )
+      if (waitMs > 0) {
+        return {
+          error: 'rate limit exceeded',
+          ok: false,
+          retryAfterSeconds: Math.ceil(waitMs / 1000),
+          statusCode: 429
+        }
+      }
+    }
+    if (client.dailyQuota) {
+      const today = new Date(now).toISOString().slice(0, 10)
+      const total = await rateLimitStore.incrementDailyCount(name, today, count)
+      if (total > client.dailyQuota) {
+        const midnight = Date.parse(`${today}T00:00:00Z`) + 24 * 60 * 60 * 1000
+        return {
+          error: 'daily quota exceeded',
+          ok: false,
+          retryAfterSeconds: Math.ceil((midnight - now) / 1000),
+          statusCode: 429
+        }
+      }
+    }
+    return { client, ok: true }
+  }
+
+  return { authorize, charge }
+}
@@ -0,0 +1,185 @@
+import type { Endpoint } from './config'
+import type { QueryParams, StitchResponse } from './stitcher'
+
+// Types
+/**
+ * How many items a batch may contain, and how many are answered at once
+ */
+export type BatchOptions = {
+  /** How many items are requested at the same time */
+  concurrency: number
+  /** Larger bodies are rejected with a 413, without reading them whole */
+  maxBytes: number
+  /** Larger batches are rejected as a whole */
+  maxItems: number
+}
+
+/**
+ * A single query of a batch, answered like a request to its endpoint
+ */
+export type BatchItem = {
+  endpoint: Endpoint
+  /** Returned with the result exactly as sent, to match results to inputs */
+  id?: number | string
+  query: QueryParams
+}
+
+/**
+ * The outcome of a single item. Items fail on their own, without failing the
+ * batch
+ */
+export type BatchResult = {
+  /** Why the item failed. Only present if it did */
+  errors?: string[]
+  id?: number | string
+  /** Position of the item in the batch */
+  index: number
+  /** The Pelias response. Only present if the item succeeded */
+  response?: StitchResponse['body']
+  /** The status code a request to the item's endpoint would have returned */
+  statusCode: number
+}
+
+// Consts
+/** The endpoints items may use */
+export const BATCH_ENDPOINTS: Endpoint[] = ['reverse', 'search']
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Checks a single item of a batch
+ * @param path      How problems refer to the item
+ * @param item      The parsed item
+ * @param problems  Problems with the item are added to this list
+ * @returns         The item, with every query parameter as a string
+ */
+const validateItem = (
+  path: string,
+  item: unknown,
+  problems: string[]
+): BatchItem => {
+  if (!isObject(item)) {
+    problems.push(`${path} must be an object`)
+    return { endpoint: 'search', query: {} }
+  }
+  const { endpoint = 'search', id, query } = item
+  if (!BATCH_ENDPOINTS.includes(endpoint as Endpoint)) {
+    problems.push(
+      `${path}.endpoint must be one of ${BATCH_ENDPOINTS.join(', ')}`
+    )
+  }
+  if (id !== undefined && typeof id !== 'string' && typeof id !== 'number') {
+    problems.push(`${path}.id must be a string or number`)
+  }
+  // Query parameters are strings, like they would be in a URL
+  const params: QueryParams = {}
+  if (!isObject(query)) {
+    problems.push(`${path}.query must be an object`)
+  } else {
+    Object.keys(query).forEach((key) => {
+      const value = query[key]
+      if (
+        typeof value !== 'string' &&
+        typeof value !== 'number' &&
+        typeof value !== 'boolean'
+      ) {
+        problems.push(
+          `${path}.query.${key} must be a string, number or boolean`
+        )
+      } else {
+        params[key] = `${value}`
+      }
+    })
+  }
+  return {
+    endpoint: endpoint as Endpoint,
+    ...(id !== undefined && { id: id as number | string }),
+    query: params
+  }
+}
+
+/**
+ * Parses the body of a batch request, which is either a JSON array of items or
+ * one JSON item per line (NDJSON). A batch with any invalid item is rejected as
+ * a whole, as it most likely has the wrong format
+ * @param body      The request body
+ * @param ndjson    Whether the body contains one item per line
+ * @param maxItems  How many items the batch may contain
+ * @returns         The items, or every problem found
+ */
+export const parseBatch = (
+  body: string,
+  ndjson: boolean,
+  maxItems: number
+): { errors: string[]; items: BatchItem[] } => {
+  const errors: string[] = []
+  let raw: unknown[] = []
+  if (ndjson) {
+    body.split('\n').forEach((line, index) => {
+      if (!line.trim()) return
+      try {
+        raw.push(JSON.parse(line))
+      } catch (e) {
+        errors.push(`line ${index + 1} is not valid JSON`)
+      }
+    })
+  } else {
+    try {
+      const parsed = JSON.parse(body)
+      if (Array.isArray(parsed)) raw = parsed
+      else errors.push('body must be a JSON array of items')
+    } catch (e) {
+      errors.push(`body is not valid JSON: ${(e as Error).message}`)
+    }
+  }
+  if (errors.length) return { errors, items: [] }
+
+  if (!raw.length) errors.push('batch must contain at least one item')
+  if (raw.length > maxItems) {
+    errors.push(`batch may contain at most ${maxItems} items`)
+    return { errors, items: [] }
+  }
+  const items = raw.map((item, index) =>
+    validateItem(`items[${index}]`, item, errors)
+  )
+  return { errors, items: errors.length ? [] : items }
+}
+
+/**
+ * Calls a function for every item, with at most `concurrency` calls in flight
+ * at once. Items are started in order
+ * @param items       The items
+ * @param concurrency How many calls may be in flight at once
+ * @param fn          Called with every item and its index
+ * @returns           Resolves once every call has settled
+ */
+export const forEachWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      await fn(items[index], index)
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  )
+}
+
+/**
+ * @returns A key shared by items which are answered the same way, regardless of
+ *          the order of their query parameters
+ */
+export const getItemKey = ({ endpoint, query }: BatchItem): string =>
+  JSON.stringify([
+    endpoint,
+    Object.keys(query)
+      .sort()
+      .map((key) => [key, query[key]])
+  ])
@@ -0,0 +1,325 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import type { FeatureCollection } from 'geojson'
+
+import type { StitchQuery } from './pelias-api'
+
+// Types
+/**
+ * A store holds serialized responses. Values are always strings so that a
+ * cached response can never be mutated by the merging code after it is stored.
+ */
+export interface CacheStore {
+  get: (key: string) => Promise<string | undefined>
+  set: (key: string, value: string, ttlSeconds: number) => Promise<void>
+}
+
+/**
+ * The subset of a Redis client (ioredis-style) which the Redis store needs.
+ */
+export type RedisLikeClient = {
+  get: (key: string) => Promise<string | null>
+  set: (
+    key: string,
+    value: string,
+    expiryMode: 'EX',
+    ttlSeconds: number
+  ) => Promise<unknown>
+}
+
+type CacheEntry = {
+  expires: number
+  value: string
+}
+
+export type CacheStoreType = 'file' | 'memory' | 'none'
+
+export type CacheOptions = {
+  /** Where the file store keeps its entries. Defaults to a temporary directory */
+  directory: string | null
+  /** How many digits after the decimal point of focus points keys keep */
+  focusPrecisionDigits: number
+  /** How many entries the memory store keeps */
+  maxEntries: number
+  /** How long empty responses are cached */
+  negativeTtlSeconds: number
+  store: CacheStoreType
+  /** How long responses with results are cached, by request method */
+  ttlSeconds: Record<string, number>
+}
+
+// Consts
+export const CACHE_STORE_TYPES: CacheStoreType[] = ['file', 'memory', 'none']
+
+/** Gids and points rarely change their results, text queries change more often */
+export const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  autocomplete: 60 * 60,
+  nearby: 24 * 60 * 60,
+  place: 24 * 60 * 60,
+  reverse: 24 * 60 * 60,
+  search: 6 * 60 * 60,
+  structured: 6 * 60 * 60
+}
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  directory: null,
+  // 2 decimal places is roughly 1km, which is close enough for autocomplete
+  // results to be interchangeable
+  focusPrecisionDigits: 2,
+  maxEntries: 1000,
+  negativeTtlSeconds: 5 * 60,
+  store: 'memory',
+  ttlSeconds: DEFAULT_TTL_SECONDS
+}
+
+/**
+ * In-memory least-recently-used store. Relies on Map preserving insertion order:
+ * every read re-inserts the entry so the first key is always the oldest.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+  private maxEntries: number
+
+  constructor(maxEntries = DEFAULT_CACHE_OPTIONS.maxEntries) {
+    this.maxEntries = maxEntries
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    this.entries.delete(key)
+    if (entry.expires < Date.now()) return undefined
+
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { expires: Date.now() + ttlSeconds * 1000, value })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/**
+ * Stores each entry as a JSON file in a directory. Useful to share a cache between
+ * warm Lambda invocations via /tmp, or between processes on the same machine.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string
+
+  constructor(directory = join(tmpdir(), 'pelias-stitch-cache')) {
+    this.directory = directory
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      const entry: CacheEntry = JSON.parse(
+        await fs.readFile(join(this.directory, `${key}.json`), 'utf8')
+      )
+      if (entry.expires < Date.now()) return undefined
+      return entry.value
+    } catch (e) {
+      // Missing or unreadable entries are simply cache misses
+      return undefined
+    }
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    const entry: CacheEntry = { expires: Date.now() + ttlSeconds * 1000, value }
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(
+      join(this.directory, `${key}.json`),
+      JSON.stringify(entry),
+      'utf8'
+    )
+  }
+}
+
+/**
+ * Wraps any Redis client exposing `get` and `set(key, value, 'EX', seconds)`.
+ * The client is passed in so that this package does not depend on a Redis library.
+ */
+export class RedisCacheStore implements CacheStore {
+  private client: RedisLikeClient
+  private prefix: string
+
+  constructor(client: RedisLikeClient, prefix = 'pelias-stitch:') {
+    this.client = client
+    this.prefix = prefix
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const value = await this.client.get(this.prefix + key)
+    return value === null ? undefined : value
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'EX', ttlSeconds)
+  }
+}
+
+/**
+ * Creates the cache store described by the cache options
+ * @param options The cache options
+ * @returns       The configured store, or null if caching is disabled
+ */
+const createStore = ({
+  directory,
+  maxEntries,
+  store
+}: CacheOptions): CacheStore | null => {
+  switch (store) {
+    case 'none':
+      return null
+    case 'file':
+      return new FileCacheStore(directory || undefined)
+    case 'memory':
+      return new MemoryCacheStore(maxEntries)
+  }
+}
+
+let cacheOptions = DEFAULT_CACHE_OPTIONS
+let cacheStore: CacheStore | null = createStore(cacheOptions)
+
+/**
+ * @returns The cache store currently used by cachedGeocoderRequest
+ */
+export const getCacheStore = (): CacheStore | null => cacheStore
+
+/**
+ * Replaces the cache store, e.g. with a RedisCacheStore. Passing null disables caching.
+ * @param store The new store
+ */
+export const setCacheStore = (store: CacheStore | null): void => {
+  cacheStore = store
+}
+
+/**
+ * Applies validated cache options (see config.ts), replacing the cache store
+ * with the configured one
+ * @param options The cache options
+ */
+export const configureCache = (options: CacheOptions): void => {
+  cacheOptions = options
+  cacheStore = createStore(options)
+}
+
+/**
+ * Decides how long a response should be cached for
+ * @param requestMethod The geocoder method which produced the response
+ * @param response      The response to be cached
+ * @returns             The TTL in seconds. 0 means the response should not be cached
+ */
+export const getCacheTtl = (
+  requestMethod: string,
+  response: FeatureCollection
+): number => {
+  const { negativeTtlSeconds, ttlSeconds } = cacheOptions
+  const ttl = ttlSeconds[requestMethod] || 0
+  // Negative caching: empty results are kept for a shorter time so that newly
+  // indexed data shows up reasonably quickly. Methods which aren't cached at
+  // all don't cache empty results either
+  if (!response?.features?.length) return Math.min(negativeTtlSeconds, ttl)
+  return ttl
+}
+
+/**
+ * Rounds a position so that nearby points share a cache entry
+ * @param position  The position as passed to the geocoder, with numeric or string lat/lon
+ * @param precision How many digits after the decimal point to keep
+ * @returns         The rounded [lat, lon] pair as strings
+ */
+const roundPosition = (
+  position: unknown,
+  precision: number
+): (string | undefined)[] => {
+  const { lat, lon } = position as {
+    lat?: number | string
+    lon?: number | string
+  }
+  return [lat, lon].map((value) => {
+    const parsed = typeof value === 'string' ? parseFloat(value) : value
+    if (parsed === undefined || isNaN(parsed)) return undefined
+    return parsed.toFixed(precision)
+  })
+}
+
+/**
+ * Produces a cache key for a geocoder request. Only parameters which influence
+ * the response are considered, and they are normalized so that trivially
+ * different requests (casing, whitespace, layer order, tiny focus point changes)
+ * share a cache entry.
+ * @param geocoderConfig  Config of the geocoder being queried. Hashed, so API keys never appear in keys
+ * @param requestMethod   Geocoder Request Method
+ * @param args            Args for Geocoder request method
+ * @returns               A hex digest usable as a key in any store
+ */
+export const makeCacheKey = (
+  geocoderConfig: unknown,
+  requestMethod: string,
+  args: StitchQuery
+): string => {
+  const focusPrecision = cacheOptions.focusPrecisionDigits
+  const {
+    boundary,
+    boundaryCircle,
+    boundaryGid,
+    categories,
+    focusPoint,
+    ids,
+    lang,
+    layers,
+    point,
+    size,
+    sources,
+    structured,
+    text
+  } = args
+
+  const normalized = {
+    boundary: boundary && {
+      country: boundary.country,
+      rect: boundary.rect && [
+        boundary.rect.minLat,
+        boundary.rect.minLon,
+        boundary.rect.maxLat,
+        boundary.rect.maxLon
+      ]
+    },
+    boundaryCircle,
+    boundaryGid,
+    categories: categories?.split(',').sort().join(','),
+    focusPoint: focusPoint && roundPosition(focusPoint, focusPrecision),
+    geocoder: geocoderConfig,
+    ids,
+    lang,
+    layers: layers?.split(',').sort().join(','),
+    method: requestMethod,
+    // Reverse requests are much more sensitive to position: ~10m
+    point: point && roundPosition(point, 4),
+    size,
+    sources,
+    structured:
+      structured &&
+      Object.keys(structured)
+        .sort()
+        .map((key) => [key, structured[key].trim().toLowerCase()]),
+    text: text?.trim().replace(/\s+/g, ' ').toLowerCase()
+  }
+
+  return createHash('sha1').update(JSON.stringify(normalized)).digest('hex')
+}
@@ -0,0 +1,161 @@
+// Types
+export type CircuitState = 'closed' | 'half-open' | 'open'
+
+export type CircuitBreakerOptions = {
+  /** How long an open circuit waits before letting a trial request through */
+  cooldownMs: number
+  /** How many consecutive failures open the circuit */
+  failureThreshold: number
+}
+
+export type CircuitBreakerStatus = {
+  consecutiveFailures: number
+  lastFailure?: string
+  lastFailureAt?: number
+  openedAt?: number
+  state: CircuitState
+}
+
+/**
+ * Thrown instead of making a request while a circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('skipped, circuit breaker is open')
+    this.name = 'CircuitOpenError'
+    // Required for instanceof to work when compiling to ES5
+    Object.setPrototypeOf(this, CircuitOpenError.prototype)
+  }
+}
+
+// Consts
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  cooldownMs: 30000,
+  failureThreshold: 5
+}
+
+/**
+ * Tracks failures of a single upstream geocoder. After too many consecutive
+ * failures the circuit opens and requests are skipped until the cooldown has
+ * passed. Then a single trial request is let through (half-open): if it
+ * succeeds the circuit closes again, otherwise it re-opens.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0
+  private lastFailure?: string
+  private lastFailureAt?: number
+  private openedAt?: number
+  private options: CircuitBreakerOptions
+  private state: CircuitState = 'closed'
+  private trialInFlight = false
+
+  constructor(
+    options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+  ) {
+    this.options = options
+  }
+
+  /**
+   * @returns True if a request may be made right now
+   */
+  canRequest(): boolean {
+    if (
+      this.state === 'open' &&
+      Date.now() - (this.openedAt || 0) >= this.options.cooldownMs
+    ) {
+      this.state = 'half-open'
+    }
+    if (this.state === 'closed') return true
+    // Only a single trial request is allowed while half-open
+    return this.state === 'half-open' && !this.trialInFlight
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = undefined
+    this.state = 'closed'
+    this.trialInFlight = false
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++
+    this.lastFailure = `${(error as Error)?.message || error}`
+    this.lastFailureAt = Date.now()
+    this.trialInFlight = false
+
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  /**
+   * Runs a request through the circuit breaker
+   * @param run The request to make
+   * @returns   The result of the request
+   * @throws    CircuitOpenError if the circuit is open
+   */
+  async call<T>(run: () => Promise<T>): Promise<T> {
+    if (!this.canRequest()) throw new CircuitOpenError()
+    if (this.state === 'half-open') this.trialInFlight = true
+
+    try {
+      const result = await run()
+      this.recordSuccess()
+      return result
+    } catch (e) {
+      this.recordFailure(e)
+      throw e
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    // Checking whether a request is allowed moves expired open circuits to half-open
+    this.canRequest()
+    return {
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure,
+      lastFailureAt: this.lastFailureAt,
+      openedAt: this.openedAt,
+      state: this.state
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Returns the circuit breaker of an upstream geocoder, creating it if needed.
+ * Breakers live as long as the process (or warm Lambda container) does.
+ * @param name    Unique name of the upstream geocoder
+ * @param options Thresholds of the breaker, if it has to be created
+ * @returns       The circuit breaker for that geocoder
+ */
+export const getCircuitBreaker = (
+  name: string,
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+): CircuitBreaker => {
+  let breaker = breakers.get(name)
+  if (!breaker) {
+    breaker = new CircuitBreaker(options)
+    breakers.set(name, breaker)
+  }
+  return breaker
+}
+
+/**
+ * @returns The status of every circuit breaker, keyed by geocoder name
+ */
+export const getCircuitBreakerStatuses = (): Record<
+  string,
+  CircuitBreakerStatus
+> => {
+  const statuses: Record<string, CircuitBreakerStatus> = {}
+  breakers.forEach((breaker, name) => {
+    statuses[name] = breaker.getStatus()
+  })
+  return statuses
+}
@@ -0,0 +1,313 @@
+/**
+ * Command-line tool for debugging results without deploying. Loads the same
+ * configuration as the Lambda functions, from the environment, and runs a
+ * query through the stitcher or a single source.
+ * Run with `yarn cli search text="pike place" --table`, see USAGE.
+ */
+import { promises as fs } from 'fs'
+import type { Feature } from 'geojson'
+
+import { Endpoint, loadConfig, StitchConfig } from './config'
+import type { StitchExplanation } from './merge'
+import { makeStitcher, QueryParams } from './stitcher'
+
+// Types
+export type CliOptions = {
+  endpoint: Endpoint
+  /** Whether to print the whole response as JSON */
+  json: boolean
+  query: QueryParams
+  /** Path of the snapshot the merged results are compared with */
+  snapshot?: string
+  /** If set, only this source is queried */
+  source?: string
+  /** Whether to show what every source returned next to the merged results */
+  table: boolean
+  /** Whether to overwrite the snapshot rather than compare with it */
+  updateSnapshot: boolean
+}
+
+/**
+ * The merged results of a query, as saved to compare later runs with
+ */
+export type Snapshot = {
+  endpoint: Endpoint
+  features: string[]
+  query: QueryParams
+}
+
+/**
+ * Thrown if the command line is invalid
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+    // Required for instanceof to work when compiling to ES5
+    Object.setPrototypeOf(this, UsageError.prototype)
+  }
+}
+
+// Consts
+const CLI_ENDPOINTS: Endpoint[] = ['autocomplete', 'reverse', 'search']
+/** Longer labels are cut off in the table, so that coordinates stay visible */
+const MAX_TABLE_LABEL_LENGTH = 24
+
+export const USAGE = `Usage: yarn cli <${CLI_ENDPOINTS.join(
+  '|'
+)}> [param=value ...] [options]
+
+Query parameters are the same as the endpoint's, for example text="pike place"
+or point.lat=47.6 point.lon=-122.3. The configuration is read from the
+environment, like in Lambda.
+
+Options:
+  --source <name>       Only query this source
+  --table               Show what every source returned next to the merged results
+  --snapshot <file>     Compare the merged results with a snapshot, saving it
+                        if it doesn't exist yet
+  --update-snapshot     Overwrite the snapshot with the merged results
+  --json                Print the whole response as JSON`
+
+/**
+ * Parses the command line
+ * @param args  The arguments, without the node and script paths
+ * @returns     The options
+ * @throws      UsageError if the arguments are invalid
+ */
+export const parseArgs = (args: string[]): CliOptions => {
+  const [endpoint, ...rest] = args
+  if (!CLI_ENDPOINTS.includes(endpoint as Endpoint)) {
+    throw new UsageError(
+      endpoint ? `Unknown endpoint ${endpoint}` : 'Missing endpoint'
+    )
+  }
+  const options: CliOptions = {
+    endpoint: endpoint as Endpoint,
+    json: false,
+    query: {},
+    table: false,
+    updateSnapshot: false
+  }
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index]
+    const takeValue = () => {
+      const value = rest[++index]
+      if (value === undefined) throw new UsageError(`${arg} needs a value`)
+      return value
+    }
+    if (arg === '--json') options.json = true
+    else if (arg === '--snapshot') options.snapshot = takeValue()
+    else if (arg === '--source') options.source = takeValue()
+    else if (arg === '--table') options.table = true
+    else if (arg === '--update-snapshot') options.updateSnapshot = true
+    else if (arg.indexOf('=') > 0) {
+      const separator = arg.indexOf('=')
+      options.query[arg.slice(0, separator)] = arg.slice(separator + 1)
+    } else throw new UsageError(`Unknown argument ${arg}`)
+  }
+  if (options.updateSnapshot && !options.snapshot) {
+    throw new UsageError('--update-snapshot needs --snapshot <file>')
+  }
+  return options
+}
+
+/**
+ * Describes a feature on a single line: its label, layer and coordinates
+ * @param feature         The feature
+ * @param maxLabelLength  Longer labels are cut off
+ * @returns               The description
+ */
+export const summarizeFeature = (
+  { geometry, properties }: Feature,
+  maxLabelLength = Infinity
+): string => {
+  const [lon, lat] =
+    geometry?.type === 'Point' ? geometry.coordinates : [NaN, NaN]
+  const label = `${properties?.label || properties?.name}`
+  return `${
+    label.length > maxLabelLength
+      ? `${label.slice(0, maxLabelLength - 1)}…`
+      : label
+  } [${properties?.layer || 'unknown'}] ${lat.toFixed(5)},${lon.toFixed(5)}`
+}
+
+/**
+ * Lays out columns of text next to each other, numbering the rows
+ * @param columns The title and cells of every column
+ * @returns       The table
+ */
+export const formatTable = (
+  columns: { cells: string[]; title: string }[]
+): string => {
+  const rowCount = Math.max(0, ...columns.map(({ cells }) => cells.length))
+  const table = [
+    ['#', ...columns.map(({ title }) => title)],
+    ...Array.from({ length: rowCount }, (_, row) => [
+      `${row + 1}`,
+      ...columns.map(({ cells }) => cells[row] || '')
+    ])
+  ]
+  const widths = table[0].map((_, column) =>
+    Math.max(...table.map((row) => row[column].length))
+  )
+  return table
+    .map((row) =>
+      row
+        .map((cell, column) => cell + ' '.repeat(widths[column] - cell.length))
+        .join(' | ')
+        .replace(/\s+$/, '')
+    )
+    .join('\n')
+}
+
+/**
+ * Compares two lists of lines, based on their longest common subsequence
+ * @param expected  The old lines
+ * @param actual    The new lines
+ * @returns         Every line, prefixed with `-` if it was removed, `+` if it
+ *                  was added, or a space if it is in both
+ */
+export const diffLines = (expected: string[], actual: string[]): string[] => {
+  // common[i][j] is the length of the longest common subsequence of
+  // expected[i:] and actual[j:]
+  const common = Array.from({ length: expected.length + 1 }, () =>
+    new Array<number>(actual.length + 1).fill(0)
+  )
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      common[i][j] =
+        expected[i] === actual[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+  const lines: string[] = []
+  let i = 0
+  let j = 0
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i] === actual[j]) {
+      lines.push(`  ${expected[i++]}`)
+      j++
+    } else if (
+      i < expected.length &&
+      (j === actual.length || common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push(`- ${expected[i++]}`)
+    } else {
+      lines.push(`+ ${actual[j++]}`)
+    }
+  }
+  return lines
+}
+
+/**
+ * Runs a query and prints the results
+ * @param options The parsed command line
+ * @param config  The configuration
+ * @param print   Where output goes
+ * @returns       The exit code: 0 on success, 1 if the request failed or the
+ *                results differ from the snapshot
+ * @throws        UsageError if the source doesn't exist
+ */
+export const runCli = async (
+  options: CliOptions,
+  config: StitchConfig,
+  print: (text: string) => void = console.log
+): Promise<number> => {
+  const { endpoint, json, query, snapshot, source, table, updateSnapshot } =
+    options
+  const names = config.sources.map(({ name }) => name)
+  if (source && !names.includes(source)) {
+    throw new UsageError(
+      `Unknown source ${source}, expected one of ${names.join(', ')}`
+    )
+  }
+
+  // The table is built from the debug output, and nothing is logged or limited
+  const stitcher = makeStitcher({
+    ...config,
+    allowDebug: true,
+    apiKeys: [],
+    logRequests: false,
+    metrics: { ...config.metrics, format: 'none' },
+    sources: config.sources.filter(({ name }) => !source || name === source)
+  })
+  const { body, statusCode } = await stitcher.request(endpoint, {
+    ...query,
+    ...(table && { debug: 'true' })
+  })
+  if (json) print(JSON.stringify(body, null, 2))
+  if (statusCode !== 200) {
+    print(`Request failed with ${statusCode}:`)
+    body.geocoding?.errors?.forEach((error) => print(`  ${error}`))
+    return 1
+  }
+  const warnings = (body.geocoding?.warnings || []) as string[]
+  warnings.forEach((warning) => print(`Warning: ${warning}`))
+
+  const merged = body.features.map((feature) => summarizeFeature(feature))
+  if (table) {
+    print(
+      formatTable([
+        ...(body.geocoding?.debug?.sources || []).map(({ name, response }) => ({
+          cells: (response.features || []).map((feature) =>
+            summarizeFeature(feature, MAX_TABLE_LABEL_LENGTH)
+          ),
+          title: name
+        })),
+        {
+          cells: body.features.map(
+            (feature) =>
+              `${summarizeFeature(feature, MAX_TABLE_LABEL_LENGTH)} (${
+                (feature.properties?.stitch as StitchExplanation | undefined)
+                  ?.source
+              })`
+          ),
+          title: 'merged'
+        }
+      ])
+    )
+  } else if (!json) {
+    merged.forEach((line, index) => print(`${index + 1}. ${line}`))
+  }
+
+  if (!snapshot) return 0
+  const current: Snapshot = { endpoint, features: merged, query }
+  const saved: Snapshot | null = updateSnapshot
+    ? null
+    : await fs.readFile(snapshot, 'utf8').then(
+        (text) => JSON.parse(text),
+        () => null
+      )
+  if (!saved) {
+    await fs.writeFile(snapshot, `${JSON.stringify(current, null, 2)}\n`)
+    print(`Saved snapshot ${snapshot}`)
+    return 0
+  }
+  if (
+    saved.endpoint !== endpoint ||
+    JSON.stringify(saved.query) !== JSON.stringify(query)
+  ) {
+    print(`Warning: snapshot ${snapshot} was saved for another query`)
+  }
+  if (JSON.stringify(saved.features) === JSON.stringify(merged)) {
+    print(`Results match snapshot ${snapshot}`)
+    return 0
+  }
+  print(`Results differ from snapshot ${snapshot}:`)
+  diffLines(saved.features, merged).forEach((line) => print(line))
+  return 1
+}
+
+if (require.main === module) {
+  Promise.resolve()
+    .then(() => runCli(parseArgs(process.argv.slice(2)), loadConfig()))
+    .then(
+      (code) => process.exit(code),
+      (e) => {
+        console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : e)
+        process.exit(2)
+      }
+    )
+}
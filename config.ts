@@ -0,0 +1,1182 @@
+import { readFileSync } from 'fs'
+
+import type { ApiKeyConfig } from './access'
+import type { BatchOptions } from './batch'
+import {
+  CACHE_STORE_TYPES,
+  CacheOptions,
+  DEFAULT_CACHE_OPTIONS,
+  DEFAULT_TTL_SECONDS
+} from './cache'
+import {
+  CircuitBreakerOptions,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS
+} from './circuit-breaker'
+import type { GtfsOptions } from './gtfs'
+import { LABEL_COMPONENTS, LabelOptions, StreetTypeStyle } from './labels'
+import {
+  DEFAULT_RANKING_OPTIONS,
+  RankingOptions,
+  RankingWeights
+} from './merge'
+import type { MetricsOptions } from './metrics'
+import {
+  DEFAULT_NORMALIZATION_CONFIG,
+  getNormalizationStepTypes,
+  makeNormalizer,
+  NormalizationConfig,
+  NormalizationStepConfig
+} from './normalization'
+import type { StitchGeocoderConfig } from './pelias-api'
+import type { PoiOptions } from './poi-index'
+import {
+  DEFAULT_SATISFACTION_CONFIG,
+  getSatisfactionRuleTypes,
+  SatisfactionConfig,
+  SatisfactionRuleConfig
+} from './satisfaction'
+
+// Types
+export type Endpoint =
+  | 'autocomplete'
+  | 'nearby'
+  | 'place'
+  | 'reverse'
+  | 'search'
+  | 'structured'
+
+/**
+ * How features of a source are compared to features of higher priority sources
+ * to find duplicates
+ */
+export type DedupeOptions = {
+  /** Whether features with the same name are duplicates */
+  checkNameDuplicates: boolean
+  /** How many decimal places of coordinates must match for stops to be duplicates */
+  coordinatePrecisionDigits: number
+  /**
+   * How far apart (in meters) features with similar names may be, by layer.
+   * `default` applies to all other layers. Overrides DEFAULT_LAYER_DISTANCES
+   */
+  layerDistances?: Record<string, number>
+  /**
+   * How far (in meters) from the focus point results may be if a higher
+   * priority source has results. Defaults to DEFAULT_MAX_DISTANCE
+   */
+  maxDistance?: number
+  /** How similar names must be to be duplicates, between 0 and 1 */
+  nameSimilarity?: number
+}
+
+/**
+ * A single source of results, with the geocoders used when it fails
+ */
+export type SourceConfig = {
+  dedupe: DedupeOptions
+  /** The endpoints this source is queried for */
+  endpoints: Endpoint[]
+  /** Geocoders tried in order when the primary geocoder fails or its results are unsatisfactory */
+  fallbacks: StitchGeocoderConfig[]
+  geocoder: StitchGeocoderConfig
+  /** Unique name, used in responses, circuit breakers and logs */
+  name: string
+  /** Results of higher priority sources rank higher and win duplicate checks */
+  priority: number
+  /** How long each geocoder of this source may take */
+  timeoutMs: number
+}
+
+export type StitchConfig = {
+  /**
+   * The API key needed to see the configuration, probe geocoders and scrape
+   * metrics. Without one, none of these is possible
+   */
+  adminApiKey: string | null
+  /** Whether the `debug` query parameter may be used to explain responses */
+  allowDebug: boolean
+  /** The clients allowed to use the stitcher. If there are none, anyone may */
+  apiKeys: ApiKeyConfig[]
+  /** How large batches may be, and how many of their items are answered at once */
+  batch: BatchOptions
+  /** Where geocoder responses are cached, and for how long */
+  cache: CacheOptions
+  /** When geocoders which keep failing are skipped, and for how long */
+  circuitBreaker: CircuitBreakerOptions
+  /** Where the GTFS feed used to enrich stop results is loaded from */
+  gtfs: GtfsOptions
+  /** If set, the first fallback is requested in parallel once the primary is this slow */
+  hedgeAfterMs: number | null
+  /** How the labels of results are built from their address components */
+  labels: LabelOptions
+  /** Whether a JSON line describing every request is logged */
+  logRequests: boolean
+  /** How counters and histograms of every request are emitted */
+  metrics: MetricsOptions
+  /** How the text of requests is cleaned up and interpreted */
+  normalization: NormalizationConfig
+  /** Where the POIs of OFFLINE geocoders are loaded from */
+  pois: PoiOptions
+  /** How merged results are ordered */
+  ranking: RankingOptions
+  /** After this long, whatever results have arrived are returned */
+  requestDeadlineMs: number
+  /** When the results of a geocoder are good enough not to need a fallback */
+  satisfaction: SatisfactionConfig
+  sources: SourceConfig[]
+}
+
+/**
+ * Thrown at cold start if the configuration is invalid
+ */
+export class ConfigError extends Error {
+  constructor(problems: string[]) {
+    super(
+      `Error: invalid configuration:\n${problems
+        .map((problem) => `- ${problem}`)
+        .join('\n')}`
+    )
+    this.name = 'ConfigError'
+    // Required for instanceof to work when compiling to ES5
+    Object.setPrototypeOf(this, ConfigError.prototype)
+  }
+}
+
+// Consts
+export const ENDPOINTS: Endpoint[] = [
+  'autocomplete',
+  'nearby',
+  'place',
+  'reverse',
+  'search',
+  'structured'
+]
+
+/** Geocoder types supported by the geocoder package */
+export const GEOCODER_TYPES = [
+  'ARCGIS',
+  'HERE',
+  'OFFLINE',
+  'OTP',
+  'PELIAS',
+  'PHOTON'
+]
+
+const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+  checkNameDuplicates: true,
+  coordinatePrecisionDigits: 4
+}
+/** Config and URL parameter names whose values are never shown */
+const SECRET_PATTERN = /authorization|cookie|key|password|secret|token/i
+const DEFAULT_BATCH_CONCURRENCY = 4
+/** Enough for the default maximum number of items */
+export const DEFAULT_BATCH_MAX_BYTES = 1024 * 1024
+const DEFAULT_BATCH_MAX_ITEMS = 1000
+const DEFAULT_METRICS_NAMESPACE = 'PeliasStitch'
+const DEFAULT_REQUEST_DEADLINE_MS = 5000
+const DEFAULT_TIMEOUT_MS = 3000
+/** The same as how close stops of different sources must be to be duplicates */
+const DEFAULT_GTFS_MATCH_RADIUS_METERS = 50
+const STREET_TYPE_STYLES: StreetTypeStyle[] = ['abbreviate', 'expand', 'keep']
+
+type Env = Record<string, string | undefined>
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0
+
+/**
+ * Parses a JSON env variable, recording a problem if it isn't valid JSON
+ */
+const parseJson = (
+  name: string,
+  value: string | undefined,
+  problems: string[]
+): unknown => {
+  if (value === undefined || value === '') return undefined
+  try {
+    return JSON.parse(value)
+  } catch (e) {
+    problems.push(`${name} is not valid JSON: ${(e as Error).message}`)
+    return undefined
+  }
+}
+
+/**
+ * Checks a geocoder config from the geocoder package
+ */
+const validateGeocoder = (
+  path: string,
+  geocoder: unknown,
+  problems: string[]
+): geocoder is StitchGeocoderConfig => {
+  if (!isObject(geocoder)) {
+    problems.push(`${path} must be an OTP GeocoderConfig object`)
+    return false
+  }
+  if (!GEOCODER_TYPES.includes(geocoder.type as string)) {
+    problems.push(`${path}.type must be one of ${GEOCODER_TYPES.join(', ')}`)
+    return false
+  }
+  if (
+    (geocoder.type === 'PELIAS' || geocoder.type === 'PHOTON') &&
+    typeof geocoder.baseUrl !== 'string'
+  ) {
+    problems.push(`${path}.baseUrl is required for ${geocoder.type} geocoders`)
+  }
+  if (geocoder.type === 'HERE' && typeof geocoder.apiKey !== 'string') {
+    problems.push(`${path}.apiKey is required for HERE geocoders`)
+  }
+  return true
+}
+
+/**
+ * Validates where POIs are loaded from. POIS_LOCATION, POIS_FORMAT and
+ * POIS_RELOAD_SECONDS provide the defaults
+ */
+const parsePois = (pois: unknown, env: Env, problems: string[]): PoiOptions => {
+  const { POIS_FORMAT, POIS_LOCATION, POIS_RELOAD_SECONDS } = env
+  if (!isObject(pois)) problems.push('pois must be an object')
+  const {
+    format = POIS_FORMAT || undefined,
+    location = POIS_LOCATION || null,
+    reloadSeconds = POIS_RELOAD_SECONDS ? Number(POIS_RELOAD_SECONDS) : null
+  } = isObject(pois) ? pois : {}
+
+  if (
+    format !== undefined &&
+    !['csv', 'geojson', 'json'].includes(format as string)
+  ) {
+    problems.push('pois.format must be one of csv, geojson, json')
+  }
+  if (location !== null && typeof location !== 'string') {
+    problems.push('pois.location must be a path or URL')
+  }
+  if (reloadSeconds !== null && !isPositiveNumber(reloadSeconds)) {
+    problems.push('pois.reloadSeconds must be null or a positive number')
+  }
+  return {
+    format: format as PoiOptions['format'],
+    location: location as string | null,
+    reloadSeconds: reloadSeconds as number | null
+  }
+}
+
+/**
+ * Validates where the GTFS feed is loaded from. GTFS_LOCATION,
+ * GTFS_MATCH_RADIUS_METERS and GTFS_RELOAD_SECONDS provide the defaults
+ */
+const parseGtfs = (
+  gtfs: unknown,
+  env: Env,
+  problems: string[]
+): GtfsOptions => {
+  const { GTFS_LOCATION, GTFS_MATCH_RADIUS_METERS, GTFS_RELOAD_SECONDS } = env
+  if (!isObject(gtfs)) problems.push('gtfs must be an object')
+  const {
+    location = GTFS_LOCATION || null,
+    matchRadiusMeters = GTFS_MATCH_RADIUS_METERS
+      ? Number(GTFS_MATCH_RADIUS_METERS)
+      : DEFAULT_GTFS_MATCH_RADIUS_METERS,
+    reloadSeconds = GTFS_RELOAD_SECONDS ? Number(GTFS_RELOAD_SECONDS) : null
+  } = isObject(gtfs) ? gtfs : {}
+
+  if (location !== null && typeof location !== 'string') {
+    problems.push('gtfs.location must be a path or URL')
+  }
+  if (!isPositiveNumber(matchRadiusMeters)) {
+    problems.push('gtfs.matchRadiusMeters must be a positive number')
+  }
+  if (reloadSeconds !== null && !isPositiveNumber(reloadSeconds)) {
+    problems.push('gtfs.reloadSeconds must be null or a positive number')
+  }
+  return {
+    location: location as string | null,
+    matchRadiusMeters: matchRadiusMeters as number,
+    reloadSeconds: reloadSeconds as number | null
+  }
+}
+
+/**
+ * Validates how labels are formatted. FORMAT_LABELS, LABEL_STREET_TYPES and
+ * LABEL_TEMPLATES provide the defaults
+ */
+const parseLabels = (
+  labels: unknown,
+  env: Env,
+  problems: string[]
+): LabelOptions => {
+  const { FORMAT_LABELS, LABEL_STREET_TYPES, LABEL_TEMPLATES } = env
+  if (!isObject(labels)) problems.push('labels must be an object')
+  const {
+    enabled = FORMAT_LABELS === 'true',
+    streetTypes = LABEL_STREET_TYPES || 'abbreviate',
+    templates = parseJson('LABEL_TEMPLATES', LABEL_TEMPLATES, problems) || {}
+  } = isObject(labels) ? labels : {}
+
+  if (typeof enabled !== 'boolean') {
+    problems.push('labels.enabled must be a boolean')
+  }
+  if (!STREET_TYPE_STYLES.includes(streetTypes as StreetTypeStyle)) {
+    problems.push(
+      `labels.streetTypes must be one of ${STREET_TYPE_STYLES.join(', ')}`
+    )
+  }
+  if (!isObject(templates)) {
+    problems.push('labels.templates must map country codes to templates')
+  } else {
+    Object.keys(templates).forEach((country) => {
+      const template = templates[country]
+      const path = `labels.templates.${country}`
+      if (
+        !Array.isArray(template) ||
+        !template.length ||
+        template.some((part) => typeof part !== 'string')
+      ) {
+        problems.push(`${path} must be a non-empty array of strings`)
+        return
+      }
+      template.forEach((part: string, index) => {
+        const placeholders = part.match(/\{[^}]*\}/g) || []
+        placeholders
+          .map((placeholder) => placeholder.slice(1, -1).split('|'))
+          .reduce((all, components) => all.concat(components), [])
+          .filter((component) => !LABEL_COMPONENTS.includes(component))
+          .forEach((component) =>
+            problems.push(
+              `${path}[${index}] uses unknown component ${component}`
+            )
+          )
+      })
+    })
+  }
+  return {
+    enabled: enabled as boolean,
+    streetTypes: streetTypes as StreetTypeStyle,
+    templates: templates as Record<string, string[]>
+  }
+}
+
+/**
+ * Validates the limits of batches. BATCH_CONCURRENCY, BATCH_MAX_BYTES and
+ * BATCH_MAX_ITEMS provide the defaults
+ */
+const parseBatchOptions = (
+  batch: unknown,
+  env: Env,
+  problems: string[]
+): BatchOptions => {
+  const { BATCH_CONCURRENCY, BATCH_MAX_BYTES, BATCH_MAX_ITEMS } = env
+  if (!isObject(batch)) problems.push('batch must be an object')
+  const {
+    concurrency = BATCH_CONCURRENCY
+      ? Number(BATCH_CONCURRENCY)
+      : DEFAULT_BATCH_CONCURRENCY,
+    maxBytes = BATCH_MAX_BYTES
+      ? Number(BATCH_MAX_BYTES)
+      : DEFAULT_BATCH_MAX_BYTES,
+    maxItems = BATCH_MAX_ITEMS
+      ? Number(BATCH_MAX_ITEMS)
+      : DEFAULT_BATCH_MAX_ITEMS
+  } = isObject(batch) ? batch : {}
+
+  if (!(Number.isInteger(concurrency) && (concurrency as number) > 0)) {
+    problems.push('batch.concurrency must be a positive integer')
+  }
+  if (!(Number.isInteger(maxBytes) && (maxBytes as number) > 0)) {
+    problems.push('batch.maxBytes must be a positive integer')
+  }
+  if (!(Number.isInteger(maxItems) && (maxItems as number) > 0)) {
+    problems.push('batch.maxItems must be a positive integer')
+  }
+  return {
+    concurrency: concurrency as number,
+    maxBytes: maxBytes as number,
+    maxItems: maxItems as number
+  }
+}
+
+/**
+ * Validates how geocoder responses are cached. CACHE_DIRECTORY,
+ * CACHE_FOCUS_PRECISION_DIGITS, CACHE_MAX_ENTRIES, CACHE_NEGATIVE_TTL_SECONDS,
+ * CACHE_STORE and CACHE_TTL_SECONDS provide the defaults
+ */
+const parseCache = (
+  cache: unknown,
+  env: Env,
+  problems: string[]
+): CacheOptions => {
+  const {
+    CACHE_DIRECTORY,
+    CACHE_FOCUS_PRECISION_DIGITS,
+    CACHE_MAX_ENTRIES,
+    CACHE_NEGATIVE_TTL_SECONDS,
+    CACHE_STORE,
+    CACHE_TTL_SECONDS
+  } = env
+  if (!isObject(cache)) problems.push('cache must be an object')
+  const {
+    directory = CACHE_DIRECTORY || DEFAULT_CACHE_OPTIONS.directory,
+    focusPrecisionDigits = CACHE_FOCUS_PRECISION_DIGITS
+      ? Number(CACHE_FOCUS_PRECISION_DIGITS)
+      : DEFAULT_CACHE_OPTIONS.focusPrecisionDigits,
+    maxEntries = CACHE_MAX_ENTRIES
+      ? Number(CACHE_MAX_ENTRIES)
+      : DEFAULT_CACHE_OPTIONS.maxEntries,
+    negativeTtlSeconds = CACHE_NEGATIVE_TTL_SECONDS
+      ? Number(CACHE_NEGATIVE_TTL_SECONDS)
+      : DEFAULT_CACHE_OPTIONS.negativeTtlSeconds,
+    store = CACHE_STORE || DEFAULT_CACHE_OPTIONS.store,
+    ttlSeconds = parseJson('CACHE_TTL_SECONDS', CACHE_TTL_SECONDS, problems) ||
+      {}
+  } = isObject(cache) ? cache : {}
+
+  if (directory !== null && !(typeof directory === 'string' && directory)) {
+    problems.push('cache.directory must be null or a non-empty string')
+  }
+  const digits = focusPrecisionDigits as number
+  if (!Number.isInteger(digits) || digits < 0 || digits > 10) {
+    problems.push(
+      'cache.focusPrecisionDigits must be an integer between 0 and 10'
+    )
+  }
+  if (!(Number.isInteger(maxEntries) && (maxEntries as number) > 0)) {
+    problems.push('cache.maxEntries must be a positive integer')
+  }
+  if (
+    !(
+      Number.isInteger(negativeTtlSeconds) &&
+      (negativeTtlSeconds as number) >= 0
+    )
+  ) {
+    problems.push('cache.negativeTtlSeconds must be an integer >= 0')
+  }
+  if (!CACHE_STORE_TYPES.includes(store as CacheOptions['store'])) {
+    problems.push(`cache.store must be one of ${CACHE_STORE_TYPES.join(', ')}`)
+  }
+  if (
+    !isObject(ttlSeconds) ||
+    Object.keys(ttlSeconds).some(
+      (endpoint) =>
+        !ENDPOINTS.includes(endpoint as Endpoint) ||
+        !(
+          Number.isInteger(ttlSeconds[endpoint]) &&
+          (ttlSeconds[endpoint] as number) >= 0
+        )
+    )
+  ) {
+    problems.push(
+      'cache.ttlSeconds must map endpoints to an integer number of seconds >= 0'
+    )
+  }
+  return {
+    directory: directory as string | null,
+    focusPrecisionDigits: digits,
+    maxEntries: maxEntries as number,
+    negativeTtlSeconds: negativeTtlSeconds as number,
+    store: store as CacheOptions['store'],
+    ttlSeconds: {
+      ...DEFAULT_TTL_SECONDS,
+      ...(isObject(ttlSeconds) ? (ttlSeconds as Record<string, number>) : {})
+    }
+  }
+}
+
+/**
+ * Validates when circuit breakers open. CIRCUIT_BREAKER_COOLDOWN_MS and
+ * CIRCUIT_BREAKER_FAILURE_THRESHOLD provide the defaults
+ */
+const parseCircuitBreaker = (
+  circuitBreaker: unknown,
+  env: Env,
+  problems: string[]
+): CircuitBreakerOptions => {
+  const { CIRCUIT_BREAKER_COOLDOWN_MS, CIRCUIT_BREAKER_FAILURE_THRESHOLD } = env
+  if (!isObject(circuitBreaker)) {
+    problems.push('circuitBreaker must be an object')
+  }
+  const {
+    cooldownMs = CIRCUIT_BREAKER_COOLDOWN_MS
+      ? Number(CIRCUIT_BREAKER_COOLDOWN_MS)
+      : DEFAULT_CIRCUIT_BREAKER_OPTIONS.cooldownMs,
+    failureThreshold = CIRCUIT_BREAKER_FAILURE_THRESHOLD
+      ? Number(CIRCUIT_BREAKER_FAILURE_THRESHOLD)
+      : DEFAULT_CIRCUIT_BREAKER_OPTIONS.failureThreshold
+  } = isObject(circuitBreaker) ? circuitBreaker : {}
+
+  if (!(typeof cooldownMs === 'number' && cooldownMs >= 0)) {
+    problems.push('circuitBreaker.cooldownMs must be a number >= 0')
+  }
+  if (
+    !(Number.isInteger(failureThreshold) && (failureThreshold as number) > 0)
+  ) {
+    problems.push('circuitBreaker.failureThreshold must be a positive integer')
+  }
+  return {
+    cooldownMs: cooldownMs as number,
+    failureThreshold: failureThreshold as number
+  }
+}
+
+/**
+ * Validates how merged results are ordered. FOCUS_BLEND and RANKING_WEIGHTS
+ * provide the defaults
+ */
+const parseRanking = (
+  ranking: unknown,
+  env: Env,
+  problems: string[]
+): RankingOptions => {
+  const { FOCUS_BLEND, RANKING_WEIGHTS } = env
+  if (!isObject(ranking)) problems.push('ranking must be an object')
+  const {
+    focusBlend = FOCUS_BLEND
+      ? Number(FOCUS_BLEND)
+      : DEFAULT_RANKING_OPTIONS.focusBlend,
+    weights = parseJson('RANKING_WEIGHTS', RANKING_WEIGHTS, problems) || {}
+  } = isObject(ranking) ? ranking : {}
+  const signals = Object.keys(DEFAULT_RANKING_OPTIONS.weights)
+
+  if (!(typeof focusBlend === 'number' && focusBlend >= 0 && focusBlend <= 1)) {
+    problems.push('ranking.focusBlend must be between 0 and 1')
+  }
+  if (
+    !isObject(weights) ||
+    Object.keys(weights).some(
+      (signal) =>
+        !signals.includes(signal) ||
+        !(
+          typeof weights[signal] === 'number' &&
+          (weights[signal] as number) >= 0
+        )
+    )
+  ) {
+    problems.push(
+      `ranking.weights must map ${signals.join(', ')} to numbers >= 0`
+    )
+  }
+  return {
+    focusBlend: focusBlend as number,
+    weights: {
+      ...DEFAULT_RANKING_OPTIONS.weights,
+      ...(isObject(weights) ? (weights as Partial<RankingWeights>) : {})
+    }
+  }
+}
+
+/**
+ * Validates how metrics are emitted. METRICS_FORMAT and METRICS_NAMESPACE
+ * provide the defaults
+ */
+const parseMetrics = (
+  metrics: unknown,
+  env: Env,
+  problems: string[]
+): MetricsOptions => {
+  const { METRICS_FORMAT, METRICS_NAMESPACE } = env
+  if (!isObject(metrics)) problems.push('metrics must be an object')
+  const {
+    format = METRICS_FORMAT || 'none',
+    namespace = METRICS_NAMESPACE || DEFAULT_METRICS_NAMESPACE
+  } = isObject(metrics) ? metrics : {}
+
+  if (!['emf', 'none', 'prometheus'].includes(format as string)) {
+    problems.push('metrics.format must be one of emf, none, prometheus')
+  }
+  if (typeof namespace !== 'string' || !namespace) {
+    problems.push('metrics.namespace must be a non-empty string')
+  }
+  return {
+    format: format as MetricsOptions['format'],
+    namespace: namespace as string
+  }
+}
+
+/**
+ * Validates the clients allowed to use the stitcher
+ */
+const validateApiKeys = (
+  apiKeys: unknown,
+  sourceNames: string[],
+  problems: string[]
+): void => {
+  if (!Array.isArray(apiKeys)) {
+    problems.push('apiKeys must be an array')
+    return
+  }
+  const keys = apiKeys.map((client) => isObject(client) && client.key)
+  apiKeys.forEach((client: unknown, index: number) => {
+    const path = `apiKeys[${index}]`
+    if (!isObject(client)) {
+      problems.push(`${path} must be an object`)
+      return
+    }
+    const { dailyQuota, endpoints, key, name, rateLimit, sources } = client
+    // Keys are secrets, so problems refer to them by index
+    if (typeof key !== 'string' || !key) {
+      problems.push(`${path}.key must be a non-empty string`)
+    } else if (keys.indexOf(key) !== index) {
+      problems.push(`${path}.key is not unique`)
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      problems.push(`${path}.name must be a string`)
+    }
+    if (
+      endpoints !== undefined &&
+      (!Array.isArray(endpoints) ||
+        endpoints.some((endpoint) => !ENDPOINTS.includes(endpoint)))
+    ) {
+      problems.push(
+        `${path}.endpoints must be an array containing only ${ENDPOINTS.join(
+          ', '
+        )}`
+      )
+    }
+    if (
+      sources !== undefined &&
+      (!Array.isArray(sources) ||
+        sources.some((source) => !sourceNames.includes(source)))
+    ) {
+      problems.push(`${path}.sources must be an array of source names`)
+    }
+    if (
+      rateLimit !== undefined &&
+      !(
+        isObject(rateLimit) &&
+        isPositiveNumber(rateLimit.burst) &&
+        isPositiveNumber(rateLimit.perSecond)
+      )
+    ) {
+      problems.push(
+        `${path}.rateLimit must have a positive burst and perSecond`
+      )
+    }
+    if (
+      dailyQuota !== undefined &&
+      !(Number.isInteger(dailyQuota) && (dailyQuota as number) > 0)
+    ) {
+      problems.push(`${path}.dailyQuota must be a positive integer`)
+    }
+  })
+}
+
+/**
+ * Validates the normalization steps. Steps and variants which are given
+ * replace the defaults
+ */
+const parseNormalization = (
+  normalization: unknown,
+  problems: string[]
+): NormalizationConfig => {
+  const {
+    steps = DEFAULT_NORMALIZATION_CONFIG.steps,
+    variants = DEFAULT_NORMALIZATION_CONFIG.variants
+  } = isObject(normalization) ? normalization : {}
+  if (!isObject(normalization)) {
+    problems.push('normalization must be an object')
+  }
+
+  const stepTypes = getNormalizationStepTypes()
+  const checkSteps = (path: string, value: unknown) => {
+    if (!Array.isArray(value)) {
+      problems.push(`${path} must be an array of steps`)
+      return []
+    }
+    value.forEach((step, index) => {
+      if (!isObject(step) || !stepTypes.includes(step.type as string)) {
+        problems.push(
+          `${path}[${index}].type must be one of ${stepTypes.join(', ')}`
+        )
+      }
+    })
+    return value as NormalizationStepConfig[]
+  }
+
+  const parsed: NormalizationConfig = {
+    steps: checkSteps('normalization.steps', steps),
+    variants: {}
+  }
+  if (!isObject(variants)) {
+    problems.push(
+      'normalization.variants must be an object keyed by geocoder type'
+    )
+    return parsed
+  }
+  Object.keys(variants).forEach((type) => {
+    if (type !== 'default' && !GEOCODER_TYPES.includes(type)) {
+      problems.push(`normalization.variants.${type} is not a geocoder type`)
+    }
+    parsed.variants[type] = checkSteps(
+      `normalization.variants.${type}`,
+      variants[type]
+    )
+  })
+  return parsed
+}
+
+/**
+ * Validates the satisfaction rules. Rules given for an endpoint replace the
+ * default rules of that endpoint
+ */
+const parseSatisfaction = (
+  satisfaction: unknown,
+  problems: string[]
+): SatisfactionConfig => {
+  const { fallbackMode = DEFAULT_SATISFACTION_CONFIG.fallbackMode, rules } =
+    isObject(satisfaction) ? satisfaction : ({} as Record<string, unknown>)
+  const parsed: SatisfactionConfig = {
+    fallbackMode: fallbackMode as SatisfactionConfig['fallbackMode'],
+    rules: { ...DEFAULT_SATISFACTION_CONFIG.rules }
+  }
+
+  if (!isObject(satisfaction)) problems.push('satisfaction must be an object')
+  if (fallbackMode !== 'merge' && fallbackMode !== 'replace') {
+    problems.push('satisfaction.fallbackMode must be merge or replace')
+  }
+  if (rules === undefined || rules === null) return parsed
+  if (!isObject(rules)) {
+    problems.push('satisfaction.rules must be an object keyed by endpoint')
+    return parsed
+  }
+
+  const ruleTypes = getSatisfactionRuleTypes()
+  Object.keys(rules).forEach((endpoint) => {
+    const path = `satisfaction.rules.${endpoint}`
+    const endpointRules = rules[endpoint]
+    if (!ENDPOINTS.includes(endpoint as Endpoint)) {
+      problems.push(`${path} is not an endpoint`)
+    } else if (!Array.isArray(endpointRules)) {
+      problems.push(`${path} must be an array of rules`)
+    } else {
+      endpointRules.forEach((rule, index) => {
+        if (!isObject(rule) || !ruleTypes.includes(rule.type as string)) {
+          problems.push(
+            `${path}[${index}].type must be one of ${ruleTypes.join(', ')}`
+          )
+        }
+      })
+      parsed.rules[endpoint as Endpoint] =
+        endpointRules as SatisfactionRuleConfig[]
+    }
+  })
+  return parsed
+}
+
+/**
+ * Converts the legacy configuration, made up of parallel arrays in separate env
+ * variables, into the structured configuration
+ * @param env       The environment
+ * @param problems  Problems with the configuration are added to this list
+ * @returns         The raw structured configuration, which still needs validating,
+ *                  or undefined if GEOCODERS is missing or invalid
+ */
+export const convertLegacyConfig = (
+  env: Env,
+  problems: string[] = []
+): Record<string, unknown> | undefined => {
+  const {
+    BACKUP_GEOCODERS,
+    FALLBACK_MODE,
+    GEOCODER_TIMEOUTS_MS,
+    GEOCODERS,
+    HEDGE_AFTER_MS,
+    QUERY_NORMALIZATION,
+    REQUEST_DEADLINE_MS,
+    SATISFACTION_RULES,
+    SOURCE_PRIORITIES
+  } = env
+  if (!GEOCODERS) {
+    problems.push(
+      'required configuration variable GEOCODERS (or STITCH_CONFIG/STITCH_CONFIG_FILE) not found! Ensure env.yml has been decrypted.'
+    )
+    return undefined
+  }
+
+  const geocoders = parseJson('GEOCODERS', GEOCODERS, problems)
+  const backupGeocoders = parseJson(
+    'BACKUP_GEOCODERS',
+    BACKUP_GEOCODERS,
+    problems
+  )
+  const priorities = parseJson('SOURCE_PRIORITIES', SOURCE_PRIORITIES, problems)
+  // Timeouts may be given as a single number, or an array with one entry per geocoder
+  const timeouts = parseJson(
+    'GEOCODER_TIMEOUTS_MS',
+    GEOCODER_TIMEOUTS_MS,
+    problems
+  )
+
+  if (!Array.isArray(geocoders)) {
+    // Invalid JSON has already been reported
+    if (geocoders !== undefined) problems.push('GEOCODERS must be a JSON array')
+    return undefined
+  }
+  // Each of these arrays is optional, but must match GEOCODERS if present
+  const checkLength = (name: string, value: unknown) => {
+    if (
+      value !== undefined &&
+      value !== null &&
+      (!Array.isArray(value) || value.length !== geocoders.length)
+    ) {
+      problems.push(`${name} is not set to the same length as GEOCODERS`)
+    }
+  }
+  checkLength('BACKUP_GEOCODERS', backupGeocoders)
+  checkLength('SOURCE_PRIORITIES', priorities)
+  if (Array.isArray(timeouts)) checkLength('GEOCODER_TIMEOUTS_MS', timeouts)
+
+  const pick = (list: unknown, index: number) =>
+    Array.isArray(list) ? list[index] : undefined
+
+  return {
+    hedgeAfterMs: HEDGE_AFTER_MS ? parseInt(HEDGE_AFTER_MS) : null,
+    normalization: parseJson(
+      'QUERY_NORMALIZATION',
+      QUERY_NORMALIZATION,
+      problems
+    ),
+    requestDeadlineMs: REQUEST_DEADLINE_MS
+      ? parseInt(REQUEST_DEADLINE_MS)
+      : undefined,
+    satisfaction: {
+      fallbackMode: FALLBACK_MODE || undefined,
+      rules: parseJson('SATISFACTION_RULES', SATISFACTION_RULES, problems)
+    },
+    sources: geocoders.map((geocoder: unknown, index: number) => {
+      const backup = pick(backupGeocoders, index)
+      return {
+        fallbacks: backup ? [backup] : [],
+        geocoder,
+        priority: pick(priorities, index),
+        timeoutMs: Array.isArray(timeouts) ? timeouts[index] : timeouts
+      }
+    })
+  }
+}
+
+/**
+ * Validates a raw structured configuration and fills in defaults
+ * @param raw       The parsed configuration
+ * @param env       The environment, which provides defaults for every source
+ * @param problems  Problems found earlier, for example while parsing
+ * @returns         The validated configuration
+ * @throws          ConfigError listing every problem found
+ */
+export const parseConfig = (
+  raw: unknown,
+  env: Env = {},
+  problems: string[] = []
+): StitchConfig => {
+  const {
+    ADMIN_API_KEY,
+    ALLOW_DEBUG,
+    API_KEYS,
+    CHECK_NAME_DUPLICATES,
+    COORDINATE_COMPARISON_PRECISION_DIGITS,
+    LOG_REQUESTS
+  } = env
+  const defaultDedupe: DedupeOptions = {
+    checkNameDuplicates:
+      CHECK_NAME_DUPLICATES !== undefined
+        ? CHECK_NAME_DUPLICATES !== 'false'
+        : DEFAULT_DEDUPE_OPTIONS.checkNameDuplicates,
+    coordinatePrecisionDigits: COORDINATE_COMPARISON_PRECISION_DIGITS
+      ? parseInt(COORDINATE_COMPARISON_PRECISION_DIGITS)
+      : DEFAULT_DEDUPE_OPTIONS.coordinatePrecisionDigits
+  }
+  const config = isObject(raw) ? raw : {}
+  const {
+    adminApiKey = ADMIN_API_KEY || null,
+    allowDebug = ALLOW_DEBUG === 'true',
+    apiKeys = parseJson('API_KEYS', API_KEYS, problems) || [],
+    batch = {},
+    cache = {},
+    circuitBreaker = {},
+    gtfs = {},
+    hedgeAfterMs = null,
+    labels = {},
+    logRequests = LOG_REQUESTS !== 'false',
+    metrics = {},
+    normalization = {},
+    pois = {},
+    ranking = {},
+    requestDeadlineMs = DEFAULT_REQUEST_DEADLINE_MS,
+    satisfaction = {},
+    sources
+  } = config
+
+  if (
+    adminApiKey !== null &&
+    !(typeof adminApiKey === 'string' && adminApiKey)
+  ) {
+    problems.push('adminApiKey must be null or a non-empty string')
+  }
+  if (typeof allowDebug !== 'boolean') {
+    problems.push('allowDebug must be a boolean')
+  }
+  if (!isPositiveNumber(requestDeadlineMs)) {
+    problems.push('requestDeadlineMs must be a positive number')
+  }
+  if (
+    hedgeAfterMs !== null &&
+    !(typeof hedgeAfterMs === 'number' && hedgeAfterMs >= 0)
+  ) {
+    problems.push('hedgeAfterMs must be null or a number >= 0')
+  }
+  if (typeof logRequests !== 'boolean') {
+    problems.push('logRequests must be a boolean')
+  }
+  const parsedBatch = parseBatchOptions(batch, env, problems)
+  const parsedCache = parseCache(cache, env, problems)
+  const parsedCircuitBreaker = parseCircuitBreaker(
+    circuitBreaker,
+    env,
+    problems
+  )
+  const parsedGtfs = parseGtfs(gtfs, env, problems)
+  const parsedLabels = parseLabels(labels, env, problems)
+  const parsedMetrics = parseMetrics(metrics, env, problems)
+  const parsedNormalization = parseNormalization(normalization, problems)
+  const parsedPois = parsePois(pois, env, problems)
+  const parsedRanking = parseRanking(ranking, env, problems)
+  const parsedSatisfaction = parseSatisfaction(satisfaction, problems)
+  if (!Array.isArray(sources) || !sources.length) {
+    problems.push('sources must be a non-empty array')
+    throw new ConfigError(problems)
+  }
+
+  const parsedSources = sources.map((source: unknown, index: number) => {
+    const path = `sources[${index}]`
+    const {
+      dedupe = {},
+      endpoints = ENDPOINTS,
+      fallbacks = [],
+      geocoder,
+      name,
+      priority = index,
+      timeoutMs = DEFAULT_TIMEOUT_MS
+    } = isObject(source) ? source : ({} as Record<string, unknown>)
+
+    if (!isObject(source)) problems.push(`${path} must be an object`)
+    validateGeocoder(`${path}.geocoder`, geocoder, problems)
+    if (!Array.isArray(fallbacks)) {
+      problems.push(`${path}.fallbacks must be an array`)
+    } else {
+      fallbacks.forEach((fallback, fallbackIndex) =>
+        validateGeocoder(
+          `${path}.fallbacks[${fallbackIndex}]`,
+          fallback,
+          problems
+        )
+      )
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      problems.push(`${path}.name must be a string`)
+    }
+    if (typeof priority !== 'number' || !isFinite(priority)) {
+      problems.push(`${path}.priority must be a number`)
+    }
+    if (!isPositiveNumber(timeoutMs)) {
+      problems.push(`${path}.timeoutMs must be a positive number`)
+    }
+    if (
+      !Array.isArray(endpoints) ||
+      endpoints.some((endpoint) => !ENDPOINTS.includes(endpoint))
+    ) {
+      problems.push(
+        `${path}.endpoints must be an array containing only ${ENDPOINTS.join(
+          ', '
+        )}`
+      )
+    }
+
+    const parsedDedupe = {
+      ...defaultDedupe,
+      ...(isObject(dedupe) ? dedupe : {})
+    } as DedupeOptions
+    if (!isObject(dedupe)) problems.push(`${path}.dedupe must be an object`)
+    if (typeof parsedDedupe.checkNameDuplicates !== 'boolean') {
+      problems.push(`${path}.dedupe.checkNameDuplicates must be a boolean`)
+    }
+    const digits = parsedDedupe.coordinatePrecisionDigits
+    if (!Number.isInteger(digits) || digits < 0 || digits > 10) {
+      problems.push(
+        `${path}.dedupe.coordinatePrecisionDigits must be an integer between 0 and 10`
+      )
+    }
+    const { layerDistances, maxDistance, nameSimilarity } = parsedDedupe
+    if (
+      layerDistances !== undefined &&
+      (!isObject(layerDistances) ||
+        Object.values(layerDistances).some(
+          (distance) => typeof distance !== 'number' || distance < 0
+        ))
+    ) {
+      problems.push(
+        `${path}.dedupe.layerDistances must map layers to distances in meters`
+      )
+    }
+    if (maxDistance !== undefined && !isPositiveNumber(maxDistance)) {
+      problems.push(
+        `${path}.dedupe.maxDistance must be a positive number of meters`
+      )
+    }
+    if (
+      nameSimilarity !== undefined &&
+      (typeof nameSimilarity !== 'number' ||
+        nameSimilarity < 0 ||
+        nameSimilarity > 1)
+    ) {
+      problems.push(`${path}.dedupe.nameSimilarity must be between 0 and 1`)
+    }
+
+    const { name: geocoderName, type } = (geocoder ||
+      {}) as StitchGeocoderConfig
+    return {
+      dedupe: parsedDedupe,
+      endpoints: endpoints as Endpoint[],
+      fallbacks: (fallbacks || []) as StitchGeocoderConfig[],
+      geocoder: geocoder as StitchGeocoderConfig,
+      name: (name as string) || geocoderName || `${type || 'NONE'}-${index}`,
+      priority: priority as number,
+      timeoutMs: timeoutMs as number
+    }
+  })
+
+  const names = parsedSources.map(({ name }) => name)
+  names
+    .filter((name, index) => names.indexOf(name) !== index)
+    .forEach((name) => problems.push(`source name ${name} is not unique`))
+
+  validateApiKeys(apiKeys, names, problems)
+
+  // Stop codes are looked up in the highest priority source unless configured
+  // otherwise, which is usually the custom GTFS geocoder
+  const [topSource] = [...parsedSources].sort((a, b) => b.priority - a.priority)
+  parsedNormalization.steps = parsedNormalization.steps.map((step) =>
+    step?.type === 'stopCode' && step.source === undefined
+      ? { ...step, source: topSource.name }
+      : step
+  )
+  parsedNormalization.steps.forEach((step, index) => {
+    if (step?.type === 'stopCode' && !names.includes(step.source as string)) {
+      problems.push(
+        `normalization.steps[${index}].source must be the name of a source`
+      )
+    }
+  })
+  if (!problems.length) {
+    // Invalid options, such as regular expressions, only show when steps are built
+    try {
+      makeNormalizer(parsedNormalization)
+    } catch (e) {
+      problems.push(`normalization is invalid: ${(e as Error).message}`)
+    }
+  }
+
+  if (problems.length) throw new ConfigError(problems)
+  return {
+    adminApiKey: adminApiKey as string | null,
+    allowDebug: allowDebug as boolean,
+    apiKeys: apiKeys as ApiKeyConfig[],
+    batch: parsedBatch,
+    cache: parsedCache,
+    circuitBreaker: parsedCircuitBreaker,
+    gtfs: parsedGtfs,
+    hedgeAfterMs: hedgeAfterMs as number | null,
+    labels: parsedLabels,
+    logRequests: logRequests as boolean,
+    metrics: parsedMetrics,
+    normalization: parsedNormalization,
+    pois: parsedPois,
+    ranking: parsedRanking,
+    requestDeadlineMs: requestDeadlineMs as number,
+    satisfaction: parsedSatisfaction,
+    sources: parsedSources
+  }
+}
+
+/**
+ * Loads the configuration, from the first of these which is set:
+ * - STITCH_CONFIG: the structured configuration as JSON
+ * - STITCH_CONFIG_FILE: path to a JSON file containing the structured configuration
+ * - GEOCODERS, BACKUP_GEOCODERS and friends: the legacy configuration
+ * @param env The environment
+ * @returns   The validated configuration
+ * @throws    ConfigError listing every problem found
+ */
+export const loadConfig = (env: Env = process.env): StitchConfig => {
+  const { STITCH_CONFIG, STITCH_CONFIG_FILE } = env
+  const problems: string[] = []
+  let raw: unknown
+
+  if (STITCH_CONFIG) {
+    raw = parseJson('STITCH_CONFIG', STITCH_CONFIG, problems)
+  } else if (STITCH_CONFIG_FILE) {
+    try {
+      raw = parseJson(
+        'STITCH_CONFIG_FILE',
+        readFileSync(STITCH_CONFIG_FILE, 'utf8'),
+        problems
+      )
+    } catch (e) {
+      problems.push(
+        `STITCH_CONFIG_FILE could not be read: ${(e as Error).message}`
+      )
+    }
+  } else {
+    raw = convertLegacyConfig(env, problems)
+  }
+
+  // Without a parsed config, validating it would only add noise
+  if (raw === undefined) throw new ConfigError(problems)
+  return parseConfig(raw, env, problems)
+}
+
+/**
+ * Hides secrets in a configuration value: values of secret-looking keys, every
+ * header value, secret query parameters of URLs and credentials in URLs
+ */
+export const redact = (value: unknown, key = ''): unknown => {
+  if (SECRET_PATTERN.test(key) && value !== undefined && value !== null) {
+    return '[redacted]'
+  }
+  // Any header may carry credentials, whatever its name
+  if (key.toLowerCase() === 'headers' && isObject(value)) {
+    return Object.keys(value).reduce<Record<string, string>>(
+      (redacted, name) => {
+        redacted[name] = '[redacted]'
+        return redacted
+      },
+      {}
+    )
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item))
+  if (isObject(value)) {
+    return Object.keys(value).reduce<Record<string, unknown>>(
+      (redacted, name) => {
+        redacted[name] = redact(value[name], name)
+        return redacted
+      },
+      {}
+    )
+  }
+  if (typeof value === 'string' && /^https?:\/\//.test(value)) {
+    return value
+      .replace(/\/\/[^/@]+@/, '//[redacted]@')
+      .replace(/([?&])([^=&]+)=([^&]*)/g, (parameter, separator, name) =>
+        SECRET_PATTERN.test(name) ? `${separator}${name}=[redacted]` : parameter
+      )
+  }
+  return value
+}
+
+/**
+ * Summarizes the configuration for diagnostics, without any secrets
+ * @param config  The validated configuration
+ * @returns       The configuration with secrets redacted
+ */
+export const summarizeConfig = (
+  config: StitchConfig
+): Record<string, unknown> => redact(config) as Record<string, unknown>
@@ -0,0 +1,163 @@
+import { fromCoordinates } from '@conveyal/lonlat'
+import { getDistance } from 'geolib'
+import type { Feature, FeatureCollection } from 'geojson'
+
+import type { StitchQuery } from './pelias-api'
+
+// Types
+export type Constraint =
+  | 'boundary.circle'
+  | 'boundary.country'
+  | 'boundary.gid'
+  | 'boundary.rect'
+  | 'categories'
+  | 'sources'
+
+type Rect = { maxLat: number; maxLon: number; minLat: number; minLon: number }
+
+// Consts
+const CONSTRAINTS: Constraint[] = [
+  'boundary.circle',
+  'boundary.country',
+  'boundary.gid',
+  'boundary.rect',
+  'categories',
+  'sources'
+]
+
+/**
+ * The constraints each type of geocoder is known to honor natively. Results of
+ * every other geocoder are filtered by the stitcher. `lang` can't be enforced
+ * after the fact, so it is only honored by Pelias.
+ */
+export const GEOCODER_CAPABILITIES: Record<string, Constraint[]> = {
+  ARCGIS: [],
+  // HERE only applies boundaries to autocomplete requests
+  HERE: [],
+  OFFLINE: [],
+  OTP: [],
+  PELIAS: CONSTRAINTS,
+  PHOTON: []
+}
+
+/** Short names Pelias accepts for its sources */
+const SOURCE_ALIASES: Record<string, string> = {
+  gn: 'geonames',
+  oa: 'openaddresses',
+  osm: 'openstreetmap',
+  wof: 'whosonfirst'
+}
+
+const normalizeSource = (source: string): string => {
+  const lowerCase = source.trim().toLowerCase()
+  return SOURCE_ALIASES[lowerCase] || lowerCase
+}
+
+/**
+ * Makes a check for a single constraint of the query, or returns null if the
+ * query doesn't contain that constraint
+ * @param constraint  The constraint to check
+ * @param query       The query which was sent to the geocoder
+ * @returns           A function which returns true for features matching the constraint
+ */
+const makeConstraintCheck = (
+  constraint: Constraint,
+  query: StitchQuery
+): ((feature: Feature) => boolean) | null => {
+  const { boundary, boundaryCircle, boundaryGid, categories, sources } = query
+  const getPosition = (feature: Feature) =>
+    feature.geometry?.type === 'Point'
+      ? fromCoordinates(feature.geometry.coordinates)
+      : null
+
+  switch (constraint) {
+    case 'boundary.circle':
+      if (!boundaryCircle) return null
+      return (feature) => {
+        const position = getPosition(feature)
+        return (
+          !!position &&
+          getDistance(position, boundaryCircle) <= boundaryCircle.radius * 1000
+        )
+      }
+    case 'boundary.country':
+      if (!boundary?.country) return null
+      return ({ properties }) => {
+        const country = `${boundary.country}`.toUpperCase()
+        // Only codes of the same kind (alpha-2 or alpha-3) can be compared
+        const codes = [properties?.country_a, properties?.country_code]
+          .map((code) => `${code || ''}`.toUpperCase())
+          .filter((code) => code.length === country.length)
+        // Features which don't say which country they're in are kept
+        return !codes.length || codes.includes(country)
+      }
+    case 'boundary.gid':
+      if (!boundaryGid) return null
+      return ({ properties }) => {
+        const gids = Object.keys(properties || {})
+          .filter((key) => key === 'gid' || key.endsWith('_gid'))
+          .map((key) => properties?.[key])
+        // Features without a hierarchy are kept
+        return gids.length <= 1 || gids.includes(boundaryGid)
+      }
+    case 'boundary.rect':
+      if (!boundary?.rect) return null
+      return (feature) => {
+        const position = getPosition(feature)
+        const { maxLat, maxLon, minLat, minLon } = boundary.rect as Rect
+        return (
+          !!position &&
+          position.lat >= minLat &&
+          position.lat <= maxLat &&
+          position.lon >= minLon &&
+          position.lon <= maxLon
+        )
+      }
+    case 'categories':
+      if (!categories) return null
+      return ({ properties }) => {
+        const featureCategories: string[] | undefined = properties?.category
+        // Only Pelias returns categories, so features without them are kept
+        if (!Array.isArray(featureCategories)) return true
+        return categories
+          .split(',')
+          .some((category) => featureCategories.includes(category.trim()))
+      }
+    case 'sources':
+      if (!sources) return null
+      return ({ properties }) =>
+        sources
+          .split(',')
+          .map(normalizeSource)
+          .includes(normalizeSource(`${properties?.source || ''}`))
+  }
+}
+
+/**
+ * Removes results which don't match the constraints of the query, for geocoders
+ * which can't honor those constraints themselves
+ * @param response      The response of the geocoder
+ * @param query         The query which was sent to the geocoder
+ * @param geocoderType  The type of the geocoder, e.g. `HERE`
+ * @returns             The response without results violating the query's constraints
+ */
+export const filterUnsupportedConstraints = (
+  response: FeatureCollection,
+  query: StitchQuery,
+  geocoderType?: string
+): FeatureCollection => {
+  const supported = GEOCODER_CAPABILITIES[geocoderType || ''] || []
+  const checks = CONSTRAINTS.filter(
+    (constraint) => !supported.includes(constraint)
+  )
+    .map((constraint) => makeConstraintCheck(constraint, query))
+    .filter((check): check is (feature: Feature) => boolean => !!check)
+
+  if (!checks.length || !response?.features) return response
+  return {
+    ...response,
+    features: response.features.filter((feature) =>
+      checks.every((check) => check(feature))
+    )
+  }
+}
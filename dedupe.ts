@@ -0,0 +1,206 @@
+import { fromCoordinates } from '@conveyal/lonlat'
+import { getDistance } from 'geolib'
+import type { Feature } from 'geojson'
+
+import type { DedupeOptions } from './config'
+import { normalizeText, tokenize } from './text'
+import { arePointsRoughlyEqual } from './utils'
+
+// Types
+/**
+ * Why two features were found to be duplicates, or, for `distance`, why a
+ * feature was dropped in favor of the results of a higher priority source
+ */
+export type DuplicateReason = 'address' | 'distance' | 'name' | 'stop'
+
+// Consts
+/**
+ * How far apart (in meters) two features with similar names may be to still be
+ * duplicates, by layer. Geocoders place large features very differently
+ */
+export const DEFAULT_LAYER_DISTANCES: Record<string, number> = {
+  address: 30,
+  default: 100,
+  intersection: 50,
+  locality: 5000,
+  neighbourhood: 1000,
+  postalcode: 2000,
+  stops: 50,
+  street: 500,
+  venue: 100
+}
+/** How similar normalized names must be to be duplicates, between 0 and 1 */
+export const DEFAULT_NAME_SIMILARITY = 0.8
+/**
+ * How far (in meters) from the focus point results may be if a higher priority
+ * source has results. Results this far away are unlikely to be wanted
+ */
+export const DEFAULT_MAX_DISTANCE = 7500
+/** Features at the same address are only duplicates if they're this close */
+const MAX_ADDRESS_DISTANCE = 1000
+
+/**
+ * Computes how similar two names are, ignoring case, punctuation and
+ * abbreviations. Unlike a substring check, "Main St" and "Main" are not similar
+ * @param a The first name
+ * @param b The second name
+ * @returns The Dice coefficient of the words of both names, between 0 and 1
+ */
+export const getNameSimilarity = (a: string, b: string): number => {
+  const aTokens = tokenize(a)
+  const bTokens = tokenize(b)
+  if (!aTokens.length || !bTokens.length) return 0
+  if (aTokens.join(' ') === bTokens.join(' ')) return 1
+
+  const remaining = [...bTokens]
+  const shared = aTokens.filter((token) => {
+    const index = remaining.indexOf(token)
+    if (index === -1) return false
+    remaining.splice(index, 1)
+    return true
+  }).length
+  return (2 * shared) / (aTokens.length + bTokens.length)
+}
+
+/**
+ * Transit stops are identified by their coordinates rather than their name,
+ * as every geocoder names them differently
+ */
+export const isStop = ({ properties }: Feature): boolean =>
+  properties?.layer === 'stops' ||
+  // In OpenStreetMap, some transit stops have an "operator" tag which is added
+  // to the addendum field in Pelias
+  !!properties?.addendum?.osm?.operator ||
+  // HERE public transport categories start with a 400
+  !!properties?.addendum?.categories?.some((c: { id: string }) =>
+    c.id?.match(/^400-/)
+  )
+
+/**
+ * @returns The normalized housenumber, street and postal code of a feature, or
+ *          null if it doesn't have at least a housenumber and street
+ */
+const getAddress = ({ properties }: Feature) => {
+  const { housenumber, postalcode, street } = properties || {}
+  if (!housenumber || !street) return null
+  return {
+    housenumber: normalizeText(`${housenumber}`),
+    postalcode: postalcode ? normalizeText(`${postalcode}`) : null,
+    street: tokenize(`${street}`).join(' ')
+  }
+}
+
+const getPointDistance = (a: Feature, b: Feature): number | null =>
+  a.geometry?.type === 'Point' && b.geometry?.type === 'Point'
+    ? getDistance(
+        fromCoordinates(a.geometry.coordinates),
+        fromCoordinates(b.geometry.coordinates)
+      )
+    : null
+
+/**
+ * Decides whether two features from different sources describe the same place
+ * @param feature The feature which would be removed
+ * @param other   The feature which would be kept
+ * @param options The dedupe options of the source of `feature`
+ * @returns       Why the features are duplicates, or null if they aren't
+ */
+export const findDuplicateReason = (
+  feature: Feature,
+  other: Feature,
+  options: Partial<DedupeOptions> = {}
+): DuplicateReason | null => {
+  const {
+    checkNameDuplicates = true,
+    coordinatePrecisionDigits,
+    layerDistances: customLayerDistances,
+    nameSimilarity = DEFAULT_NAME_SIMILARITY
+  } = options
+  const layerDistances = { ...DEFAULT_LAYER_DISTANCES, ...customLayerDistances }
+  const distance = getPointDistance(feature, other)
+
+  // Addresses match on their components, however differently they're labelled
+  const address = getAddress(feature)
+  const otherAddress = getAddress(other)
+  if (
+    address &&
+    otherAddress &&
+    address.housenumber === otherAddress.housenumber &&
+    address.street === otherAddress.street &&
+    (!address.postalcode ||
+      !otherAddress.postalcode ||
+      address.postalcode === otherAddress.postalcode) &&
+    (distance === null || distance <= MAX_ADDRESS_DISTANCE)
+  ) {
+    return 'address'
+  }
+
+  if (
+    isStop(feature) &&
+    feature.geometry?.type === 'Point' &&
+    other.geometry?.type === 'Point' &&
+    arePointsRoughlyEqual(
+      feature.geometry.coordinates,
+      other.geometry.coordinates,
+      coordinatePrecisionDigits
+    )
+  ) {
+    return 'stop'
+  }
+
+  if (!checkNameDuplicates || distance === null) return null
+  const maxDistance = Math.max(
+    ...[feature, other].map(
+      ({ properties }) =>
+        layerDistances[properties?.layer] ?? layerDistances.default
+    )
+  )
+  if (
+    distance <= maxDistance &&
+    getNameSimilarity(
+      `${feature.properties?.name || ''}`,
+      `${other.properties?.name || ''}`
+    ) >= nameSimilarity
+  ) {
+    return 'name'
+  }
+  return null
+}
+
+/**
+ * @returns How much information a feature carries: the number of its non-empty
+ *          properties, including addendum entries
+ */
+export const getRichness = ({ properties }: Feature): number =>
+  Object.keys(properties || {}).filter(
+    (key) =>
+      properties?.[key] !== undefined &&
+      properties?.[key] !== null &&
+      properties?.[key] !== ''
+  ).length + Object.keys(properties?.addendum || {}).length
+
+/**
+ * Fills in the properties a kept feature is missing from its duplicate
+ * @param kept      The feature which is kept
+ * @param duplicate The feature which is removed
+ * @returns         A copy of the kept feature with the merged properties
+ */
+export const mergeDuplicate = (kept: Feature, duplicate: Feature): Feature => {
+  const keptProperties = kept.properties || {}
+  const duplicateProperties = duplicate.properties || {}
+  const properties = { ...keptProperties }
+
+  Object.keys(duplicateProperties).forEach((key) => {
+    const value = properties[key]
+    if (value === undefined || value === null || value === '') {
+      properties[key] = duplicateProperties[key]
+    }
+  })
+  if (keptProperties.addendum || duplicateProperties.addendum) {
+    properties.addendum = {
+      ...duplicateProperties.addendum,
+      ...keptProperties.addendum
+    }
+  }
+  return { ...kept, properties }
+}
@@ -0,0 +1,331 @@
+/**
+ * Stand-in for the upstream geocoders (Pelias, geocode.earth and HERE), for
+ * end-to-end tests and for running the stitcher without network access. It
+ * answers requests from fixtures, which can delay responses or fail with any
+ * status code. In recording mode, requests without a fixture are forwarded to
+ * the real upstream, and its response is saved as a new fixture.
+ * Run with `yarn fake-upstream --fixtures <directory>`, see USAGE.
+ */
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { join } from 'path'
+import { URL } from 'url'
+
+import fetch from 'node-fetch'
+
+// Types
+/**
+ * A canned upstream response, and the requests it answers
+ */
+export type UpstreamFixture = {
+  request: {
+    /** The path of the request, e.g. /v1/autocomplete */
+    path: string
+    /**
+     * Query parameters the request must have. Parameters which aren't listed
+     * may have any value
+     */
+    query?: Record<string, string>
+  }
+  response: {
+    /** Sent as JSON, unless it is a string */
+    body?: unknown
+    /** How long to wait before responding, to simulate slow upstreams */
+    delayMs?: number
+    /** Defaults to 200 */
+    status?: number
+  }
+}
+
+export type UpstreamRequest = {
+  path: string
+  query: Record<string, string>
+}
+
+export type FakeUpstreamOptions = {
+  fixtures: UpstreamFixture[]
+  port?: number
+  /**
+   * If set, requests without a fixture are forwarded to `target` (or HERE),
+   * and fixtures of their responses are saved in `directory`
+   */
+  record?: { directory: string; target: string }
+}
+
+/**
+ * The global fetch, which Node has built in and the HERE API uses. Older
+ * environments polyfill it with node-fetch
+ */
+type GlobalFetch = (input: unknown, init?: unknown) => Promise<unknown>
+
+export type FakeUpstream = {
+  close: () => Promise<void>
+  /** Every request received, in order, to check what the stitcher sent */
+  requests: UpstreamRequest[]
+  /**
+   * Resolves once every request received so far has been answered, including
+   * delayed ones the client has stopped waiting for
+   */
+  settled: () => Promise<void>
+  /** The base URL of the server, without a trailing slash */
+  url: string
+}
+
+// Consts
+/** HERE's API can't be configured, so its requests are redirected to this path */
+const HERE_PATH = '/here'
+const HERE_URL_PATTERN =
+  /^https:\/\/(autosuggest|geocode|revgeocode)\.search\.hereapi\.com\/v1\/\1/
+/** Secrets are never saved in fixtures */
+const SECRET_PARAMETER_PATTERN = /key|secret|token/i
+
+export const USAGE = `Usage: yarn fake-upstream --fixtures <directory> [--port <port>] [--record <url>]
+
+Answers upstream requests from the JSON fixtures in the directory. Point Pelias
+geocoders at http://localhost:<port>/v1. HERE requests are answered under
+${HERE_PATH}, see interceptHereRequests.
+
+Options:
+  --port <port>     Defaults to 4100
+  --record <url>    Forward requests without a fixture to this origin (or to
+                    HERE) and save their responses as fixtures`
+
+/**
+ * Loads every fixture in a directory. A file may contain a single fixture or
+ * an array of fixtures
+ * @param directory The directory
+ * @returns         The fixtures, in file name order
+ */
+export const loadFixtures = async (
+  directory: string
+): Promise<UpstreamFixture[]> => {
+  const files = (await fs.readdir(directory))
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+  const contents = await Promise.all(
+    files.map((file) => fs.readFile(join(directory, file), 'utf8'))
+  )
+  return contents.reduce<UpstreamFixture[]>(
+    (fixtures, content) => fixtures.concat(JSON.parse(content)),
+    []
+  )
+}
+
+/**
+ * Finds the fixture answering a request. If several match, the one requiring
+ * the most query parameters wins, so that catch-all fixtures can be added
+ */
+export const findFixture = (
+  fixtures: UpstreamFixture[],
+  { path, query }: UpstreamRequest
+): UpstreamFixture | undefined =>
+  fixtures
+    .filter(
+      ({ request }) =>
+        request.path === path &&
+        Object.keys(request.query || {}).every(
+          (key) => query[key] === request.query?.[key]
+        )
+    )
+    .sort(
+      (a, b) =>
+        Object.keys(b.request.query || {}).length -
+        Object.keys(a.request.query || {}).length
+    )[0]
+
+/**
+ * Removes secrets from the query of a recorded request
+ */
+const withoutSecrets = (query: Record<string, string>) => {
+  const cleaned: Record<string, string> = {}
+  Object.keys(query)
+    .filter((key) => !SECRET_PARAMETER_PATTERN.test(key))
+    .forEach((key) => {
+      cleaned[key] = query[key]
+    })
+  return cleaned
+}
+
+/**
+ * Forwards a request to the real upstream, and saves its response as a fixture
+ */
+const recordFixture = async (
+  { directory, target }: { directory: string; target: string },
+  request: UpstreamRequest,
+  search: string
+): Promise<UpstreamFixture> => {
+  // HERE has a host per endpoint, e.g. geocode.search.hereapi.com/v1/geocode
+  const hereEndpoint = request.path.startsWith(`${HERE_PATH}/`)
+    ? request.path.slice(HERE_PATH.length + 1)
+    : null
+  const url = hereEndpoint
+    ? `https://${hereEndpoint}.search.hereapi.com/v1/${hereEndpoint}${search}`
+    : `${target.replace(/\/+$/, '')}${request.path}${search}`
+  const response = await fetch(url)
+  const text = await response.text()
+  let body: unknown = text
+  try {
+    body = JSON.parse(text)
+  } catch (e) {
+    // Kept as text
+  }
+  const fixture: UpstreamFixture = {
+    request: { path: request.path, query: withoutSecrets(request.query) },
+    response: { body, status: response.status }
+  }
+  const name = `${request.path
+    .replace(/\W+/g, '-')
+    .replace(/^-/, '')}-${createHash('sha1')
+    .update(JSON.stringify(fixture.request))
+    .digest('hex')
+    .slice(0, 8)}.json`
+  await fs.mkdir(directory, { recursive: true })
+  await fs.writeFile(
+    join(directory, name),
+    `${JSON.stringify(fixture, null, 2)}\n`
+  )
+  return fixture
+}
+
+/**
+ * Starts a server answering upstream requests from fixtures
+ * @param options The fixtures, and optionally where to record missing ones
+ * @returns       The running server
+ */
+export const startFakeUpstream = async ({
+  fixtures,
+  port = 0,
+  record
+}: FakeUpstreamOptions): Promise<FakeUpstream> => {
+  const requests: UpstreamRequest[] = []
+  // Recorded fixtures answer later requests, like loaded ones
+  const known = [...fixtures]
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const query: Record<string, string> = {}
+    url.searchParams.forEach((value, key) => {
+      query[key] = value
+    })
+    const upstreamRequest = { path: url.pathname, query }
+    requests.push(upstreamRequest)
+
+    let fixture = findFixture(known, upstreamRequest)
+    if (!fixture && record) {
+      try {
+        fixture = await recordFixture(record, upstreamRequest, url.search)
+        known.push(fixture)
+      } catch (e) {
+        console.error(`Recording ${url.pathname} failed: ${e}`)
+      }
+    }
+    if (!fixture) {
+      response.writeHead(404, { 'Content-Type': 'application/json' })
+      return response.end(
+        JSON.stringify({ error: `no fixture for ${url.pathname}${url.search}` })
+      )
+    }
+
+    const { body, delayMs, status = 200 } = fixture.response
+    if (delayMs) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delayMs)
+        // Stop waiting once the client gives up, or the server is closed
+        response.on('close', () => {
+          clearTimeout(timer)
+          resolve()
+        })
+      })
+    }
+    if (response.destroyed) return
+    response.writeHead(status, {
+      'Content-Type':
+        typeof body === 'string' ? 'text/plain' : 'application/json'
+    })
+    response.end(typeof body === 'string' ? body : JSON.stringify(body))
+  }
+
+  // Requests which haven't been answered yet
+  const pending = new Set<Promise<void>>()
+  const server = createServer((request, response) => {
+    const handled = handle(request, response).then(
+      () => {
+        pending.delete(handled)
+      },
+      (e) => {
+        pending.delete(handled)
+        console.error(`Answering ${request.url} failed: ${e}`)
+      }
+    )
+    pending.add(handled)
+  })
+  await new Promise<void>((resolve) => server.listen(port, resolve))
+
+  return {
+    close: () =>
+      new Promise<void>((resolve) => {
+        // Delayed responses would otherwise keep the server open
+        server.closeAllConnections()
+        server.close(() => resolve())
+      }),
+    requests,
+    settled: () => Promise.all(Array.from(pending)).then(() => undefined),
+    url: `http://localhost:${(server.address() as AddressInfo).port}`
+  }
+}
+
+/**
+ * The HERE API can't be pointed at another server, so this redirects its
+ * requests to a fake upstream by replacing the global fetch
+ * @param baseUrl The URL of the fake upstream
+ * @returns       A function restoring the original fetch
+ */
+export const interceptHereRequests = (baseUrl: string): (() => void) => {
+  const globalScope = global as unknown as { fetch?: GlobalFetch }
+  const originalFetch = globalScope.fetch
+  // Replacing a missing fetch would stop it from being polyfilled
+  const upstreamFetch = originalFetch || (fetch as unknown as GlobalFetch)
+  globalScope.fetch = (input, init) =>
+    upstreamFetch(
+      typeof input === 'string'
+        ? input.replace(HERE_URL_PATTERN, `${baseUrl}${HERE_PATH}/$1`)
+        : input,
+      init
+    )
+  return () => {
+    if (originalFetch) globalScope.fetch = originalFetch
+    else delete globalScope.fetch
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2)
+  const option = (name: string) => {
+    const index = args.indexOf(name)
+    return index === -1 ? undefined : args[index + 1]
+  }
+  const directory = option('--fixtures')
+  if (!directory) {
+    console.error(USAGE)
+    process.exit(2)
+  }
+  const target = option('--record')
+  loadFixtures(directory as string)
+    .catch(() => [])
+    .then((fixtures) =>
+      startFakeUpstream({
+        fixtures,
+        port: parseInt(option('--port') || '4100'),
+        ...(target && { record: { directory: directory as string, target } })
+      })
+    )
+    .then(({ url }) => {
+      console.log(
+        `Fake upstream listening on ${url}${
+          target ? `, recording ${target}` : ''
+        }`
+      )
+    })
+}
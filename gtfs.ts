@@ -0,0 +1,504 @@
+import { createReadStream, promises as fs } from 'fs'
+import { join } from 'path'
+import { createInterface } from 'readline'
+
+import { normalize } from '@conveyal/lonlat'
+import type { Feature, FeatureCollection } from 'geojson'
+import fetch from 'node-fetch'
+
+import type { Endpoint } from './config'
+import { DEFAULT_NAME_SIMILARITY, getNameSimilarity, isStop } from './dedupe'
+import type { StitchQuery } from './pelias-api'
+import {
+  DEFAULT_POI_RADIUS_KM,
+  makeReloadingLoader,
+  parseCsvRows,
+  PoiIndex
+} from './poi-index'
+
+// Types
+export type GtfsOptions = {
+  /**
+   * Directory or http(s) URL containing the files of the feed. If null, no
+   * feed is loaded
+   */
+  location: string | null
+  /** How far (in meters) a result may be from a stop to be matched to it */
+  matchRadiusMeters: number
+  /** How often the feed is reloaded. If null, it is loaded once */
+  reloadSeconds: number | null
+}
+
+export type GtfsRoute = {
+  /** Name of the agency operating the route */
+  agency?: string
+  /** Hex color, without a leading # */
+  color?: string
+  id: string
+  longName?: string
+  /** OpenTripPlanner mode, e.g. BUS */
+  mode: string
+  shortName?: string
+}
+
+export type GtfsStop = {
+  /** The code riders know the stop by, often shown on signs */
+  code?: string
+  id: string
+  lat: number
+  lon: number
+  name: string
+  /** Every route with a trip stopping here. Stations get those of their stops */
+  routes: GtfsRoute[]
+}
+
+/**
+ * Added to results matched to a stop, as `addendum.gtfs`
+ */
+export type GtfsStopAddendum = {
+  agencies: string[]
+  code?: string
+  modes: string[]
+  routes: GtfsRoute[]
+  stopId: string
+}
+
+/**
+ * Thrown if a feed can't be loaded or is invalid
+ */
+export class GtfsError extends Error {
+  constructor(problems: string[]) {
+    super(
+      `Error: invalid GTFS feed:\n${problems
+        .map((problem) => `- ${problem}`)
+        .join('\n')}`
+    )
+    this.name = 'GtfsError'
+    // Required for instanceof to work when compiling to ES5
+    Object.setPrototypeOf(this, GtfsError.prototype)
+  }
+}
+
+// Consts
+/** The layer of stops, as used by the custom Pelias instance */
+export const STOPS_LAYER = 'stops'
+/** The source of results answered from the feed */
+export const GTFS_SOURCE = 'gtfs'
+/** Basic route types, see https://gtfs.org/schedule/reference/#routestxt */
+const ROUTE_TYPE_MODES: Record<string, string> = {
+  0: 'TRAM',
+  1: 'SUBWAY',
+  2: 'RAIL',
+  3: 'BUS',
+  4: 'FERRY',
+  5: 'CABLE_CAR',
+  6: 'GONDOLA',
+  7: 'FUNICULAR',
+  11: 'TROLLEYBUS',
+  12: 'MONORAIL'
+}
+/**
+ * Extended route types, by hundred. See
+ * https://developers.google.com/transit/gtfs/reference/extended-route-types
+ */
+const EXTENDED_ROUTE_TYPE_MODES: Record<string, string> = {
+  1: 'RAIL',
+  2: 'BUS',
+  4: 'SUBWAY',
+  7: 'BUS',
+  8: 'TROLLEYBUS',
+  9: 'TRAM',
+  10: 'FERRY',
+  12: 'FERRY',
+  13: 'GONDOLA',
+  14: 'FUNICULAR'
+}
+/** Results are compared with this many of the closest stops */
+const MAX_MATCH_CANDIDATES = 5
+/** Platforms and stations. Entrances, nodes and boarding areas aren't stops */
+const STOP_LOCATION_TYPES = ['', '0', '1']
+
+/**
+ * @param routeType The route_type of a route
+ * @returns         The OpenTripPlanner mode of the route, or TRANSIT if the
+ *                  route type is unknown
+ */
+export const getRouteMode = (routeType: string): string =>
+  ROUTE_TYPE_MODES[routeType] ||
+  EXTENDED_ROUTE_TYPE_MODES[Math.floor(Number(routeType) / 100)] ||
+  'TRANSIT'
+
+/**
+ * Reads the records of a file of the feed one line at a time, as stop_times.txt
+ * can be too large to hold in memory. Quoted fields may therefore not contain
+ * line breaks
+ * @param location  Directory or http(s) URL of the feed
+ * @param file      Name of the file, e.g. stops.txt
+ * @param onRecord  Called with every record, keyed by column
+ * @param optional  Whether a missing file is skipped rather than an error
+ * @throws          GtfsError if the file can't be read
+ */
+const readRecords = async (
+  location: string,
+  file: string,
+  onRecord: (record: Record<string, string>) => void,
+  optional = false
+): Promise<void> => {
+  let input: NodeJS.ReadableStream
+  try {
+    if (/^https?:\/\//.test(location)) {
+      const response = await fetch(`${location.replace(/\/+$/, '')}/${file}`)
+      if (optional && response.status === 404) return
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`)
+      }
+      input = response.body
+    } else {
+      const path = join(location, file)
+      if (optional && !(await fs.stat(path).catch(() => null))) return
+      input = createReadStream(path)
+    }
+
+    let columns: string[] | null = null
+    const lines = createInterface({ crlfDelay: Infinity, input })
+    await new Promise<void>((resolve, reject) => {
+      input.on('error', reject)
+      lines.on('error', reject)
+      lines.on('close', resolve)
+      lines.on('line', (line) => {
+        const [fields] = parseCsvRows(line)
+        if (!fields) return
+        if (!columns) {
+          // Many feeds start with a byte order mark
+          columns = fields.map((column) => column.replace(/^\uFEFF/, '').trim())
+          return
+        }
+        const record: Record<string, string> = {}
+        columns.forEach((column, index) => {
+          record[column] = (fields[index] || '').trim()
+        })
+        onRecord(record)
+      })
+    })
+  } catch (e) {
+    throw new GtfsError([
+      `${file} could not be read from ${location}: ${(e as Error).message}`
+    ])
+  }
+}
+
+const getStopGid = (id: string) => `${GTFS_SOURCE}:${STOPS_LAYER}:${id}`
+
+/**
+ * In-memory index of the stops of a feed, searchable by name, code and
+ * position like POIs
+ */
+export class GtfsIndex {
+  readonly loadedAt = Date.now()
+  readonly stops: GtfsStop[]
+  private byGid = new Map<string, GtfsStop>()
+  private index: PoiIndex
+
+  constructor(stops: GtfsStop[]) {
+    this.stops = stops
+    stops.forEach((stop) => this.byGid.set(getStopGid(stop.id), stop))
+    this.index = new PoiIndex(
+      stops.map(({ code, id, lat, lon, name }) => ({
+        ...(code && { aliases: [code] }),
+        gid: getStopGid(id),
+        label: name,
+        lat,
+        lon
+      }))
+    )
+  }
+
+  get size(): number {
+    return this.stops.length
+  }
+
+  /**
+   * @returns The stop with the given gid, if there is one
+   */
+  get(gid: string): GtfsStop | undefined {
+    return this.byGid.get(gid)
+  }
+
+  /**
+   * Finds stops whose name or code contains every word of the text
+   * @param text    The query
+   * @param size    The maximum number of stops to return
+   * @param prefix  Whether the last word may be incomplete, as in autocomplete
+   * @returns       The matching stops, best first
+   */
+  search(text: string, size?: number, prefix?: boolean): GtfsStop[] {
+    return this.index
+      .searchText(text, size, prefix)
+      .map(({ gid }) => this.byGid.get(gid) as GtfsStop)
+  }
+
+  /**
+   * Finds the stops closest to a point
+   * @param lat       Latitude of the point
+   * @param lon       Longitude of the point
+   * @param radiusKm  Stops further away are left out
+   * @param size      The maximum number of stops to return
+   * @returns         The stops with their distance in meters, closest first
+   */
+  nearest(
+    lat: number,
+    lon: number,
+    radiusKm?: number,
+    size?: number
+  ): { distance: number; stop: GtfsStop }[] {
+    return this.index
+      .nearest(lat, lon, radiusKm, size)
+      .map(({ distance, poi }) => ({
+        distance,
+        stop: this.byGid.get(poi.gid) as GtfsStop
+      }))
+  }
+
+  /**
+   * Finds the stop a result describes. Only results which are known to be
+   * stops are matched, so that a street or café named after a stop next to it
+   * isn't taken for it. A close stop with a similar name is preferred over the
+   * closest one
+   * @param feature       The result
+   * @param radiusMeters  Stops further away aren't considered
+   * @returns             The stop, or undefined if there is none
+   */
+  match(feature: Feature, radiusMeters: number): GtfsStop | undefined {
+    if (feature.geometry?.type !== 'Point' || !isStop(feature)) return undefined
+    const [lon, lat] = feature.geometry.coordinates
+    const candidates = this.nearest(
+      lat,
+      lon,
+      radiusMeters / 1000,
+      MAX_MATCH_CANDIDATES
+    )
+    const name = `${feature.properties?.name || ''}`
+    const similar = candidates.find(
+      ({ stop }) =>
+        getNameSimilarity(name, stop.name) >= DEFAULT_NAME_SIMILARITY
+    )
+    return (similar || candidates[0])?.stop
+  }
+}
+
+/**
+ * Loads the stops of a feed, and the routes stopping at each of them.
+ * stops.txt, routes.txt, trips.txt and stop_times.txt are required,
+ * agency.txt is optional
+ * @param location  Directory or http(s) URL containing the files of the feed
+ * @returns         The index of the stops
+ * @throws          GtfsError if the feed can't be read or is invalid
+ */
+export const loadGtfsIndex = async (location: string): Promise<GtfsIndex> => {
+  const agencies = new Map<string, string>()
+  await readRecords(
+    location,
+    'agency.txt',
+    ({ agency_id: id = '', agency_name: name }) => {
+      if (name) agencies.set(id, name)
+    },
+    true
+  )
+  // Feeds with a single agency may leave out agency_id
+  const [onlyAgency] = agencies.size === 1 ? Array.from(agencies.values()) : []
+
+  const routes = new Map<string, GtfsRoute>()
+  await readRecords(location, 'routes.txt', (route) => {
+    const agency = agencies.get(route.agency_id || '') || onlyAgency
+    routes.set(route.route_id, {
+      ...(agency && { agency }),
+      ...(route.route_color && { color: route.route_color }),
+      id: route.route_id,
+      ...(route.route_long_name && { longName: route.route_long_name }),
+      mode: getRouteMode(route.route_type),
+      ...(route.route_short_name && { shortName: route.route_short_name })
+    })
+  })
+
+  const tripRoutes = new Map<string, string>()
+  await readRecords(location, 'trips.txt', ({ route_id, trip_id }) =>
+    tripRoutes.set(trip_id, route_id)
+  )
+  // Only which routes stop where is kept, not when
+  const stopRoutes = new Map<string, Set<string>>()
+  const addRoute = (stopId: string, routeId: string | undefined) => {
+    if (!routeId) return
+    const ids = stopRoutes.get(stopId) || new Set<string>()
+    ids.add(routeId)
+    stopRoutes.set(stopId, ids)
+  }
+  await readRecords(location, 'stop_times.txt', ({ stop_id, trip_id }) =>
+    addRoute(stop_id, tripRoutes.get(trip_id))
+  )
+
+  const problems: string[] = []
+  const records: Record<string, string>[] = []
+  await readRecords(location, 'stops.txt', (record) => records.push(record))
+  // Stations are served by every route stopping at one of their platforms
+  records.forEach(({ parent_station, stop_id }) => {
+    if (!parent_station) return
+    Array.from(stopRoutes.get(stop_id) || []).forEach((routeId) =>
+      addRoute(parent_station, routeId)
+    )
+  })
+
+  const stops: GtfsStop[] = []
+  records.forEach((record, index) => {
+    if (!STOP_LOCATION_TYPES.includes(record.location_type || '')) return
+    const path = `stops.txt row ${index + 1}`
+    const lat = Number(record.stop_lat)
+    const lon = Number(record.stop_lon)
+    if (!record.stop_id) problems.push(`${path}: stop_id is required`)
+    if (!record.stop_name) problems.push(`${path}: stop_name is required`)
+    if (!record.stop_lat || !(Math.abs(lat) <= 90)) {
+      problems.push(`${path}: stop_lat must be a number between -90 and 90`)
+    }
+    if (!record.stop_lon || !(Math.abs(lon) <= 180)) {
+      problems.push(`${path}: stop_lon must be a number between -180 and 180`)
+    }
+    stops.push({
+      ...(record.stop_code && { code: record.stop_code }),
+      id: record.stop_id,
+      lat,
+      lon,
+      name: record.stop_name,
+      routes: Array.from(stopRoutes.get(record.stop_id) || [])
+        .map((routeId) => routes.get(routeId))
+        .filter((route): route is GtfsRoute => !!route)
+        .sort((a, b) =>
+          (a.shortName || a.longName || a.id).localeCompare(
+            b.shortName || b.longName || b.id,
+            undefined,
+            { numeric: true }
+          )
+        )
+    })
+  })
+
+  if (problems.length) throw new GtfsError(problems)
+  return new GtfsIndex(stops)
+}
+
+/**
+ * Keeps the stops of a feed loaded, reloading them in the background every
+ * reloadSeconds, see makeReloadingLoader
+ * @param options Where to load the feed from and how often
+ * @returns       A function resolving to the current index, or null if no
+ *                feed is configured
+ */
+export const makeGtfsIndexLoader = ({
+  location,
+  reloadSeconds
+}: GtfsOptions): (() => Promise<GtfsIndex>) | null =>
+  location
+    ? makeReloadingLoader(
+        () => loadGtfsIndex(location),
+        reloadSeconds,
+        'GTFS feed'
+      )
+    : null
+
+const unique = (values: (string | undefined)[]): string[] =>
+  values.filter(
+    (value, index): value is string =>
+      !!value && values.indexOf(value) === index
+  )
+
+/**
+ * @returns What results matched to the stop are given, as `addendum.gtfs`
+ */
+export const describeStop = ({
+  code,
+  id,
+  routes
+}: GtfsStop): GtfsStopAddendum => ({
+  agencies: unique(routes.map(({ agency }) => agency)),
+  ...(code && { code }),
+  modes: unique(routes.map(({ mode }) => mode)),
+  routes,
+  stopId: id
+})
+
+/**
+ * Converts a stop to a Pelias feature
+ */
+export const makeStopFeature = (stop: GtfsStop): Feature => ({
+  geometry: { coordinates: [stop.lon, stop.lat], type: 'Point' },
+  properties: {
+    addendum: { gtfs: describeStop(stop) },
+    gid: getStopGid(stop.id),
+    id: stop.id,
+    label: stop.name,
+    layer: STOPS_LAYER,
+    name: stop.name,
+    source: GTFS_SOURCE
+  },
+  type: 'Feature'
+})
+
+/**
+ * Adds the metadata of the stop every stop result describes, if any, and moves
+ * such results to the stops layer, so that they are deduplicated as stops
+ * @param response      The response of a geocoder
+ * @param index         The stops of the feed
+ * @param radiusMeters  How far results may be from the stop they describe
+ * @returns             The response with enriched copies of matched results
+ */
+export const enrichStops = (
+  response: FeatureCollection,
+  index: GtfsIndex,
+  radiusMeters: number
+): FeatureCollection => ({
+  ...response,
+  features: (response.features || []).map((feature) => {
+    const stop = index.match(feature, radiusMeters)
+    if (!stop) return feature
+    return {
+      ...feature,
+      properties: {
+        ...feature.properties,
+        addendum: {
+          ...feature.properties?.addendum,
+          gtfs: describeStop(stop)
+        },
+        layer: STOPS_LAYER
+      }
+    }
+  })
+})
+
+/**
+ * Answers a request from the stops of the feed, for requests of the stops layer
+ * @param index     The stops of the feed
+ * @param endpoint  The endpoint
+ * @param query     The query
+ * @returns         The matching stops
+ */
+export const queryStops = (
+  index: GtfsIndex,
+  endpoint: Endpoint,
+  { boundaryCircle, ids = [], point, size, text }: StitchQuery
+): FeatureCollection => {
+  let features: Feature[] = []
+  if ((endpoint === 'autocomplete' || endpoint === 'search') && text) {
+    features = index
+      .search(text, size, endpoint === 'autocomplete')
+      .map(makeStopFeature)
+  } else if ((endpoint === 'nearby' || endpoint === 'reverse') && point) {
+    const { lat, lon } = normalize(point)
+    features = index
+      .nearest(lat, lon, boundaryCircle?.radius || DEFAULT_POI_RADIUS_KM, size)
+      .map(({ stop }) => makeStopFeature(stop))
+  } else if (endpoint === 'place') {
+    features = ids
+      .map((id) => index.get(id))
+      .filter((stop): stop is GtfsStop => !!stop)
+      .map(makeStopFeature)
+  }
+  return { features, type: 'FeatureCollection' }
+}
@@ -4,18 +4,16 @@
  * Dependencies are listed in package.json in the same folder.
  * Notes:
  * - Most of the folder contents is uploaded to AWS Lambda (see README.md for deploying).
+ * - The stitcher itself is transport-agnostic (see stitcher.ts). This file only
+ *   adapts Lambda events to it, see server.ts for the standalone HTTP server.
  */
 import Bugsnag from '@bugsnag/js'
-import getGeocoder from '@opentripplanner/geocoder'
-import { Geometry, FeatureCollection, GeoJsonProperties } from 'geojson'
-import { OfflineResponse } from '@opentripplanner/geocoder/lib/apis/offline'
 
+import { API_KEY_HEADER } from './access'
+import { NDJSON_CONTENT_TYPE } from './batch'
+import { Endpoint, loadConfig } from './config'
+import { makeStitcher } from './stitcher'
 import {
-  cachedGeocoderRequest,
-  checkIfResultsAreSatisfactory,
-  convertQSPToGeocoderArgs,
-  makeQueryPeliasCompatible,
-  mergeResponses,
   ServerlessCallbackFunction,
   ServerlessEvent,
   ServerlessResponse
@@ -24,40 +22,10 @@ import {
 // This plugin must be imported via cjs to ensure its existence (typescript recommendation)
 const BugsnagPluginAwsLambda = require('@bugsnag/plugin-aws-lambda')
 
-const {
-  BACKUP_GEOCODERS,
-  BUGSNAG_NOTIFIER_KEY,
-  CHECK_NAME_DUPLICATES,
-  GEOCODERS
-} = process.env
-const POIS = require('./pois.json')
-
-if (!GEOCODERS) {
-  throw new Error(
-    'Error: required configuration variable GEOCODERS not found! Ensure env.yml has been decrypted.'
-  )
-}
-const geocoders = JSON.parse(GEOCODERS)
-const backupGeocoders = BACKUP_GEOCODERS && JSON.parse(BACKUP_GEOCODERS)
-// Serverless is not great about null
-const pois =
-  POIS && POIS !== 'null'
-    ? (POIS as OfflineResponse).map((poi) => {
-        if (typeof poi.lat === 'string') {
-          poi.lat = parseFloat(poi.lat)
-        }
-        if (typeof poi.lon === 'string') {
-          poi.lon = parseFloat(poi.lon)
-        }
-        return poi
-      })
-    : []
-
-if (geocoders.length !== backupGeocoders.length) {
-  throw new Error(
-    'Error: BACKUP_GEOCODERS is not set to the same length as GEOCODERS'
-  )
-}
+const { BUGSNAG_NOTIFIER_KEY } = process.env
+
+// Invalid configuration fails the cold start, listing every problem
+const stitcher = makeStitcher(loadConfig())
 
 Bugsnag.start({
   apiKey: BUGSNAG_NOTIFIER_KEY || '',
@@ -71,6 +39,47 @@ Bugsnag.start({
 // For reference, see https://docs.bugsnag.com/platforms/javascript/aws-lambda/#usage
 const bugsnagHandler = Bugsnag?.getPlugin('awsLambda')?.createHandler()
 
+/**
+ * Wraps a response body in a Serverless response with CORS headers
+ * @param body        The body, which is serialized to JSON
+ * @param statusCode  The HTTP status code
+ * @param headers     Headers to send besides the CORS headers
+ * @returns           The Serverless response
+ */
+const makeResponse = (
+  body: unknown,
+  statusCode = 200,
+  headers?: Record<string, string>
+): ServerlessResponse => ({
+  body: JSON.stringify(body),
+  /*
+  The third "standard" CORS header, Access-Control-Allow-Methods is not included here
+  following reccomendations in https://www.serverless.com/blog/cors-api-gateway-survival-guide/
+
+  This header is handled within AWS API Gateway, via the serverless CORS setting.
+  */
+  headers: {
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Origin': '*',
+    'Content-Type': 'application/json',
+    ...headers
+  },
+  statusCode
+})
+
+/**
+ * Finds a header, whose name API Gateway keeps in the case it was sent in
+ */
+const getHeader = (
+  event: ServerlessEvent,
+  name: string
+): string | undefined => {
+  const key = Object.keys(event.headers || {}).find(
+    (header) => header.toLowerCase() === name
+  )
+  return key && event.headers[key]
+}
+
 /**
  * Makes a call to a Pelias Instance using secrets from the config file.
  * Includes special query parameters needed for each type of server.
@@ -84,82 +93,13 @@ export const makeGeocoderRequests = async (
   event: ServerlessEvent,
   apiMethod: string
 ): Promise<ServerlessResponse> => {
-  // "Clean" the text parameter to ensure the user's query is understood by Pelias
-  if (event?.queryStringParameters?.text) {
-    event.queryStringParameters.text = makeQueryPeliasCompatible(
-      event.queryStringParameters.text
-    )
-  }
-
-  // Pelias has different layers, and so needs to ignore the layers parameter
-  // if it is present
-  const peliasQSP = { ...event.queryStringParameters }
-  delete peliasQSP.layers
-
-  // Run all requests in parallel
-  const uncheckedResponses: FeatureCollection[] = await Promise.all(
-    geocoders.map((geocoder) =>
-      cachedGeocoderRequest(getGeocoder(geocoder), apiMethod, {
-        ...convertQSPToGeocoderArgs(event.queryStringParameters),
-        items: pois
-      })
-    )
-  )
-
-  // Check if responses are satisfactory, and re-do them if needed
-  const responses = await Promise.all(
-    uncheckedResponses.map(async (response, index) => {
-      // If backup geocoder is present, and the returned results are garbage, use the backup geocoder
-      // if one is configured. This request will not be cached
-      if (
-        backupGeocoders[index] &&
-        !checkIfResultsAreSatisfactory(
-          response,
-          event.queryStringParameters.text
-        )
-      ) {
-        const backupGeocoder = getGeocoder(backupGeocoders[index])
-        return await backupGeocoder[apiMethod](
-          convertQSPToGeocoderArgs(event.queryStringParameters)
-        )
-      }
-
-      return response
-    })
-  )
-
-  const merged = responses.reduce<
-    FeatureCollection<Geometry, GeoJsonProperties>
-  >(
-    (prev, cur, idx) => {
-      if (idx === 0) return cur
-      return mergeResponses(
-        { customResponse: cur, primaryResponse: prev },
-        // Default to true
-        CHECK_NAME_DUPLICATES !== 'false'
-        // TODO: use focus point here to pre-sort results? It's possible to grab
-        // the focus point by calling convertQSPToGeocoderArgs on event.queryStringParameters
-      )
-    },
-    // TODO: clean this reducer up. See https://github.com/ibi-group/pelias-stitch/pull/28#discussion_r1547582739
-    { features: [], type: 'FeatureCollection' }
+  // API Gateway passes null if there are no query parameters
+  const { body, headers, statusCode } = await stitcher.request(
+    apiMethod as Endpoint,
+    event.queryStringParameters,
+    getHeader(event, API_KEY_HEADER)
   )
-
-  return {
-    body: JSON.stringify(merged),
-    /*
-    The third "standard" CORS header, Access-Control-Allow-Methods is not included here
-    following reccomendations in https://www.serverless.com/blog/cors-api-gateway-survival-guide/
-
-    This header is handled within AWS API Gateway, via the serverless CORS setting.
-    */
-    headers: {
-      'Access-Control-Allow-Credentials': 'true',
-      'Access-Control-Allow-Origin': '*',
-      'Content-Type': 'application/json'
-    },
-    statusCode: 200
-  }
+  return makeResponse(body, statusCode, headers)
 }
 
 /**
@@ -194,7 +134,8 @@ module.exports.search = bugsnagHandler(
 )
 
 /**
- * Entirely matches the Pelias reverse endpoint. Merges 2 reverse responses together.
+ * Entirely matches the Pelias reverse endpoint. Merges all reverse responses together,
+ * sorted by distance to the requested point.
  * See https://github.com/pelias/documentation/blob/master/reverse.md
  */
 module.exports.reverse = bugsnagHandler(
@@ -203,32 +144,139 @@ module.exports.reverse = bugsnagHandler(
     context: null,
     callback: ServerlessCallbackFunction
   ): Promise<void> => {
-    let geocoderResponse = await getGeocoder(geocoders[0]).reverse(
-      convertQSPToGeocoderArgs(event.queryStringParameters)
-    )
+    const response = await makeGeocoderRequests(event, 'reverse')
 
-    if (!geocoderResponse && backupGeocoders[0]) {
-      geocoderResponse = await getGeocoder(backupGeocoders[0]).reverse(
-        convertQSPToGeocoderArgs(event.queryStringParameters)
-      )
-    }
+    callback(null, response)
+  }
+)
+
+/**
+ * Matches the Pelias place endpoint. Looks up every requested gid in the
+ * geocoders which know about its source, including the stitcher's own POIs.
+ * See https://github.com/pelias/documentation/blob/master/place.md
+ */
+module.exports.place = bugsnagHandler(
+  async (
+    event: ServerlessEvent,
+    context: null,
+    callback: ServerlessCallbackFunction
+  ): Promise<void> => {
+    const response = await makeGeocoderRequests(event, 'place')
+
+    callback(null, response)
+  }
+)
+
+/**
+ * Matches the Pelias structured search endpoint. Geocoders which don't support
+ * structured search are sent the address components as a single line of text.
+ * See https://github.com/pelias/documentation/blob/master/structured-geocoding.md
+ */
+module.exports.structured = bugsnagHandler(
+  async (
+    event: ServerlessEvent,
+    context: null,
+    callback: ServerlessCallbackFunction
+  ): Promise<void> => {
+    const response = await makeGeocoderRequests(event, 'structured')
+
+    callback(null, response)
+  }
+)
+
+/**
+ * Matches the Pelias nearby endpoint. Geocoders which don't support it are sent
+ * a reverse request instead. Results are sorted by distance to the point.
+ * See https://github.com/pelias/documentation/blob/master/nearby.md
+ */
+module.exports.nearby = bugsnagHandler(
+  async (
+    event: ServerlessEvent,
+    context: null,
+    callback: ServerlessCallbackFunction
+  ): Promise<void> => {
+    const response = await makeGeocoderRequests(event, 'nearby')
 
-    geocoderResponse.label = geocoderResponse.name
-
-    callback(null, {
-      body: JSON.stringify([geocoderResponse]),
-      /*
-        The third "standard" CORS header, Access-Control-Allow-Methods is not included here
-        following reccomendations in https://www.serverless.com/blog/cors-api-gateway-survival-guide/
-
-        This header is handled within AWS API Gateway, via the serverless CORS setting.
-        */
-      headers: {
-        'Access-Control-Allow-Credentials': 'true',
-        'Access-Control-Allow-Origin': '*',
-        'Content-Type': 'application/json'
-      },
-      statusCode: 200
+    callback(null, response)
+  }
+)
+
+/**
+ * Answers a JSON array (or NDJSON lines) of search and reverse queries, each
+ * with its own result or errors. Lambda can't stream responses, so NDJSON
+ * results are returned all at once, in order
+ */
+module.exports.batch = bugsnagHandler(
+  async (
+    event: ServerlessEvent,
+    context: null,
+    callback: ServerlessCallbackFunction
+  ): Promise<void> => {
+    const body = event.isBase64Encoded
+      ? Buffer.from(event.body || '', 'base64').toString('utf8')
+      : event.body || ''
+    const {
+      body: batchBody,
+      headers,
+      statusCode
+    } = await stitcher.batch(body, {
+      apiKey:
+        getHeader(event, API_KEY_HEADER) ||
+        event.queryStringParameters?.api_key,
+      ndjson: !!getHeader(event, 'content-type')?.includes(NDJSON_CONTENT_TYPE)
     })
+    const response = makeResponse(batchBody, statusCode, headers)
+    if (
+      batchBody.results &&
+      getHeader(event, 'accept')?.includes(NDJSON_CONTENT_TYPE)
+    ) {
+      response.body = batchBody.results
+        .map((result) => `${JSON.stringify(result)}\n`)
+        .join('')
+      response.headers['Content-Type'] = NDJSON_CONTENT_TYPE
+    }
+    callback(null, response)
+  }
+)
+
+/**
+ * Liveness check. Succeeds as long as the function starts, which means the
+ * configuration is valid
+ */
+module.exports.health = bugsnagHandler(
+  async (
+    event: ServerlessEvent,
+    context: null,
+    callback: ServerlessCallbackFunction
+  ): Promise<void> => {
+    callback(null, makeResponse({ status: 'ok' }))
+  }
+)
+
+/**
+ * Reports the state of the stitcher: the number of POIs, and the circuit
+ * breaker, latency, error rate and backup usage of every upstream geocoder.
+ * With the admin API key, the configuration without secrets is included, and
+ * with `probe=true`, every geocoder is also sent a query
+ */
+module.exports.status = bugsnagHandler(
+  async (
+    event: ServerlessEvent,
+    context: null,
+    callback: ServerlessCallbackFunction
+  ): Promise<void> => {
+    const query = event.queryStringParameters || {}
+    const admin = stitcher.isAdmin(
+      getHeader(event, API_KEY_HEADER) || query.api_key
+    )
+    const probe = query.probe === 'true'
+    if (probe && !admin) {
+      callback(
+        null,
+        makeResponse({ errors: ['probing requires the admin api key'] }, 403)
+      )
+      return
+    }
+    callback(null, makeResponse(await stitcher.status({ admin, probe })))
   }
 )
@@ -0,0 +1,399 @@
+import type { Feature } from 'geojson'
+
+import { ABBREVIATIONS, DIRECTIONS, tokenize } from './text'
+
+// Types
+/** How street types and directions are written in labels */
+export type StreetTypeStyle = 'abbreviate' | 'expand' | 'keep'
+
+export type LabelOptions = {
+  /** Whether labels are built by the stitcher. If false, upstream labels are kept */
+  enabled: boolean
+  streetTypes: StreetTypeStyle
+  /**
+   * Templates by ISO 3166-1 alpha-3 country code, replacing those of
+   * DEFAULT_LABEL_TEMPLATES. `default` applies to every other country
+   */
+  templates: Record<string, string[]>
+}
+
+// Consts
+/**
+ * The parts of labels, joined by commas. `{component}` is replaced by that
+ * property of the result, `{a|b}` by the first of them the result has. Parts
+ * without any of their components are left out
+ */
+export const DEFAULT_LABEL_TEMPLATES: Record<string, string[]> = {
+  AUT: [
+    '{name}',
+    '{street} {housenumber}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  CAN: [
+    '{name}',
+    '{housenumber} {street}',
+    '{locality}',
+    '{region_a|region}',
+    '{country_a}'
+  ],
+  CHE: [
+    '{name}',
+    '{street} {housenumber}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  DEU: [
+    '{name}',
+    '{street} {housenumber}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  ESP: [
+    '{name}',
+    '{street} {housenumber}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  FRA: [
+    '{name}',
+    '{housenumber} {street}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  GBR: [
+    '{name}',
+    '{housenumber} {street}',
+    '{locality}',
+    '{postalcode}',
+    '{country}'
+  ],
+  ITA: [
+    '{name}',
+    '{street} {housenumber}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  NLD: [
+    '{name}',
+    '{street} {housenumber}',
+    '{postalcode} {locality}',
+    '{country}'
+  ],
+  USA: [
+    '{name}',
+    '{housenumber} {street}',
+    '{locality}',
+    '{region_a|region}',
+    '{country_a}'
+  ],
+  default: [
+    '{name}',
+    '{housenumber} {street}',
+    '{locality}',
+    '{region}',
+    '{country}'
+  ]
+}
+
+/** The address components templates may use */
+export const LABEL_COMPONENTS = [
+  'borough',
+  'country',
+  'country_a',
+  'country_code',
+  'county',
+  'housenumber',
+  'localadmin',
+  'locality',
+  'macroregion',
+  'name',
+  'neighbourhood',
+  'postalcode',
+  'region',
+  'region_a',
+  'street'
+]
+
+const PLACEHOLDER_PATTERN = /\{([\w|]+)\}/g
+/** Street types and directions by their full name, e.g. street: st */
+const EXPANSIONS = Object.keys(ABBREVIATIONS).reduce<Record<string, string>>(
+  (expansions, abbreviation) => {
+    expansions[ABBREVIATIONS[abbreviation]] = abbreviation
+    return expansions
+  },
+  {}
+)
+/** Layers whose names are streets, so that their street types are formatted too */
+const STREET_LAYERS = ['intersection', 'street']
+/** Results without any of these are labelled by their name alone */
+const ADDRESS_COMPONENTS = LABEL_COMPONENTS.filter(
+  (component) => component !== 'housenumber' && component !== 'name'
+)
+/**
+ * Two-letter codes of the countries with templates, to translate their names.
+ * HERE only gives three-letter codes
+ */
+const ALPHA_2_CODES: Record<string, string> = {
+  AUT: 'AT',
+  CAN: 'CA',
+  CHE: 'CH',
+  DEU: 'DE',
+  ESP: 'ES',
+  FRA: 'FR',
+  GBR: 'GB',
+  ITA: 'IT',
+  NLD: 'NL',
+  USA: 'US'
+}
+/** HERE gives the names of US states, which Pelias abbreviates */
+const US_STATE_CODES: Record<string, string> = {
+  alabama: 'AL',
+  alaska: 'AK',
+  arizona: 'AZ',
+  arkansas: 'AR',
+  california: 'CA',
+  colorado: 'CO',
+  connecticut: 'CT',
+  delaware: 'DE',
+  'district of columbia': 'DC',
+  florida: 'FL',
+  georgia: 'GA',
+  hawaii: 'HI',
+  idaho: 'ID',
+  illinois: 'IL',
+  indiana: 'IN',
+  iowa: 'IA',
+  kansas: 'KS',
+  kentucky: 'KY',
+  louisiana: 'LA',
+  maine: 'ME',
+  maryland: 'MD',
+  massachusetts: 'MA',
+  michigan: 'MI',
+  minnesota: 'MN',
+  mississippi: 'MS',
+  missouri: 'MO',
+  montana: 'MT',
+  nebraska: 'NE',
+  nevada: 'NV',
+  'new hampshire': 'NH',
+  'new jersey': 'NJ',
+  'new mexico': 'NM',
+  'new york': 'NY',
+  'north carolina': 'NC',
+  'north dakota': 'ND',
+  ohio: 'OH',
+  oklahoma: 'OK',
+  oregon: 'OR',
+  pennsylvania: 'PA',
+  'rhode island': 'RI',
+  'south carolina': 'SC',
+  'south dakota': 'SD',
+  tennessee: 'TN',
+  texas: 'TX',
+  utah: 'UT',
+  vermont: 'VT',
+  virginia: 'VA',
+  washington: 'WA',
+  'west virginia': 'WV',
+  wisconsin: 'WI',
+  wyoming: 'WY'
+}
+
+/**
+ * Writes a single word of a street in the given style, keeping its case
+ * @param word        The word, possibly with a trailing period
+ * @param style       Whether to abbreviate or expand the word
+ * @param directions  Whether the word is a direction rather than a street type
+ * @returns           The word, or null if it isn't a street type or direction
+ */
+const formatWord = (
+  word: string,
+  style: StreetTypeStyle,
+  directions: boolean
+): string | null => {
+  const key = word.replace(/\.$/, '').toLowerCase()
+  const abbreviation = ABBREVIATIONS[key] ? key : EXPANSIONS[key]
+  if (!abbreviation || DIRECTIONS.includes(abbreviation) !== directions) {
+    return null
+  }
+  if (style === 'keep') return word
+  if (style === 'expand') {
+    const expanded = ABBREVIATIONS[abbreviation]
+    return `${expanded[0].toUpperCase()}${expanded.slice(1)}`
+  }
+  return directions
+    ? abbreviation.toUpperCase()
+    : `${abbreviation[0].toUpperCase()}${abbreviation.slice(1)}`
+}
+
+/**
+ * Abbreviates or expands the street type and directions of a street, e.g.
+ * "N Main St" and "North Main Street". Only the last word (before a trailing
+ * direction) is taken for a street type, so that "St Marks Pl" and
+ * "Avenue of the Americas" keep their names. A leading direction is only
+ * taken for one if there are at least two more words, unlike in "North Ave"
+ * @param street  The street, or an intersection of streets joined by &
+ * @param style   How street types and directions are written
+ * @returns       The formatted street
+ */
+export const formatStreet = (
+  street: string,
+  style: StreetTypeStyle
+): string => {
+  if (style === 'keep') return street
+  if (street.indexOf(' & ') !== -1) {
+    return street
+      .split(' & ')
+      .map((part) => formatStreet(part, style))
+      .join(' & ')
+  }
+  const words = street.trim().split(/\s+/)
+  let last = words.length - 1
+  const suffix = last > 0 && formatWord(words[last], style, true)
+  if (suffix && formatWord(words[last - 1], style, false)) {
+    words[last] = suffix
+    last--
+  }
+  const type = last > 0 && formatWord(words[last], style, false)
+  if (type) words[last] = type
+  const prefix = last > 1 && formatWord(words[0], style, true)
+  if (prefix) words[0] = prefix
+  return words.join(' ')
+}
+
+/**
+ * Translates the name of a country. Intl.DisplayNames isn't part of the ES2015
+ * library, and Node may be built without the data of every language
+ * @param code  The two-letter country code
+ * @param lang  The requested language, e.g. de or de-CH
+ * @returns     The translated name, or undefined if it isn't known
+ */
+const translateCountry = (code: string, lang: string): string | undefined => {
+  const { DisplayNames } = Intl as unknown as {
+    DisplayNames?: new (
+      locales: string[],
+      options: { fallback: 'none'; type: 'region' }
+    ) => { of: (code: string) => string | undefined }
+  }
+  if (!DisplayNames) return undefined
+  try {
+    return new DisplayNames([lang], { fallback: 'none', type: 'region' }).of(
+      code
+    )
+  } catch (e) {
+    // Invalid language tags can't be honored
+    return undefined
+  }
+}
+
+/**
+ * Makes a function building the label of a result from its address
+ * components, the same way for every source
+ * @param options How labels are formatted
+ * @returns       A function returning the label of a result, given the
+ *                requested language. Results without address components keep
+ *                their label, or are labelled by their name
+ */
+export const makeLabelFormatter = ({
+  streetTypes,
+  templates
+}: LabelOptions): ((feature: Feature, lang?: string) => string) => {
+  const allTemplates = { ...DEFAULT_LABEL_TEMPLATES, ...templates }
+
+  return ({ properties }, lang) => {
+    const {
+      country_a: countryA,
+      country_code: countryCode,
+      label,
+      layer,
+      name
+    } = properties || {}
+    const hasAddress = ADDRESS_COMPONENTS.some(
+      (component) => properties?.[component]
+    )
+    if (!hasAddress) return `${label || name || ''}`
+
+    const country = `${countryA || countryCode || ''}`.toUpperCase()
+    const template = allTemplates[country] || allTemplates.default
+    const components: Record<string, string> = {}
+    LABEL_COMPONENTS.forEach((component) => {
+      const value = properties?.[component]
+      if (value !== undefined && value !== null && value !== '') {
+        components[component] = `${value}`.trim()
+      }
+    })
+    if (components.street) {
+      components.street = formatStreet(components.street, streetTypes)
+    }
+    if (components.name && STREET_LAYERS.includes(layer)) {
+      components.name = formatStreet(components.name, streetTypes)
+    }
+    if (country === 'USA' && !components.region_a && components.region) {
+      const code = US_STATE_CODES[components.region.toLowerCase()]
+      if (code) components.region_a = code
+    }
+    const alpha2 =
+      `${countryCode || ''}`.length === 2
+        ? `${countryCode}`.toUpperCase()
+        : ALPHA_2_CODES[country]
+    const language = lang?.split(',')[0].trim()
+    if (language && alpha2 && components.country) {
+      components.country =
+        translateCountry(alpha2, language) || components.country
+    }
+
+    const parts = template.map((part) => {
+      let found = false
+      const text = part
+        .replace(PLACEHOLDER_PATTERN, (_, names: string) => {
+          const value = names
+            .split('|')
+            .map((component) => components[component])
+            .find((component) => !!component)
+          if (value) found = true
+          return value || ''
+        })
+        .replace(/\s+/g, ' ')
+        .trim()
+      return {
+        isName: /^\{name\}$/.test(part),
+        text: found ? text : '',
+        // Full street addresses, to recognize names which repeat them
+        tokens:
+          /\{housenumber\}/.test(part) &&
+          /\{street\}/.test(part) &&
+          components.housenumber &&
+          components.street
+            ? tokenize(text)
+            : null
+      }
+    })
+
+    // Names often repeat another part, such as the street address of an
+    // address or the locality of a city, and parts may repeat each other
+    const seen: string[] = []
+    return parts
+      .filter(({ isName, text }) => {
+        if (!text) return false
+        const key = tokenize(text).join(' ')
+        if (!isName) {
+          if (seen.includes(key)) return false
+          seen.push(key)
+          return true
+        }
+        const nameTokens = tokenize(text)
+        return !parts.some(
+          (other) =>
+            !other.isName &&
+            other.text &&
+            (tokenize(other.text).join(' ') === key ||
+              (other.tokens &&
+                other.tokens.every((token, i) => nameTokens[i] === token)))
+        )
+      })
+      .map(({ text }) => text)
+      .join(', ')
+  }
+}
@@ -0,0 +1,374 @@
+import { fromCoordinates } from '@conveyal/lonlat'
+import { getDistance } from 'geolib'
+import type { LonLatOutput } from '@conveyal/lonlat'
+import type { Feature, FeatureCollection, GeoJsonProperties } from 'geojson'
+
+import type { DedupeOptions } from './config'
+import {
+  DEFAULT_MAX_DISTANCE,
+  DuplicateReason,
+  findDuplicateReason,
+  getRichness,
+  mergeDuplicate
+} from './dedupe'
+import { PREFERRED_LAYERS } from './utils'
+
+// Types
+/**
+ * Weights of each text relevance signal. Every signal is normalized to [0, 1]
+ * before being multiplied by its weight, so weights are directly comparable.
+ */
+export type RankingWeights = {
+  confidence: number
+  layer: number
+  position: number
+  source: number
+}
+
+/**
+ * Relevance signals plus the proximity signal, which is only present when a
+ * focus point is given
+ */
+export type RankingSignals = Partial<RankingWeights & { proximity: number }>
+
+export type RankingOptions = {
+  /**
+   * How much proximity to the focus point matters compared to text relevance.
+   * 0 ranks by relevance only, 1 ranks by distance only
+   */
+  focusBlend: number
+  /** Layers which rank higher, most preferred first. Defaults to PREFERRED_LAYERS */
+  preferredLayers?: string[]
+  weights: RankingWeights
+}
+
+/**
+ * A geocoder response together with the information needed to rank it
+ */
+export type RankableResponse = {
+  /**
+   * How features of this response are compared to those of other sources.
+   * Defaults to the checkNameDuplicates argument of the merge
+   */
+  dedupe?: DedupeOptions
+  /** Higher priority sources win duplicate checks and rank higher */
+  priority: number
+  response: FeatureCollection
+  /** Human readable name of the geocoder which produced the response */
+  source: string
+}
+
+/**
+ * A feature which was dropped because it duplicates a feature of another source
+ */
+export type DroppedDuplicate = {
+  feature: Feature
+  /** The feature which was kept instead, before properties were merged into it */
+  keptFeature: Feature
+  keptSource: string
+  reason: DuplicateReason
+  source: string
+}
+
+/**
+ * Explanation of a feature's position, attached as `properties.stitch`
+ */
+export type StitchExplanation = {
+  /** The weighted signals, which add up to the score */
+  contributions: RankingSignals
+  rank: number
+  score: number
+  /** The raw signals, each in [0, 1] */
+  signals: RankingSignals
+  source: string
+  sourcePriority: number
+}
+
+type Candidate = {
+  feature: Feature
+  /** Number of features in the candidate's own response */
+  count: number
+  position: number
+  priority: number
+  source: string
+}
+
+type ScoredFeature = {
+  contributions: RankingSignals
+  /** Distance to the focus point in meters */
+  distance?: number
+  feature: Feature
+  position: number
+  priority: number
+  score: number
+  signals: RankingSignals
+  source: string
+}
+
+// Consts
+// By default source priority dominates, which keeps results from the custom
+// GTFS geocoder above commercial results, as before
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  confidence: 0.3,
+  layer: 0.1,
+  position: 0.1,
+  source: 0.5
+}
+export const DEFAULT_FOCUS_BLEND = 0.25
+// Distance at which the proximity signal is halved
+const PROXIMITY_HALVING_METERS = 5000
+
+export const DEFAULT_RANKING_OPTIONS: RankingOptions = {
+  focusBlend: DEFAULT_FOCUS_BLEND,
+  weights: DEFAULT_RANKING_WEIGHTS
+}
+
+/**
+ * Computes the normalized relevance signals of a single feature
+ * @param feature         The feature to score
+ * @param position        Normalized position of the feature within its own response (1 = first)
+ * @param sourceSignal    Normalized priority of the feature's source (1 = highest)
+ * @param preferredLayers Layers which rank higher, most preferred first
+ * @returns               The signals, each in [0, 1]
+ */
+const getRelevanceSignals = (
+  feature: Feature,
+  position: number,
+  sourceSignal: number,
+  preferredLayers: string[]
+): RankingWeights => {
+  const { confidence, layer } = feature.properties || {}
+  const layerIndex = preferredLayers.indexOf(layer)
+
+  return {
+    // Not all geocoders return a confidence, so treat a missing one as neutral
+    confidence:
+      typeof confidence === 'number'
+        ? Math.min(Math.max(confidence, 0), 1)
+        : 0.5,
+    layer: layerIndex === -1 ? 0 : 1 - layerIndex / preferredLayers.length,
+    position,
+    source: sourceSignal
+  }
+}
+
+/**
+ * Computes the distance between a feature and the focus point
+ * @param feature     The feature to measure
+ * @param focusPoint  The focus point
+ * @returns           The distance in meters, or undefined if the feature isn't a point
+ */
+const getDistanceToFocusPoint = (
+  feature: Feature,
+  focusPoint?: LonLatOutput
+): number | undefined => {
+  if (!focusPoint || feature.geometry?.type !== 'Point') return undefined
+  return getDistance(fromCoordinates(feature.geometry.coordinates), focusPoint)
+}
+
+/**
+ * Combines relevance signals and distance into a single score
+ * @param signals   The relevance signals of the feature
+ * @param distance  Distance to the focus point in meters, if a focus point is given
+ * @param options   The weights and focus blend to use
+ * @returns         The score, the weighted contribution of each signal and the raw signals
+ */
+const scoreFeature = (
+  signals: RankingWeights,
+  distance: number | undefined,
+  { focusBlend, weights }: RankingOptions
+): Pick<ScoredFeature, 'contributions' | 'score' | 'signals'> => {
+  const signalNames = Object.keys(signals) as (keyof RankingWeights)[]
+  const totalWeight = signalNames.reduce((sum, name) => sum + weights[name], 0)
+  // Without a focus point, relevance is all there is
+  const relevanceShare = distance === undefined ? 1 : 1 - focusBlend
+
+  const contributions: RankingSignals = {}
+  let score = signalNames.reduce((sum, name) => {
+    const contribution = totalWeight
+      ? (signals[name] * weights[name] * relevanceShare) / totalWeight
+      : 0
+    contributions[name] = contribution
+    return sum + contribution
+  }, 0)
+
+  if (distance === undefined) return { contributions, score, signals }
+
+  const proximity = 1 / (1 + distance / PROXIMITY_HALVING_METERS)
+  contributions.proximity = proximity * focusBlend
+  score += contributions.proximity
+
+  return { contributions, score, signals: { ...signals, proximity } }
+}
+
+/**
+ * Removes features which duplicate a feature of another source (see
+ * findDuplicateReason). The feature of the higher priority source is kept, or
+ * the richer one if both sources have the same priority, and is given any
+ * properties it's missing from its duplicate. Features farther than
+ * `maxDistance` from the focus point are removed if a higher priority source
+ * has results.
+ * @param responses           The responses to dedupe
+ * @param checkNameDuplicates Whether to remove features with similar names, unless a response has its own dedupe options
+ * @param focusPoint          Optional focus point, to remove far away features
+ * @param onDuplicate         Called with every feature which is dropped
+ * @returns                   The remaining features
+ */
+const dedupeResponses = (
+  responses: RankableResponse[],
+  checkNameDuplicates: boolean,
+  focusPoint?: LonLatOutput,
+  onDuplicate?: (dropped: DroppedDuplicate) => void
+): Candidate[] =>
+  // Sorting is stable, so sources of equal priority keep their order
+  [...responses]
+    .sort((a, b) => b.priority - a.priority)
+    .reduce<Candidate[]>((kept, { dedupe, priority, response, source }) => {
+      const features = response?.features || []
+      const options: Partial<DedupeOptions> = dedupe || { checkNameDuplicates }
+      const { maxDistance = DEFAULT_MAX_DISTANCE } = options
+      const preferred = kept.find(
+        (other) => other.source !== source && other.priority > priority
+      )
+
+      features.forEach((feature, position) => {
+        const candidate = {
+          count: features.length,
+          feature,
+          position,
+          priority,
+          source
+        }
+        const distance = getDistanceToFocusPoint(feature, focusPoint)
+        if (preferred && distance !== undefined && distance > maxDistance) {
+          onDuplicate?.({
+            feature,
+            keptFeature: preferred.feature,
+            keptSource: preferred.source,
+            reason: 'distance',
+            source
+          })
+          return
+        }
+        let duplicateIndex = -1
+        let reason: DuplicateReason | null = null
+        for (let index = 0; index < kept.length && !reason; index++) {
+          if (kept[index].source === source) continue
+          reason = findDuplicateReason(feature, kept[index].feature, options)
+          duplicateIndex = index
+        }
+        if (!reason) {
+          kept.push(candidate)
+          return
+        }
+
+        const duplicate = kept[duplicateIndex]
+        const [winner, loser] =
+          duplicate.priority === priority &&
+          getRichness(feature) > getRichness(duplicate.feature)
+            ? [candidate, duplicate]
+            : [duplicate, candidate]
+        kept[duplicateIndex] = {
+          ...winner,
+          feature: mergeDuplicate(winner.feature, loser.feature)
+        }
+        onDuplicate?.({
+          feature: loser.feature,
+          keptFeature: winner.feature,
+          keptSource: winner.source,
+          reason,
+          source: loser.source
+        })
+      })
+      return kept
+    }, [])
+
+/**
+ * Merges any number of geocoder responses into a single ranked response.
+ * Features which duplicate a feature of another source are removed (see
+ * dedupeResponses). The remaining features are ordered by a score which blends
+ * text relevance (source priority, confidence, layer and upstream position)
+ * with proximity to the focus point. Every feature is given a `properties.stitch` block explaining
+ * its score, and, if a focus point is given, `properties.distance` in km.
+ * @param responses           The responses to merge, in any order
+ * @param checkNameDuplicates Whether to remove features with similar names, unless a response has its own dedupe options
+ * @param focusPoint          Optional focus point used to rank by distance
+ * @param options             Weights of the relevance signals and the focus blend
+ * @param onDuplicate         Called with every feature which is dropped as a duplicate
+ * @returns                   A single Pelias response containing the ranked features
+ */
+export const mergeRankedResponses = (
+  responses: RankableResponse[],
+  checkNameDuplicates = true,
+  focusPoint?: LonLatOutput,
+  options: RankingOptions = DEFAULT_RANKING_OPTIONS,
+  onDuplicate?: (dropped: DroppedDuplicate) => void
+): FeatureCollection => {
+  const priorities = responses.map(({ priority }) => priority)
+  const minPriority = Math.min(...priorities)
+  const maxPriority = Math.max(...priorities)
+
+  const scored = dedupeResponses(
+    responses,
+    checkNameDuplicates,
+    focusPoint,
+    onDuplicate
+  ).map(({ count, feature, position, priority, source }): ScoredFeature => {
+    const sourceSignal =
+      maxPriority === minPriority
+        ? 1
+        : (priority - minPriority) / (maxPriority - minPriority)
+    const distance = getDistanceToFocusPoint(feature, focusPoint)
+    return {
+      ...scoreFeature(
+        getRelevanceSignals(
+          feature,
+          1 - position / count,
+          sourceSignal,
+          options.preferredLayers || PREFERRED_LAYERS
+        ),
+        distance,
+        options
+      ),
+      distance,
+      feature,
+      position,
+      priority,
+      source
+    }
+  })
+
+  // Ties are broken by source priority, then by the order the upstream returned
+  scored.sort(
+    (a, b) =>
+      b.score - a.score || b.priority - a.priority || a.position - b.position
+  )
+
+  // Top level fields (geocoding, bbox) describe the merged response, so they
+  // are left to the caller rather than copied from any one upstream
+  return {
+    features: scored.map(
+      (
+        { contributions, distance, feature, priority, score, signals, source },
+        index
+      ): Feature => {
+        const stitch: StitchExplanation = {
+          contributions,
+          rank: index + 1,
+          score,
+          signals,
+          source,
+          sourcePriority: priority
+        }
+        const properties: GeoJsonProperties = { ...feature.properties, stitch }
+        // Like Pelias, distance is given in km. Upstream geocoders don't agree
+        // on units, so their value is always replaced
+        if (distance !== undefined) {
+          properties.distance = Math.round(distance) / 1000
+        }
+        return { ...feature, properties }
+      }
+    ),
+    type: 'FeatureCollection'
+  }
+}
@@ -0,0 +1,329 @@
+import type { RequestLog } from './request-log'
+
+// Types
+/**
+ * How metrics are emitted: as CloudWatch Embedded Metric Format log lines, as
+ * Prometheus text for scraping, or not at all
+ */
+export type MetricsFormat = 'emf' | 'none' | 'prometheus'
+
+export type MetricsOptions = {
+  format: MetricsFormat
+  /** CloudWatch namespace of EMF metrics */
+  namespace: string
+}
+
+export type MetricName = keyof typeof METRIC_DEFINITIONS
+
+/** Dimensions (Prometheus labels) of a single value */
+export type Dimensions = Record<string, string>
+
+/**
+ * Collects counters and histograms, independently of the format they are
+ * emitted in
+ */
+export interface Metrics {
+  /**
+   * Called once a request is done. Formats which push metrics emit them here
+   */
+  flush: () => void
+  increment: (name: MetricName, dimensions?: Dimensions, value?: number) => void
+  observe: (name: MetricName, value: number, dimensions?: Dimensions) => void
+  /**
+   * @returns The metrics in Prometheus text format, or null if the format
+   *          doesn't support scraping
+   */
+  render: () => string | null
+}
+
+type MetricDefinition = {
+  help: string
+  type: 'counter' | 'histogram'
+  unit: 'Count' | 'Milliseconds'
+}
+
+type Histogram = {
+  /** Cumulative counts of values up to each of HISTOGRAM_BUCKETS_MS */
+  buckets: number[]
+  count: number
+  sum: number
+}
+
+// Consts
+export const METRIC_DEFINITIONS = {
+  stitcher_duplicates_total: {
+    help: 'Features dropped as duplicates of a feature of another source, by rule',
+    type: 'counter',
+    unit: 'Count'
+  },
+  stitcher_fallbacks_total: {
+    help: 'Requests to a source for which a fallback geocoder was requested, by reason',
+    type: 'counter',
+    unit: 'Count'
+  },
+  stitcher_request_duration_ms: {
+    help: 'Duration of stitched requests',
+    type: 'histogram',
+    unit: 'Milliseconds'
+  },
+  stitcher_requests_total: {
+    help: 'Stitched requests, by endpoint and status code',
+    type: 'counter',
+    unit: 'Count'
+  },
+  stitcher_source_duration_ms: {
+    help: 'Duration of requests to a source, including its fallbacks',
+    type: 'histogram',
+    unit: 'Milliseconds'
+  },
+  stitcher_source_errors_total: {
+    help: 'Failed requests to the geocoders of a source',
+    type: 'counter',
+    unit: 'Count'
+  }
+} as const
+
+const HISTOGRAM_BUCKETS_MS = [
+  10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000
+]
+
+const definitionOf = (name: MetricName): MetricDefinition =>
+  METRIC_DEFINITIONS[name]
+
+/**
+ * Dimensions are sorted so that the same set always produces the same key
+ */
+const makeSeriesKey = (dimensions: Dimensions): string =>
+  JSON.stringify(
+    Object.keys(dimensions)
+      .sort()
+      .map((key) => [key, dimensions[key]])
+  )
+
+const parseSeriesKey = (key: string): Dimensions =>
+  (JSON.parse(key) as [string, string][]).reduce<Dimensions>(
+    (dimensions, [name, value]) => {
+      dimensions[name] = value
+      return dimensions
+    },
+    {}
+  )
+
+const formatLabels = (dimensions: Dimensions): string => {
+  const labels = Object.keys(dimensions).map(
+    (name) =>
+      `${name}="${dimensions[name]
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')}"`
+  )
+  return labels.length ? `{${labels.join(',')}}` : ''
+}
+
+/**
+ * Discards every value
+ */
+export class NoMetrics implements Metrics {
+  flush(): void {
+    // Nothing to emit
+  }
+
+  increment(): void {
+    // Nothing to record
+  }
+
+  observe(): void {
+    // Nothing to record
+  }
+
+  render(): null {
+    return null
+  }
+}
+
+/**
+ * Aggregates values for the lifetime of the process, to be scraped in the
+ * Prometheus text format. Histograms use HISTOGRAM_BUCKETS_MS
+ */
+export class PrometheusMetrics implements Metrics {
+  private counters = new Map<MetricName, Map<string, number>>()
+  private histograms = new Map<MetricName, Map<string, Histogram>>()
+
+  flush(): void {
+    // Values are kept until they are scraped
+  }
+
+  increment(name: MetricName, dimensions: Dimensions = {}, value = 1): void {
+    const series = this.counters.get(name) || new Map<string, number>()
+    const key = makeSeriesKey(dimensions)
+    series.set(key, (series.get(key) || 0) + value)
+    this.counters.set(name, series)
+  }
+
+  observe(name: MetricName, value: number, dimensions: Dimensions = {}): void {
+    const series = this.histograms.get(name) || new Map<string, Histogram>()
+    const key = makeSeriesKey(dimensions)
+    const histogram = series.get(key) || {
+      buckets: HISTOGRAM_BUCKETS_MS.map(() => 0),
+      count: 0,
+      sum: 0
+    }
+    HISTOGRAM_BUCKETS_MS.forEach((bound, index) => {
+      if (value <= bound) histogram.buckets[index]++
+    })
+    histogram.count++
+    histogram.sum += value
+    series.set(key, histogram)
+    this.histograms.set(name, series)
+  }
+
+  render(): string {
+    const lines: string[] = []
+    const names = Object.keys(METRIC_DEFINITIONS) as MetricName[]
+    names.forEach((name) => {
+      const { help, type } = definitionOf(name)
+      const counters = this.counters.get(name)
+      const histograms = this.histograms.get(name)
+      if (!counters && !histograms) return
+
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+      counters?.forEach((value, key) => {
+        lines.push(`${name}${formatLabels(parseSeriesKey(key))} ${value}`)
+      })
+      histograms?.forEach(({ buckets, count, sum }, key) => {
+        const dimensions = parseSeriesKey(key)
+        HISTOGRAM_BUCKETS_MS.forEach((bound, index) => {
+          lines.push(
+            `${name}_bucket${formatLabels({
+              ...dimensions,
+              le: `${bound}`
+            })} ${buckets[index]}`
+          )
+        })
+        lines.push(
+          `${name}_bucket${formatLabels({
+            ...dimensions,
+            le: '+Inf'
+          })} ${count}`,
+          `${name}_sum${formatLabels(dimensions)} ${sum}`,
+          `${name}_count${formatLabels(dimensions)} ${count}`
+        )
+      })
+    })
+    return lines.length ? `${lines.join('\n')}\n` : ''
+  }
+}
+
+/**
+ * Buffers values until the request is done, then logs them as CloudWatch
+ * Embedded Metric Format documents, one per set of dimensions. CloudWatch
+ * extracts the metrics from the Lambda logs, so nothing is sent directly
+ */
+export class EmfMetrics implements Metrics {
+  private namespace: string
+  private pending = new Map<string, Map<MetricName, number[]>>()
+
+  constructor(namespace: string) {
+    this.namespace = namespace
+  }
+
+  private add(name: MetricName, value: number, dimensions: Dimensions) {
+    const key = makeSeriesKey(dimensions)
+    const values = this.pending.get(key) || new Map<MetricName, number[]>()
+    values.set(name, [...(values.get(name) || []), value])
+    this.pending.set(key, values)
+  }
+
+  flush(): void {
+    const timestamp = Date.now()
+    this.pending.forEach((values, key) => {
+      const dimensions = parseSeriesKey(key)
+      const document: Record<string, unknown> = { ...dimensions }
+      const metrics: { Name: string; Unit: string }[] = []
+      values.forEach((observed, name) => {
+        metrics.push({ Name: name, Unit: definitionOf(name).unit })
+        // Counters are summed, histograms keep every value for CloudWatch to
+        // compute percentiles from
+        document[name] =
+          definitionOf(name).type === 'counter'
+            ? observed.reduce((sum, value) => sum + value, 0)
+            : observed
+      })
+      document._aws = {
+        CloudWatchMetrics: [
+          {
+            Dimensions: [Object.keys(dimensions).sort()],
+            Metrics: metrics,
+            Namespace: this.namespace
+          }
+        ],
+        Timestamp: timestamp
+      }
+      console.log(JSON.stringify(document))
+    })
+    this.pending.clear()
+  }
+
+  increment(name: MetricName, dimensions: Dimensions = {}, value = 1): void {
+    this.add(name, value, dimensions)
+  }
+
+  observe(name: MetricName, value: number, dimensions: Dimensions = {}): void {
+    this.add(name, value, dimensions)
+  }
+
+  render(): null {
+    return null
+  }
+}
+
+/**
+ * Creates the metrics of the configured format
+ * @param options The metrics options
+ * @returns       The metrics
+ */
+export const makeMetrics = ({ format, namespace }: MetricsOptions): Metrics => {
+  if (format === 'emf') return new EmfMetrics(namespace)
+  if (format === 'prometheus') return new PrometheusMetrics()
+  return new NoMetrics()
+}
+
+/**
+ * Turns what happened during a request into metrics
+ * @param metrics The metrics to record to
+ * @param log     The log of the request
+ */
+export const recordRequestMetrics = (
+  metrics: Metrics,
+  log: RequestLog
+): void => {
+  const { durationMs, duplicates, endpoint, sources, statusCode } = log
+  metrics.increment('stitcher_requests_total', {
+    endpoint,
+    status: `${statusCode}`
+  })
+  metrics.observe('stitcher_request_duration_ms', durationMs, { endpoint })
+  Object.keys(duplicates).forEach((reason) => {
+    metrics.increment(
+      'stitcher_duplicates_total',
+      { reason },
+      duplicates[reason as keyof typeof duplicates]
+    )
+  })
+  sources.forEach(({ durationMs, errorCount, fallbackReason, name }) => {
+    metrics.observe('stitcher_source_duration_ms', durationMs, { source: name })
+    if (errorCount) {
+      metrics.increment(
+        'stitcher_source_errors_total',
+        { source: name },
+        errorCount
+      )
+    }
+    if (fallbackReason) {
+      metrics.increment('stitcher_fallbacks_total', {
+        reason: fallbackReason,
+        source: name
+      })
+    }
+  })
+}
@@ -0,0 +1,266 @@
+import { tokenize } from './text'
+import { PREFERRED_LAYERS } from './utils'
+
+// Types
+/**
+ * The text of a request as it passes through the normalization steps, with
+ * what the steps learned about it
+ */
+export type NormalizedText = {
+  /** Layers results are biased towards, most preferred first */
+  preferredLayers?: string[]
+  /**
+   * Name of a source which is queried on its own first. The other sources are
+   * only queried if it has no results
+   */
+  preferredSource?: string
+  /**
+   * Text only the primary geocoder of the preferred source is sent, such as a
+   * bare stop code. Every other geocoder is sent `text`
+   */
+  preferredSourceText?: string
+  text: string
+}
+
+/**
+ * A single step of the pipeline. Steps are pure, and return a new value
+ */
+export type NormalizationStep = (query: NormalizedText) => NormalizedText
+
+/**
+ * A step as it appears in the configuration. `type` selects the step, all
+ * other fields are options of the step
+ */
+export type NormalizationStepConfig = {
+  type: string
+  [option: string]: unknown
+}
+
+export type NormalizationConfig = {
+  /** Steps applied to the text of every request, in order */
+  steps: NormalizationStepConfig[]
+  /**
+   * Steps applied to the text only before it is sent to geocoders of a type,
+   * after the shared steps. `default` applies to every other type
+   */
+  variants: Record<string, NormalizationStepConfig[]>
+}
+
+export type Normalizer = {
+  /**
+   * @param text  The text of the request
+   * @returns     The text after every shared step, and what was learned about it
+   */
+  normalize: (text: string) => NormalizedText
+  /**
+   * @param geocoderType  The type of the geocoder the text is sent to
+   * @param text          The normalized text
+   * @returns             The text as that type of geocoder understands it best
+   */
+  variant: (geocoderType: string | undefined, text: string) => string
+}
+
+// Consts
+/** Words which mark one side of an intersection as a street */
+const STREET_TYPES = [
+  'avenue',
+  'boulevard',
+  'court',
+  'drive',
+  'highway',
+  'lane',
+  'parkway',
+  'place',
+  'road',
+  'square',
+  'street',
+  'way'
+]
+const DEFAULT_INTERSECTION_SEPARATORS = ['&', '@', '/', 'at']
+/** "#1234", "stop 1234", "stop #1234", "stop code 1234" or "stop id 1234" */
+const DEFAULT_STOP_CODE_PATTERN =
+  '^(?:#\\s*|stop\\s*(?:code|id|number|no\\.?)?\\s*#?\\s*)(\\d[\\w-]*)$'
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+
+/**
+ * Moves a layer to the front of the preferred layers
+ */
+const preferLayer = (layer: string, layers = PREFERRED_LAYERS): string[] => [
+  layer,
+  ...layers.filter((other) => other !== layer)
+]
+
+const looksLikeStreet = (text: string): boolean =>
+  /\d/.test(text) ||
+  tokenize(text).some((token) => STREET_TYPES.includes(token))
+
+const stepFactories: Record<
+  string,
+  (options: Record<string, unknown>) => NormalizationStep
+> = {
+  /**
+   * Rewrites "Main & 5th", "Main/5th", "Main @ 5th" and "Main St at 5th Ave" to
+   * "Main and 5th", which Pelias parses as an intersection, and ranks
+   * intersections first. At least one side must look like a street (contain a
+   * number or a street type), so that "Barnes & Noble" is left alone. Words
+   * such as "at" also join venues and places, as in "Coffee at the Park" or
+   * "Cafe at 5th Ave", so with them both sides must look like streets
+   */
+  intersection: ({ separators = DEFAULT_INTERSECTION_SEPARATORS }) => {
+    const isWord = (separator: string) => /^\w+$/.test(separator)
+    const pattern = new RegExp(
+      `^(.*?[a-z].*?)\\s*(?:${(separators as string[])
+        .map((separator) =>
+          isWord(separator)
+            ? `(\\s${escapeRegExp(separator)}\\s)`
+            : escapeRegExp(separator)
+        )
+        .join('|')})\\s*(.*[a-z].*)$`,
+      'i'
+    )
+    return (query) => {
+      const match = query.text.match(pattern)
+      if (!match) return query
+      const [first, last] = [match[1], match[match.length - 1]]
+      // Only word separators are captured
+      const byWord = match.slice(2, -1).some((group) => group !== undefined)
+      const streets = [first, last].filter(looksLikeStreet).length
+      if (streets < (byWord ? 2 : 1)) return query
+      return {
+        ...query,
+        preferredLayers: preferLayer('intersection', query.preferredLayers),
+        text: `${first.trim()} and ${last.trim()}`
+      }
+    }
+  },
+  /**
+   * Replaces every match of a regular expression, for example to remove
+   * characters a geocoder can't handle
+   */
+  replace: ({ flags = 'g', pattern, replacement = ' ' }) => {
+    const regExp = new RegExp(pattern as string, flags as string)
+    return (query) => ({
+      ...query,
+      text: query.text.replace(regExp, replacement as string)
+    })
+  },
+  /**
+   * Recognizes transit stop codes, queries the given source first with the bare
+   * code, and ranks stops first. `pattern` must capture the code. Other sources
+   * and fallbacks may not know stop codes, so their text is left as it is
+   */
+  stopCode: ({ pattern = DEFAULT_STOP_CODE_PATTERN, source }) => {
+    const regExp = new RegExp(pattern as string, 'i')
+    return (query) => {
+      const match = query.text.match(regExp)
+      if (!match) return query
+      return {
+        ...query,
+        preferredLayers: preferLayer('stops', query.preferredLayers),
+        preferredSource: source as string | undefined,
+        preferredSourceText: match[1]
+      }
+    }
+  },
+  /**
+   * Replaces lookalike characters (full width letters, ligatures, typographic
+   * quotes and dashes) with their plain equivalents and removes invisible ones
+   */
+  unicode: () => (query) => ({
+    ...query,
+    text: query.text
+      .normalize('NFKC')
+      .replace(/[\u2018\u2019\u201b\u2032]/g, "'")
+      .replace(/[\u201c\u201d\u201f\u2033]/g, '"')
+      .replace(/[\u2010-\u2015\u2212]/g, '-')
+      // Zero width characters, byte order marks and control characters
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u001f\u007f\u200b-\u200d\u2060\ufeff]/g, ' ')
+  }),
+  /** Collapses whitespace and trims the text */
+  whitespace: () => (query) => ({
+    ...query,
+    text: query.text.replace(/\s+/g, ' ').trim()
+  })
+}
+
+/**
+ * By default, text is cleaned up and intersections and stop codes are
+ * recognized. Pelias fails to answer queries containing `@` or `&`, so they are
+ * removed for every geocoder but HERE, which understands them
+ */
+export const DEFAULT_NORMALIZATION_CONFIG: NormalizationConfig = {
+  steps: [
+    { type: 'unicode' },
+    { type: 'whitespace' },
+    { type: 'intersection' },
+    { type: 'stopCode' }
+  ],
+  variants: {
+    default: [{ pattern: '[@&]', replacement: ' ', type: 'replace' }],
+    HERE: []
+  }
+}
+
+/**
+ * Adds a step which can be used in the configuration, or replaces a built-in one
+ * @param type    The name of the step
+ * @param factory Creates the step from its options in the configuration
+ */
+export const registerNormalizationStep = (
+  type: string,
+  factory: (options: Record<string, unknown>) => NormalizationStep
+): void => {
+  stepFactories[type] = factory
+}
+
+/**
+ * @returns The names of every step which can be used in the configuration
+ */
+export const getNormalizationStepTypes = (): string[] =>
+  Object.keys(stepFactories)
+
+/**
+ * Builds a single step out of configured steps, applying them in order
+ * @param steps The steps as they appear in the configuration
+ * @returns     A function applying every step
+ * @throws      If a step is unknown or its options are invalid
+ */
+const makePipeline = (steps: NormalizationStepConfig[]): NormalizationStep => {
+  const pipeline = steps.map(({ type, ...options }) => {
+    const factory = stepFactories[type]
+    if (!factory) throw new Error(`Unknown normalization step ${type}`)
+    return factory(options)
+  })
+  return (query) => pipeline.reduce((result, step) => step(result), query)
+}
+
+/**
+ * Builds the normalization pipeline and the variants of every geocoder type
+ * @param config  The normalization configuration
+ * @returns       The normalizer
+ * @throws        If a step is unknown or its options are invalid
+ */
+export const makeNormalizer = ({
+  steps,
+  variants
+}: NormalizationConfig): Normalizer => {
+  const normalize = makePipeline(steps)
+  const variantPipelines: Record<string, NormalizationStep> = {}
+  Object.keys(variants).forEach((type) => {
+    variantPipelines[type] = makePipeline(variants[type])
+  })
+  const noVariant: NormalizationStep = (query) => query
+
+  return {
+    normalize: (text) => normalize({ text }),
+    variant: (geocoderType, text) =>
+      (
+        (geocoderType && variantPipelines[geocoderType]) ||
+        variantPipelines.default ||
+        noVariant
+      )({ text }).text
+  }
+}
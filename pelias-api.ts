@@ -0,0 +1,410 @@
+import { URLSearchParams } from 'url'
+
+import getGeocoder from '@opentripplanner/geocoder'
+import { normalize } from '@conveyal/lonlat'
+import fetch, { RequestInit } from 'node-fetch'
+import type { FeatureCollection } from 'geojson'
+import type { OfflineResponse } from '@opentripplanner/geocoder/lib/apis/offline'
+import type {
+  AnyGeocoderQuery,
+  GeocoderConfig
+} from '@opentripplanner/geocoder/lib/geocoders/types'
+
+import { DEFAULT_POI_RADIUS_KM, Poi, PoiIndex } from './poi-index'
+
+// Types
+/**
+ * A geocoder query which may also contain parameters of Pelias endpoints the
+ * geocoder package doesn't support
+ */
+export type StitchQuery = AnyGeocoderQuery & {
+  /** Only return results within this many km of a point */
+  boundaryCircle?: { lat: number; lon: number; radius: number }
+  /** Only return results within the place with this gid */
+  boundaryGid?: string
+  /** Comma separated list of categories results must have one of */
+  categories?: string
+  /** gids for the place endpoint */
+  ids?: string[]
+  /** Preferred language of results */
+  lang?: string
+  /** The POIs OFFLINE geocoders search */
+  poiIndex?: PoiIndex
+  /** Address components for the structured search endpoint */
+  structured?: Record<string, string>
+}
+
+/** Fetch options as the geocoder package takes them, typed for the built-in fetch */
+type FetchOptions = NonNullable<StitchQuery['options']>
+type FetchHeaders = NonNullable<FetchOptions['headers']>
+
+export type StitchGeocoderConfig = GeocoderConfig & {
+  name?: string
+  type?: string
+}
+
+export type StitchGeocoder = {
+  autocomplete: (query: StitchQuery) => Promise<FeatureCollection>
+  geocoderConfig: StitchGeocoderConfig
+  nearby: (query: StitchQuery) => Promise<FeatureCollection>
+  place: (query: StitchQuery) => Promise<FeatureCollection>
+  reverse: (query: StitchQuery) => Promise<FeatureCollection>
+  search: (query: StitchQuery) => Promise<FeatureCollection>
+  structured: (query: StitchQuery) => Promise<FeatureCollection>
+}
+
+// Consts
+/**
+ * Query parameters the geocoder package doesn't pass on to Pelias. If a query
+ * contains any of them, Pelias is queried natively instead
+ */
+const NATIVE_PELIAS_PARAMETERS: (keyof StitchQuery)[] = [
+  'boundaryCircle',
+  'boundaryGid',
+  'categories',
+  'lang'
+]
+
+/**
+ * Address components accepted by Pelias' structured search, from most to least
+ * specific. See https://github.com/pelias/documentation/blob/master/structured-geocoding.md
+ */
+export const STRUCTURED_PARAMETERS = [
+  'address',
+  'neighbourhood',
+  'borough',
+  'locality',
+  'county',
+  'region',
+  'postalcode',
+  'country'
+]
+
+/**
+ * Converts a geocoder query into Pelias query parameters, the same way
+ * isomorphic-mapzen-search does for the endpoints it supports
+ * @param query The geocoder query
+ * @returns     Pelias query parameters
+ */
+export const convertQueryToPeliasParams = (
+  query: StitchQuery
+): Record<string, string> => {
+  const {
+    boundary,
+    boundaryCircle,
+    boundaryGid,
+    categories,
+    focusPoint,
+    lang,
+    layers,
+    point,
+    size,
+    sources,
+    text
+  } = query
+  const params: Record<string, string> = {}
+
+  if (text) params.text = text
+  if (size) params.size = `${size}`
+  if (layers) params.layers = layers
+  if (sources) params.sources = sources
+  if (lang) params.lang = lang
+  if (categories) params.categories = categories
+  if (focusPoint) {
+    const { lat, lon } = normalize(focusPoint)
+    params['focus.point.lat'] = `${lat}`
+    params['focus.point.lon'] = `${lon}`
+  }
+  if (point) {
+    const { lat, lon } = normalize(point)
+    params['point.lat'] = `${lat}`
+    params['point.lon'] = `${lon}`
+  }
+  if (boundary?.country) params['boundary.country'] = boundary.country
+  if (boundary?.rect) {
+    params['boundary.rect.min_lat'] = `${boundary.rect.minLat}`
+    params['boundary.rect.min_lon'] = `${boundary.rect.minLon}`
+    params['boundary.rect.max_lat'] = `${boundary.rect.maxLat}`
+    params['boundary.rect.max_lon'] = `${boundary.rect.maxLon}`
+  }
+  if (boundaryCircle) {
+    params['boundary.circle.lat'] = `${boundaryCircle.lat}`
+    params['boundary.circle.lon'] = `${boundaryCircle.lon}`
+    params['boundary.circle.radius'] = `${boundaryCircle.radius}`
+  }
+  if (boundaryGid) params['boundary.gid'] = boundaryGid
+
+  return params
+}
+
+/**
+ * Checks whether headers are a Headers object rather than a plain object
+ */
+const isHeadersObject = (
+  headers: FetchHeaders
+): headers is Extract<FetchHeaders, { forEach: unknown }> =>
+  typeof (headers as { forEach?: unknown }).forEach === 'function'
+
+/**
+ * Converts the fetch options of a geocoder config or query to node-fetch
+ * options. Pelias is only sent GET requests, so only the headers and the abort
+ * signal are needed
+ * @param options Options typed for the built-in fetch
+ * @returns       The same options, typed for node-fetch
+ */
+export const toNodeFetchOptions = ({
+  headers,
+  signal
+}: FetchOptions): RequestInit => {
+  const nodeHeaders: Record<string, string> = {}
+  const append = (name: string, value: string) => {
+    nodeHeaders[name] =
+      name in nodeHeaders ? `${nodeHeaders[name]}, ${value}` : value
+  }
+  if (Array.isArray(headers)) {
+    headers.forEach(([name, value]) => append(name, value))
+  } else if (headers && isHeadersObject(headers)) {
+    headers.forEach((value, name) => append(name, value))
+  } else if (headers) {
+    const record = headers
+    Object.keys(record).forEach((name) => {
+      const value = record[name]
+      append(
+        name,
+        typeof value === 'string' ? value : Array.from(value).join(', ')
+      )
+    })
+  }
+  return { headers: nodeHeaders, ...(signal && { signal }) }
+}
+
+/**
+ * Makes a request to an endpoint of a Pelias geocoder directly, bypassing the
+ * geocoder package
+ * @param geocoderConfig  Config of a geocoder of type PELIAS
+ * @param endpoint        The endpoint, e.g. `place` or `search/structured`
+ * @param params          Query parameters
+ * @param options         Options passed to fetch
+ * @returns               The Pelias response
+ */
+export const peliasRequest = async (
+  geocoderConfig: StitchGeocoderConfig,
+  endpoint: string,
+  params: Record<string, string>,
+  options?: RequestInit
+): Promise<FeatureCollection> => {
+  const { apiKey, baseUrl } = geocoderConfig
+  if (!baseUrl) {
+    throw new Error(`baseUrl is required to use the ${endpoint} endpoint`)
+  }
+
+  const query = new URLSearchParams(params)
+  if (apiKey) query.set('api_key', apiKey)
+
+  const response = await fetch(
+    `${baseUrl}/${endpoint}?${query.toString()}`,
+    options
+  )
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Joins structured address components into a single line of text, for geocoders
+ * which don't support structured search
+ * @param structured  The address components
+ * @returns           The components joined from most to least specific
+ */
+export const makeStructuredQueryText = (
+  structured: Record<string, string> = {}
+): string =>
+  STRUCTURED_PARAMETERS.map((parameter) => structured[parameter])
+    .filter((value) => !!value)
+    .join(', ')
+
+/**
+ * Checks whether a Pelias geocoder can look up a gid. Gids of offline items and
+ * GTFS stops only exist in the stitcher, and geocoders restricted to some
+ * sources only know about those sources
+ * @param gid             The gid, in the form `source:layer:id`
+ * @param geocoderConfig  Config of a geocoder of type PELIAS
+ * @returns               True if the gid should be sent to the geocoder
+ */
+export const isPeliasGid = (
+  gid: string,
+  geocoderConfig: StitchGeocoderConfig
+): boolean => {
+  const [source] = gid.split(':')
+  if (source === 'offline' || source === 'gtfs') return false
+  if (!geocoderConfig.sources) return true
+  return geocoderConfig.sources.split(',').includes(source)
+}
+
+const stitchGeocoders = new Map<StitchGeocoderConfig, StitchGeocoder>()
+
+/**
+ * Wraps a geocoder from the geocoder package so that it supports every Pelias
+ * endpoint the stitcher exposes. Pelias geocoders are queried natively. Other
+ * geocoders fall back to the closest endpoint they do support: structured
+ * search becomes a regular search and nearby becomes a reverse request. Place
+ * lookups are supported by Pelias geocoders. OFFLINE geocoders support every
+ * endpoint, using the POI index passed with the query.
+ * @param geocoderConfig  The geocoder config
+ * @returns               The wrapped geocoder. Wrapped geocoders are memoized per config object
+ */
+export const getStitchGeocoder = (
+  geocoderConfig: StitchGeocoderConfig
+): StitchGeocoder => {
+  const memoized = stitchGeocoders.get(geocoderConfig)
+  if (memoized) return memoized
+
+  const geocoder = getGeocoder(geocoderConfig)
+  const isOffline = geocoderConfig?.type === 'OFFLINE'
+  const isPelias = geocoderConfig?.type === 'PELIAS'
+  // The geocoder package passes unknown parameters on to some APIs
+  const withoutExtras = (query: StitchQuery): AnyGeocoderQuery => {
+    const geocoderQuery = { ...query }
+    NATIVE_PELIAS_PARAMETERS.forEach((parameter) => {
+      delete geocoderQuery[parameter]
+    })
+    delete geocoderQuery.ids
+    delete geocoderQuery.poiIndex
+    delete geocoderQuery.structured
+    return geocoderQuery
+  }
+  // Options of a query, such as an abort signal, are added to those configured
+  const fetchOptions = (query: StitchQuery): RequestInit =>
+    toNodeFetchOptions({ ...geocoderConfig.options, ...query.options })
+  // Queries Pelias natively if the geocoder package would drop some parameters,
+  // with the same defaults from the config the geocoder package uses
+  const textRequest =
+    (endpoint: 'autocomplete' | 'search') => (query: StitchQuery) => {
+      if (
+        !isPelias ||
+        !NATIVE_PELIAS_PARAMETERS.some((parameter) => query[parameter])
+      ) {
+        return geocoder[endpoint](withoutExtras(query))
+      }
+      const { boundary, focusPoint, layers, sources } = geocoderConfig
+      return peliasRequest(
+        geocoderConfig,
+        endpoint,
+        convertQueryToPeliasParams({
+          boundary,
+          focusPoint,
+          layers,
+          sources,
+          ...query
+        }),
+        fetchOptions(query)
+      )
+    }
+
+  // POIs are searched with their index rather than by the geocoder package,
+  // which only supports autocomplete and scans every POI
+  const toOfflineResponse = (pois: Poi[]) =>
+    geocoder.rewriteAutocompleteResponse(pois as unknown as OfflineResponse)
+  const offlineTextRequest =
+    (prefix: boolean) =>
+    async ({ poiIndex, size, structured, text }: StitchQuery) =>
+      toOfflineResponse(
+        poiIndex?.searchText(
+          structured ? makeStructuredQueryText(structured) : text || '',
+          size,
+          prefix
+        ) || []
+      )
+  const offlinePointRequest = async ({
+    boundaryCircle,
+    point,
+    poiIndex,
+    size
+  }: StitchQuery) => {
+    const { lat, lon } = normalize(point)
+    return toOfflineResponse(
+      (
+        poiIndex?.nearest(
+          lat,
+          lon,
+          boundaryCircle?.radius || DEFAULT_POI_RADIUS_KM,
+          size
+        ) || []
+      ).map(({ poi }) => poi)
+    )
+  }
+  if (isOffline) {
+    const offlineGeocoder: StitchGeocoder = {
+      autocomplete: offlineTextRequest(true),
+      geocoderConfig,
+      nearby: offlinePointRequest,
+      place: async ({ ids = [], poiIndex }) =>
+        toOfflineResponse(
+          ids.map((id) => poiIndex?.get(id)).filter((poi): poi is Poi => !!poi)
+        ),
+      reverse: offlinePointRequest,
+      search: offlineTextRequest(false),
+      structured: offlineTextRequest(false)
+    }
+    stitchGeocoders.set(geocoderConfig, offlineGeocoder)
+    return offlineGeocoder
+  }
+
+  const stitchGeocoder: StitchGeocoder = {
+    autocomplete: textRequest('autocomplete'),
+    geocoderConfig,
+    nearby: (query) =>
+      isPelias
+        ? peliasRequest(
+            geocoderConfig,
+            'nearby',
+            convertQueryToPeliasParams(query),
+            fetchOptions(query)
+          )
+        : geocoder.reverse(withoutExtras(query)),
+    place: async (query) => {
+      const ids = (query.ids || []).filter(
+        (id) => isPelias && isPeliasGid(id, geocoderConfig)
+      )
+      if (!ids.length) return { features: [], type: 'FeatureCollection' }
+
+      return peliasRequest(
+        geocoderConfig,
+        'place',
+        { ids: ids.join(','), ...(query.lang && { lang: query.lang }) },
+        fetchOptions(query)
+      )
+    },
+    // Like text requests, queried natively if the geocoder package would drop
+    // some parameters, such as the language of results
+    reverse: (query) =>
+      isPelias && NATIVE_PELIAS_PARAMETERS.some((parameter) => query[parameter])
+        ? peliasRequest(
+            geocoderConfig,
+            'reverse',
+            convertQueryToPeliasParams(query),
+            fetchOptions(query)
+          )
+        : geocoder.reverse(withoutExtras(query)),
+    search: textRequest('search'),
+    structured: (query) =>
+      isPelias
+        ? peliasRequest(
+            geocoderConfig,
+            'search/structured',
+            {
+              ...convertQueryToPeliasParams({ ...query, text: undefined }),
+              ...query.structured
+            },
+            fetchOptions(query)
+          )
+        : geocoder.search({
+            ...withoutExtras(query),
+            text: makeStructuredQueryText(query.structured)
+          })
+  }
+
+  stitchGeocoders.set(geocoderConfig, stitchGeocoder)
+  return stitchGeocoder
+}
@@ -0,0 +1,524 @@
+import { promises as fs } from 'fs'
+import { extname } from 'path'
+
+import { getDistance } from 'geolib'
+import fetch from 'node-fetch'
+import type { FeatureCollection } from 'geojson'
+
+import { tokenize } from './text'
+
+// Types
+export type PoiFormat = 'csv' | 'geojson' | 'json'
+
+/**
+ * A validated POI. Besides the fields below, POIs may have any other
+ * properties, which are passed on to results
+ */
+export type Poi = {
+  /** Other names the POI can be found by */
+  aliases?: string[]
+  /** Unique, used by the place endpoint */
+  gid: string
+  label: string
+  lat: number
+  lon: number
+  [property: string]: unknown
+}
+
+export type PoiOptions = {
+  /** Inferred from the extension, or from the content if there is none */
+  format?: PoiFormat
+  /** Path to a file or http(s) URL. If null, the bundled pois.json is used */
+  location: string | null
+  /** How often the POIs are reloaded. If null, they are loaded once */
+  reloadSeconds: number | null
+}
+
+/**
+ * Thrown if POIs can't be loaded or don't match the schema
+ */
+export class PoiError extends Error {
+  constructor(problems: string[]) {
+    super(
+      `Error: invalid POIs:\n${problems
+        .map((problem) => `- ${problem}`)
+        .join('\n')}`
+    )
+    this.name = 'PoiError'
+    // Required for instanceof to work when compiling to ES5
+    Object.setPrototypeOf(this, PoiError.prototype)
+  }
+}
+
+// Consts
+/** Size of a spatial index cell in degrees, roughly 1km */
+const CELL_SIZE_DEGREES = 0.01
+const METERS_PER_DEGREE = 111320
+/** Reverse and nearby requests without a radius only return POIs this close */
+export const DEFAULT_POI_RADIUS_KM = 1
+const DEFAULT_SIZE = 10
+
+/**
+ * Splits CSV into rows of fields. Supports quoted fields containing commas,
+ * line breaks and escaped ("") quotes
+ */
+export const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) rows.push([...row, field])
+  // Blank lines carry no POIs
+  return rows.filter((fields) => fields.some((value) => value.trim()))
+}
+
+/**
+ * Converts CSV with a header row to records. `name` is accepted instead of
+ * `label`, and `aliases` are separated by `|`
+ */
+const parseCsv = (content: string): Record<string, unknown>[] => {
+  const [header = [], ...rows] = parseCsvRows(content)
+  const columns = header.map((column) => column.trim())
+  return rows.map((fields) =>
+    columns.reduce<Record<string, unknown>>((record, column, index) => {
+      const value = (fields[index] || '').trim()
+      if (!value) return record
+      record[column] =
+        column === 'aliases'
+          ? value.split('|').map((alias) => alias.trim())
+          : value
+      return record
+    }, {})
+  )
+}
+
+/**
+ * Converts the point features of a GeoJSON FeatureCollection to records
+ */
+const parseGeoJson = ({
+  features
+}: FeatureCollection): Record<string, unknown>[] =>
+  (features || []).map(({ geometry, properties }) => {
+    const [lon, lat] =
+      geometry?.type === 'Point' ? geometry.coordinates : [undefined]
+    return { ...properties, lat, lon }
+  })
+
+/**
+ * Converts parsed JSON POIs, either an array of POIs or a GeoJSON
+ * FeatureCollection, to records
+ * @param parsed  The parsed JSON
+ * @returns       The records, which are not validated yet
+ */
+export const convertJsonPois = (parsed: unknown): Record<string, unknown>[] => {
+  if (Array.isArray(parsed)) return parsed
+  if (
+    parsed &&
+    typeof parsed === 'object' &&
+    (parsed as Record<string, unknown>).type === 'FeatureCollection'
+  ) {
+    return parseGeoJson(parsed as FeatureCollection)
+  }
+  // Serverless is not great about null, so an empty object means no POIs
+  if (parsed && !Object.keys(parsed as object).length) return []
+  throw new PoiError(['POIs must be an array or a GeoJSON FeatureCollection'])
+}
+
+/**
+ * Parses the content of a POI file, in any supported format
+ * @param content The file content
+ * @param format  The format. If not given, it is inferred from the content
+ * @returns       The records, which are not validated yet
+ */
+export const parsePois = (
+  content: string,
+  format?: PoiFormat
+): Record<string, unknown>[] => {
+  const trimmed = content.trim()
+  const isJson = trimmed.startsWith('[') || trimmed.startsWith('{')
+  if (format === 'csv' || (!format && !isJson)) return parseCsv(content)
+
+  try {
+    return convertJsonPois(JSON.parse(content))
+  } catch (e) {
+    if (e instanceof PoiError) throw e
+    throw new PoiError([`POIs are not valid JSON: ${(e as Error).message}`])
+  }
+}
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'string' && value.trim() ? Number(value) : (value as number)
+
+/**
+ * Checks every record against the POI schema. Coordinates given as strings are
+ * converted to numbers, `name` is accepted instead of `label` and `synonyms`
+ * (as used by the geocoder package) instead of `aliases`. POIs without a gid
+ * are given one based on their id or position
+ * @param records The parsed records
+ * @returns       The validated POIs
+ * @throws        PoiError listing every problem found
+ */
+export const validatePois = (records: Record<string, unknown>[]): Poi[] => {
+  const problems: string[] = []
+  const pois = records.map((record, index) => {
+    const path = `pois[${index}]`
+    if (!record || typeof record !== 'object') {
+      problems.push(`${path} must be an object`)
+      return {} as Poi
+    }
+    const {
+      aliases = record.synonyms,
+      gid,
+      id,
+      label = record.name,
+      lat,
+      lon,
+      ...properties
+    } = record
+    delete properties.synonyms
+    const parsedLat = toNumber(lat)
+    const parsedLon = toNumber(lon)
+
+    if (typeof label !== 'string' || !label.trim()) {
+      problems.push(`${path}.label is required`)
+    }
+    if (typeof parsedLat !== 'number' || !(Math.abs(parsedLat) <= 90)) {
+      problems.push(`${path}.lat must be a number between -90 and 90`)
+    }
+    if (typeof parsedLon !== 'number' || !(Math.abs(parsedLon) <= 180)) {
+      problems.push(`${path}.lon must be a number between -180 and 180`)
+    }
+    if (
+      aliases !== undefined &&
+      (!Array.isArray(aliases) ||
+        aliases.some((alias) => typeof alias !== 'string'))
+    ) {
+      problems.push(`${path}.aliases must be an array of strings`)
+    }
+    if (gid !== undefined && typeof gid !== 'string') {
+      problems.push(`${path}.gid must be a string`)
+    }
+
+    return {
+      ...properties,
+      ...(aliases ? { aliases: aliases as string[] } : {}),
+      ...(id !== undefined ? { id } : {}),
+      gid: (gid as string) || `offline:poi:${id ?? index}`,
+      label: label as string,
+      lat: parsedLat,
+      lon: parsedLon
+    }
+  })
+
+  const gids = pois.map(({ gid }) => gid)
+  gids
+    .filter((gid, index) => gid && gids.indexOf(gid) !== index)
+    .forEach((gid) => problems.push(`gid ${gid} is not unique`))
+
+  if (problems.length) throw new PoiError(problems)
+  return pois
+}
+
+const getCellKey = (x: number, y: number) => `${x}:${y}`
+
+/**
+ * In-memory index of POIs. Text queries use an inverted index of the words of
+ * every label and alias, sorted so that prefixes can be found by binary search.
+ * Point queries use a grid of CELL_SIZE_DEGREES cells
+ */
+export class PoiIndex {
+  readonly loadedAt = Date.now()
+  readonly pois: Poi[]
+  private byGid = new Map<string, Poi>()
+  private cells = new Map<string, number[]>()
+  private postings = new Map<string, number[]>()
+  private words: string[]
+
+  constructor(pois: Poi[]) {
+    this.pois = pois
+    pois.forEach((poi, index) => {
+      this.byGid.set(poi.gid, poi)
+
+      const cellKey = getCellKey(
+        Math.floor(poi.lon / CELL_SIZE_DEGREES),
+        Math.floor(poi.lat / CELL_SIZE_DEGREES)
+      )
+      this.cells.set(cellKey, [...(this.cells.get(cellKey) || []), index])
+
+      const words = tokenize([poi.label, ...(poi.aliases || [])].join(' '))
+      words
+        .filter((word, wordIndex) => words.indexOf(word) === wordIndex)
+        .forEach((word) => {
+          this.postings.set(word, [...(this.postings.get(word) || []), index])
+        })
+    })
+    this.words = Array.from(this.postings.keys()).sort()
+  }
+
+  get size(): number {
+    return this.pois.length
+  }
+
+  /**
+   * @returns The POI with the given gid, if there is one
+   */
+  get(gid: string): Poi | undefined {
+    return this.byGid.get(gid)
+  }
+
+  /**
+   * @returns Every indexed word starting with the prefix
+   */
+  private wordsStartingWith(prefix: string): string[] {
+    let low = 0
+    let high = this.words.length
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      if (this.words[middle] < prefix) low = middle + 1
+      else high = middle
+    }
+    const matches: string[] = []
+    for (
+      let index = low;
+      index < this.words.length && this.words[index].startsWith(prefix);
+      index++
+    ) {
+      matches.push(this.words[index])
+    }
+    return matches
+  }
+
+  /**
+   * Finds POIs whose label or aliases contain every word of the text. Exact
+   * word matches score higher than prefix matches, and POIs whose label starts
+   * with the text score highest
+   * @param text    The query
+   * @param size    The maximum number of POIs to return
+   * @param prefix  Whether the last word may be incomplete, as in autocomplete
+   * @returns       The matching POIs, best first
+   */
+  searchText(text: string, size = DEFAULT_SIZE, prefix = true): Poi[] {
+    const queryWords = tokenize(text)
+    if (!queryWords.length) return []
+
+    // Every word of the query must match, the scores of each word are added
+    const scores = queryWords.reduce<Map<number, number> | null>(
+      (previous, queryWord, wordIndex) => {
+        const isLast = wordIndex === queryWords.length - 1
+        const wordScores = new Map<number, number>()
+        const candidates =
+          isLast && prefix ? this.wordsStartingWith(queryWord) : [queryWord]
+        candidates.forEach((word) => {
+          const score = word === queryWord ? 2 : 1
+          ;(this.postings.get(word) || []).forEach((index) => {
+            wordScores.set(index, Math.max(wordScores.get(index) || 0, score))
+          })
+        })
+
+        if (!previous) return wordScores
+        const combined = new Map<number, number>()
+        wordScores.forEach((score, index) => {
+          const previousScore = previous.get(index)
+          if (previousScore) combined.set(index, previousScore + score)
+        })
+        return combined
+      },
+      null
+    )
+
+    const normalizedText = queryWords.join(' ')
+    const ranked: { index: number; score: number }[] = []
+    scores?.forEach((score, index) => {
+      const startsWithText = tokenize(this.pois[index].label)
+        .join(' ')
+        .startsWith(normalizedText)
+      ranked.push({ index, score: score + (startsWithText ? 1 : 0) })
+    })
+    return ranked
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, size)
+      .map(({ index }) => this.pois[index])
+  }
+
+  /**
+   * Finds the POIs closest to a point
+   * @param lat       Latitude of the point
+   * @param lon       Longitude of the point
+   * @param radiusKm  POIs further away are left out
+   * @param size      The maximum number of POIs to return
+   * @returns         The POIs with their distance in meters, closest first
+   */
+  nearest(
+    lat: number,
+    lon: number,
+    radiusKm = DEFAULT_POI_RADIUS_KM,
+    size = DEFAULT_SIZE
+  ): { distance: number; poi: Poi }[] {
+    const radiusDegrees = (radiusKm * 1000) / METERS_PER_DEGREE
+    // Degrees of longitude shrink towards the poles
+    const lonRadiusDegrees =
+      radiusDegrees / Math.max(Math.cos((lat * Math.PI) / 180), 0.01)
+    const minX = Math.floor((lon - lonRadiusDegrees) / CELL_SIZE_DEGREES)
+    const maxX = Math.floor((lon + lonRadiusDegrees) / CELL_SIZE_DEGREES)
+    const minY = Math.floor((lat - radiusDegrees) / CELL_SIZE_DEGREES)
+    const maxY = Math.floor((lat + radiusDegrees) / CELL_SIZE_DEGREES)
+
+    let candidates: number[] = []
+    // Scanning every POI is faster than visiting more cells than there are POIs
+    if ((maxX - minX + 1) * (maxY - minY + 1) > this.pois.length) {
+      candidates = this.pois.map((_, index) => index)
+    } else {
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          candidates = candidates.concat(this.cells.get(getCellKey(x, y)) || [])
+        }
+      }
+    }
+
+    return candidates
+      .map((index) => ({
+        distance: getDistance({ lat, lon }, this.pois[index]),
+        poi: this.pois[index]
+      }))
+      .filter(({ distance }) => distance <= radiusKm * 1000)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, size)
+  }
+}
+
+/**
+ * Reads POIs from a file or URL, and validates them
+ * @param location  Path to a file or http(s) URL
+ * @param format    The format. If not given, it is inferred from the extension
+ *                  or content
+ * @returns         The index of the POIs
+ * @throws          PoiError if the POIs can't be read or are invalid
+ */
+export const loadPoiIndex = async (
+  location: string,
+  format?: PoiFormat
+): Promise<PoiIndex> => {
+  const isUrl = /^https?:\/\//.test(location)
+  let content: string
+  try {
+    if (isUrl) {
+      const response = await fetch(location)
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`)
+      }
+      content = await response.text()
+    } else {
+      content = await fs.readFile(location, 'utf8')
+    }
+  } catch (e) {
+    throw new PoiError([
+      `POIs could not be read from ${location}: ${(e as Error).message}`
+    ])
+  }
+
+  const extension = extname(
+    isUrl ? new URL(location).pathname : location
+  ).slice(1)
+  const inferredFormat = ['csv', 'geojson', 'json'].includes(extension)
+    ? (extension as PoiFormat)
+    : undefined
+  return new PoiIndex(
+    validatePois(parsePois(content, format || inferredFormat))
+  )
+}
+
+/**
+ * Keeps data loaded, reloading it in the background every reloadSeconds.
+ * Reloading on request rather than on a timer suits Lambda, where nothing runs
+ * between requests. If a reload fails, the previous data is kept until the
+ * next attempt
+ * @param load          Loads the data
+ * @param reloadSeconds How often the data is reloaded. If null, it is loaded once
+ * @param name          What the data is, for warnings
+ * @returns             A function resolving to the current data
+ */
+export const makeReloadingLoader = <T>(
+  load: () => Promise<T>,
+  reloadSeconds: number | null,
+  name: string
+): (() => Promise<T>) => {
+  let checkedAt = 0
+  const check = () => {
+    checkedAt = Date.now()
+    return load()
+  }
+  // A failed first load is retried by the next request
+  const loadInitial = () => {
+    const initial = check()
+    initial.catch(() => {
+      current = undefined
+    })
+    return initial
+  }
+  let current: Promise<T> | undefined = loadInitial()
+
+  return () => {
+    if (!current) {
+      current = loadInitial()
+    } else if (
+      reloadSeconds !== null &&
+      Date.now() - checkedAt > reloadSeconds * 1000
+    ) {
+      check()
+        .then((reloaded) => {
+          current = Promise.resolve(reloaded)
+        })
+        .catch((e) => console.warn(`Reloading ${name} failed: ${e.message}`))
+    }
+    return current
+  }
+}
+
+/**
+ * Keeps a POI index loaded from a location, reloading it in the background
+ * every reloadSeconds, see makeReloadingLoader
+ * @param options   Where to load the POIs from and how often
+ * @param fallback  Loads the POIs if no location is configured
+ * @returns         A function resolving to the current index
+ */
+export const makePoiIndexLoader = (
+  { format, location, reloadSeconds }: PoiOptions,
+  fallback: () => PoiIndex
+): (() => Promise<PoiIndex>) => {
+  if (!location) {
+    const index = fallback()
+    return () => Promise.resolve(index)
+  }
+  return makeReloadingLoader(
+    () => loadPoiIndex(location, format),
+    reloadSeconds,
+    'POIs'
+  )
+}
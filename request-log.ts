@@ -0,0 +1,70 @@
+import { createHash } from 'crypto'
+
+import type { Endpoint } from './config'
+import type { DuplicateReason } from './dedupe'
+
+// Types
+/**
+ * Why a fallback geocoder of a source was requested: the primary was slow
+ * (hedging), failed, or returned results which weren't satisfactory
+ */
+export type FallbackReason = 'failed' | 'slow' | 'unsatisfactory'
+
+export type SourceLog = {
+  backupUsed: boolean
+  durationMs: number
+  errorCount: number
+  /** Only present if a fallback geocoder was requested */
+  fallbackReason?: FallbackReason
+  featureCount: number
+  name: string
+}
+
+/**
+ * Everything worth knowing about a single stitched request, logged as a single
+ * JSON line. The query itself is only logged as a hash, so that logs don't
+ * contain what users searched for
+ */
+export type RequestLog = {
+  /** Name of the client, if API keys are required */
+  client?: string
+  durationMs: number
+  /** Number of features dropped as duplicates, by the rule which matched */
+  duplicates: Partial<Record<DuplicateReason, number>>
+  endpoint: Endpoint
+  /** Number of features returned */
+  featureCount: number
+  /** Number of features returned by all sources, before duplicates were dropped */
+  featureCountBeforeDedupe: number
+  queryHash: string
+  sources: SourceLog[]
+  statusCode: number
+}
+
+/**
+ * Hashes a query, so that logs of the same query can be grouped. Case and
+ * whitespace are ignored, like geocoders do
+ * @param endpoint  The endpoint the query was sent to
+ * @param query     The normalized query
+ * @returns         A short hex digest
+ */
+export const hashQuery = (endpoint: Endpoint, query: unknown): string =>
+  createHash('sha1')
+    .update(
+      JSON.stringify([endpoint, query], (_, value) =>
+        typeof value === 'string'
+          ? value.trim().replace(/\s+/g, ' ').toLowerCase()
+          : value
+      )
+    )
+    .digest('hex')
+    .slice(0, 16)
+
+/**
+ * Writes the log of a request to stdout, where Lambda and most container
+ * platforms pick it up
+ * @param log The log of the request
+ */
+export const writeRequestLog = (log: RequestLog): void => {
+  console.log(JSON.stringify({ type: 'request', ...log }))
+}
@@ -0,0 +1,188 @@
+import type { Feature, FeatureCollection } from 'geojson'
+
+import type { Endpoint } from './config'
+import { normalizeText, tokenize } from './text'
+import { arePointsRoughlyEqual, PREFERRED_LAYERS } from './utils'
+
+// Types
+export type SatisfactionContext = {
+  endpoint: Endpoint
+  /** The text results are supposed to represent, if the endpoint has any */
+  text?: string
+}
+
+/**
+ * Decides whether a response is good enough, or whether the next fallback
+ * geocoder should be tried
+ */
+export type SatisfactionRule = (
+  response: FeatureCollection,
+  context: SatisfactionContext
+) => boolean
+
+/**
+ * A rule as it appears in the configuration. `type` selects the rule, all other
+ * fields are options of the rule
+ */
+export type SatisfactionRuleConfig = {
+  type: string
+  [option: string]: unknown
+}
+
+export type SatisfactionConfig = {
+  /**
+   * What happens to unsatisfactory results once a fallback geocoder is used:
+   * `replace` drops them, `merge` keeps them ahead of the fallback's results
+   */
+  fallbackMode: 'merge' | 'replace'
+  /** The rules of each endpoint. A response is satisfactory if it passes all of them */
+  rules: Record<Endpoint, SatisfactionRuleConfig[]>
+}
+
+// Consts
+const ruleFactories: Record<
+  string,
+  (options: Record<string, unknown>) => SatisfactionRule
+> = {
+  /** At least one result must be in one of the given layers */
+  layers:
+    ({ layers = PREFERRED_LAYERS }) =>
+    ({ features }) =>
+      features.some((feature) =>
+        (layers as string[]).includes(feature?.properties?.layer)
+      ),
+  /** At least one result must have at least the given confidence */
+  minConfidence:
+    ({ confidence = 0.5 }) =>
+    ({ features }) =>
+      features.some(
+        (feature) =>
+          (feature?.properties?.confidence ?? 0) >= (confidence as number)
+      ),
+  /** There must be at least the given number of results */
+  minCount:
+    ({ count = 1 }) =>
+    ({ features }) =>
+      features.length >= (count as number),
+  /**
+   * The name or label of at least one result must match the query. Matching
+   * ignores case, diacritics, punctuation and street type abbreviations. A
+   * result matches if it contains the whole query, or if at least `minTokenShare`
+   * of the query's words are the start of a word of the result
+   */
+  nameMatch:
+    ({ minTokenShare = 1 }) =>
+    ({ features }, { text }) => {
+      if (!text) return true
+      const queryTokens = tokenize(text)
+      const normalizedQuery = queryTokens.join(' ')
+
+      return features.some((feature) => {
+        const { label, name } = feature?.properties || {}
+        const resultTokens = tokenize(`${name || ''} ${label || ''}`)
+        if (resultTokens.join(' ').includes(normalizedQuery)) return true
+
+        const matched = queryTokens.filter((queryToken) =>
+          resultTokens.some((resultToken) => resultToken.startsWith(queryToken))
+        )
+        return (
+          queryTokens.length > 0 &&
+          matched.length / queryTokens.length >= (minTokenShare as number)
+        )
+      })
+    }
+}
+
+const TEXT_RULES: SatisfactionRuleConfig[] = [
+  { count: 1, type: 'minCount' },
+  { layers: PREFERRED_LAYERS, type: 'layers' },
+  { minTokenShare: 1, type: 'nameMatch' }
+]
+const POINT_RULES: SatisfactionRuleConfig[] = [{ count: 1, type: 'minCount' }]
+
+/**
+ * By default, text results must be non-empty, include one of PREFERRED_LAYERS
+ * and match the query. Any result is good enough for the other endpoints
+ */
+export const DEFAULT_SATISFACTION_CONFIG: SatisfactionConfig = {
+  fallbackMode: 'replace',
+  rules: {
+    autocomplete: TEXT_RULES,
+    nearby: POINT_RULES,
+    place: POINT_RULES,
+    reverse: POINT_RULES,
+    search: TEXT_RULES,
+    structured: TEXT_RULES
+  }
+}
+
+/**
+ * Adds a rule which can be used in the configuration, or replaces a built-in one
+ * @param type    The name of the rule
+ * @param factory Creates the rule from its options in the configuration
+ */
+export const registerSatisfactionRule = (
+  type: string,
+  factory: (options: Record<string, unknown>) => SatisfactionRule
+): void => {
+  ruleFactories[type] = factory
+}
+
+/**
+ * @returns The names of every rule which can be used in the configuration
+ */
+export const getSatisfactionRuleTypes = (): string[] =>
+  Object.keys(ruleFactories)
+
+/**
+ * Builds a single check out of the configured rules of an endpoint
+ * @param rules The rules as they appear in the configuration
+ * @returns     A function which returns true if a response passes every rule
+ */
+export const makeSatisfactionCheck = (
+  rules: SatisfactionRuleConfig[]
+): SatisfactionRule => {
+  const checks = rules.map(({ type, ...options }) => {
+    const factory = ruleFactories[type]
+    if (!factory) throw new Error(`Unknown satisfaction rule ${type}`)
+    return factory(options)
+  })
+  return (response, context) =>
+    !!response?.features && checks.every((check) => check(response, context))
+}
+
+const isSameFeature = (a: Feature, b: Feature): boolean => {
+  const aId = a.properties?.gid || a.properties?.id
+  if (aId && aId === (b.properties?.gid || b.properties?.id)) return true
+  return (
+    a.geometry?.type === 'Point' &&
+    b.geometry?.type === 'Point' &&
+    normalizeText(`${a.properties?.name || ''}`) ===
+      normalizeText(`${b.properties?.name || ''}`) &&
+    arePointsRoughlyEqual(a.geometry.coordinates, b.geometry.coordinates)
+  )
+}
+
+/**
+ * Combines the results of a geocoder with those of its fallback, for the
+ * `merge` fallback mode. Results of the fallback which are already present are
+ * left out.
+ * @param primary   The earlier, unsatisfactory response
+ * @param fallback  The response of the fallback geocoder
+ * @returns         A response containing the results of both
+ */
+export const combineResponses = (
+  primary: FeatureCollection,
+  fallback: FeatureCollection
+): FeatureCollection => ({
+  ...fallback,
+  features: [
+    ...(primary?.features || []),
+    ...(fallback?.features || []).filter(
+      (feature) =>
+        !(primary?.features || []).some((other) =>
+          isSameFeature(feature, other)
+        )
+    )
+  ]
+})
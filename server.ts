@@ -0,0 +1,286 @@
+/**
+ * Standalone HTTP server, for running the stitcher outside of AWS, for example
+ * in a container next to a Pelias instance. Serves the same endpoints as the
+ * Lambda functions under /v1, like Pelias does, plus /health and /status, and
+ * /metrics if metrics are emitted in the Prometheus format. Batches are POSTed
+ * to /v1/batch, and results are streamed as NDJSON if the client accepts it.
+ * Run with `yarn serve`, the configuration is read from the environment like
+ * in Lambda.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { URL } from 'url'
+
+import { API_KEY_HEADER } from './access'
+import { NDJSON_CONTENT_TYPE } from './batch'
+import { DEFAULT_BATCH_MAX_BYTES, Endpoint, loadConfig } from './config'
+import { makeStitcher, QueryParams, Stitcher } from './stitcher'
+import { makeGeocodingMetadata } from './utils'
+
+// Types
+export type StitchServer = {
+  server: Server
+  /**
+   * Stops accepting requests and waits for in-flight ones to finish. Health
+   * checks fail from the moment shutdown starts
+   * @returns Resolves once the server is closed
+   */
+  shutdown: () => Promise<void>
+}
+
+// Consts
+const BATCH_ROUTE = '/v1/batch'
+const ROUTES: Record<string, Endpoint> = {
+  '/v1/autocomplete': 'autocomplete',
+  '/v1/nearby': 'nearby',
+  '/v1/place': 'place',
+  '/v1/reverse': 'reverse',
+  '/v1/search': 'search',
+  '/v1/search/structured': 'structured'
+}
+const HEADERS = {
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Api-Key',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS, POST',
+  'Access-Control-Allow-Origin': '*',
+  'Content-Type': 'application/json'
+}
+const DEFAULT_PORT = 4000
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10000
+
+const { HOST, PORT, SHUTDOWN_TIMEOUT_MS } = process.env
+
+const send = (
+  response: ServerResponse,
+  statusCode: number,
+  body?: unknown,
+  headers?: Record<string, string>
+) => {
+  response.writeHead(statusCode, { ...HEADERS, ...headers })
+  response.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+/**
+ * Reads the body of a request, unless it's too large
+ * @param request   The request
+ * @param maxBytes  Larger bodies aren't read any further
+ * @returns         The body, or null if it's too large
+ */
+const readBody = (
+  request: IncomingMessage,
+  maxBytes: number
+): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    if (Number(request.headers['content-length']) > maxBytes) {
+      return resolve(null)
+    }
+    const chunks: Buffer[] = []
+    let size = 0
+    const onData = (chunk: Buffer) => {
+      size += chunk.length
+      chunks.push(chunk)
+      if (size > maxBytes) {
+        request.off('data', onData)
+        chunks.length = 0
+        resolve(null)
+      }
+    }
+    request.on('data', onData)
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    request.on('error', reject)
+  })
+
+/**
+ * @returns The first value of a header, which may have been sent several times
+ */
+const getHeader = (request: IncomingMessage, name: string) => {
+  const value = request.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Wraps an error in an empty Pelias response
+ */
+const makeErrorBody = (query: QueryParams, error: string) => ({
+  features: [],
+  geocoding: makeGeocodingMetadata(query, [], Date.now(), { errors: [error] }),
+  type: 'FeatureCollection'
+})
+
+/**
+ * Creates an HTTP server answering requests with the stitcher. The server
+ * isn't listening yet
+ * @param stitcher          The stitcher
+ * @param shutdownTimeoutMs How long shutdown waits for in-flight requests
+ *                          before closing their connections
+ * @param maxBodyBytes      Larger batch bodies are rejected with a 413
+ * @returns                 The server and a function to shut it down
+ */
+export const makeServer = (
+  stitcher: Stitcher,
+  shutdownTimeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS,
+  maxBodyBytes = DEFAULT_BATCH_MAX_BYTES
+): StitchServer => {
+  let shuttingDown = false
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const path = url.pathname.replace(/\/+$/, '') || '/'
+    const query: QueryParams = {}
+    url.searchParams.forEach((value, key) => {
+      query[key] = value
+    })
+
+    if (request.method === 'OPTIONS') return send(response, 204)
+    if (request.method !== (path === BATCH_ROUTE ? 'POST' : 'GET')) {
+      return send(
+        response,
+        405,
+        makeErrorBody(query, `method ${request.method} not allowed`)
+      )
+    }
+    // Orchestrators stop routing traffic to the server once this fails
+    if (path === '/health') {
+      return send(response, shuttingDown ? 503 : 200, {
+        status: shuttingDown ? 'shutting down' : 'ok'
+      })
+    }
+
+    // Prometheus expects its own text format rather than JSON. Metrics reveal
+    // the clients and sources, so only admins may scrape them
+    const metrics = path === '/metrics' && stitcher.metrics()
+    if (typeof metrics === 'string') {
+      if (
+        !stitcher.isAdmin(getHeader(request, API_KEY_HEADER) || query.api_key)
+      ) {
+        return send(response, 401, {
+          errors: ['metrics require the admin api key']
+        })
+      }
+      response.writeHead(200, {
+        ...HEADERS,
+        'Content-Type': 'text/plain; version=0.0.4'
+      })
+      return response.end(metrics)
+    }
+
+    if (path === BATCH_ROUTE) return handleBatch(request, response, query)
+
+    const endpoint = ROUTES[path]
+    if (!endpoint && path !== '/status') {
+      return send(response, 404, makeErrorBody(query, `no route for ${path}`))
+    }
+    try {
+      if (!endpoint) {
+        const admin = stitcher.isAdmin(
+          getHeader(request, API_KEY_HEADER) || query.api_key
+        )
+        const probe = query.probe === 'true'
+        if (probe && !admin) {
+          return send(response, 403, {
+            errors: ['probing requires the admin api key']
+          })
+        }
+        return send(response, 200, await stitcher.status({ admin, probe }))
+      }
+      const { body, headers, statusCode } = await stitcher.request(
+        endpoint,
+        query,
+        getHeader(request, API_KEY_HEADER)
+      )
+      send(response, statusCode, body, headers)
+    } catch (e) {
+      console.error(`Request to ${path} failed: ${e}`)
+      send(response, 500, makeErrorBody(query, 'internal server error'))
+    }
+  }
+
+  /**
+   * Answers a batch. Clients accepting NDJSON get each result as soon as it's
+   * ready, one per line, so that large batches don't need to be buffered
+   */
+  const handleBatch = async (
+    request: IncomingMessage,
+    response: ServerResponse,
+    query: QueryParams
+  ) => {
+    const stream = !!getHeader(request, 'accept')?.includes(NDJSON_CONTENT_TYPE)
+    try {
+      const batchBody = await readBody(request, maxBodyBytes)
+      // The rest of the body isn't read, so the connection can't be reused
+      if (batchBody === null) {
+        return send(
+          response,
+          413,
+          { errors: [`batch may be at most ${maxBodyBytes} bytes`] },
+          { Connection: 'close' }
+        )
+      }
+      const { body, headers, statusCode } = await stitcher.batch(batchBody, {
+        apiKey: getHeader(request, API_KEY_HEADER) || query.api_key,
+        ndjson: !!getHeader(request, 'content-type')?.includes(
+          NDJSON_CONTENT_TYPE
+        ),
+        ...(stream && {
+          onResult: (result) => {
+            if (!response.headersSent) {
+              response.writeHead(200, {
+                ...HEADERS,
+                'Content-Type': NDJSON_CONTENT_TYPE
+              })
+            }
+            response.write(`${JSON.stringify(result)}\n`)
+          }
+        })
+      })
+      // Rejected batches are answered with JSON, as nothing was streamed yet
+      if (response.headersSent) return response.end()
+      send(response, statusCode, body, headers)
+    } catch (e) {
+      console.error(`Request to ${BATCH_ROUTE} failed: ${e}`)
+      if (response.headersSent) return response.end()
+      send(response, 500, { errors: ['internal server error'] })
+    }
+  }
+
+  const server = createServer((request, response) => {
+    handle(request, response)
+  })
+
+  const shutdown = () =>
+    new Promise<void>((resolve) => {
+      shuttingDown = true
+      // Connections of requests which don't finish in time are closed
+      const timer = setTimeout(
+        () => server.closeAllConnections(),
+        shutdownTimeoutMs
+      )
+      server.close(() => {
+        clearTimeout(timer)
+        resolve()
+      })
+      // Keep-alive connections would otherwise keep the server open
+      server.closeIdleConnections()
+    })
+
+  return { server, shutdown }
+}
+
+if (require.main === module) {
+  // Invalid configuration fails the start, listing every problem
+  const config = loadConfig()
+  const { server, shutdown } = makeServer(
+    makeStitcher(config),
+    SHUTDOWN_TIMEOUT_MS ? parseInt(SHUTDOWN_TIMEOUT_MS) : undefined,
+    config.batch.maxBytes
+  )
+  const port = PORT ? parseInt(PORT) : DEFAULT_PORT
+  server.listen(port, HOST, () => {
+    console.log(`Pelias stitcher listening on port ${port}`)
+  })
+  ;['SIGINT', 'SIGTERM'].forEach((signal) =>
+    process.once(signal, () => {
+      console.log(`Received ${signal}, shutting down`)
+      shutdown().then(() => process.exit(0))
+    })
+  )
+}
@@ -0,0 +1,1000 @@
+import { FeatureCollection } from 'geojson'
+
+import { AccessDecision, ApiKeyConfig, makeAccessCheck } from './access'
+import {
+  BATCH_ENDPOINTS,
+  BatchItem,
+  BatchResult,
+  forEachWithConcurrency,
+  getItemKey,
+  parseBatch
+} from './batch'
+import { configureCache } from './cache'
+import {
+  CircuitBreaker,
+  CircuitBreakerStatus,
+  CircuitOpenError,
+  getCircuitBreaker,
+  getCircuitBreakerStatuses
+} from './circuit-breaker'
+import {
+  Endpoint,
+  ENDPOINTS,
+  SourceConfig,
+  StitchConfig,
+  summarizeConfig
+} from './config'
+import { filterUnsupportedConstraints } from './constraints'
+import {
+  enrichStops,
+  GTFS_SOURCE,
+  makeGtfsIndexLoader,
+  queryStops,
+  STOPS_LAYER
+} from './gtfs'
+import { makeLabelFormatter } from './labels'
+import {
+  DroppedDuplicate,
+  mergeRankedResponses,
+  RankableResponse
+} from './merge'
+import { makeMetrics, recordRequestMetrics } from './metrics'
+import { makeNormalizer } from './normalization'
+import {
+  getStitchGeocoder,
+  makeStructuredQueryText,
+  StitchGeocoderConfig,
+  StitchQuery
+} from './pelias-api'
+import {
+  convertJsonPois,
+  makePoiIndexLoader,
+  PoiIndex,
+  validatePois
+} from './poi-index'
+import {
+  combineResponses,
+  makeSatisfactionCheck,
+  SatisfactionContext,
+  SatisfactionRule
+} from './satisfaction'
+import {
+  FallbackReason,
+  hashQuery,
+  RequestLog,
+  SourceLog,
+  writeRequestLog
+} from './request-log'
+import { hedge, TimeoutError, withTimeout } from './timing'
+import {
+  getStatsSummaries,
+  getUpstreamStats,
+  recordSourceRequest,
+  SourceStatsSummary,
+  UpstreamStatsSummary
+} from './upstream-stats'
+import { validateQuery } from './validation'
+import {
+  cachedGeocoderRequest,
+  computeBbox,
+  convertQSPToGeocoderArgs,
+  convertReverseResponseToFeatureCollection,
+  GeocodingMetadata,
+  getFocusPoint,
+  makeGeocodingMetadata,
+  makeNormalizedQuery,
+  SourceReport
+} from './utils'
+
+// Types
+export type QueryParams = Record<string, string>
+
+/**
+ * What a single geocoder returned, for debugging
+ */
+export type AttemptDebug = {
+  durationMs: number
+  error?: string
+  /** Name of the geocoder, as used in stats and circuit breakers */
+  geocoder: string
+  /** The response, after constraints the geocoder can't honor were enforced */
+  response?: FeatureCollection
+}
+
+/**
+ * How the results of a single source came about, for debugging
+ */
+export type SourceDebug = {
+  /** Every geocoder of the source which was requested, in order */
+  attempts: AttemptDebug[]
+  /** Whether a backup geocoder was substituted for the primary geocoder */
+  backupUsed: boolean
+  /** Only present if a backup geocoder was requested at all */
+  fallbackReason?: FallbackReason
+  name: string
+  /** The results of the source, before they were merged with other sources */
+  response: FeatureCollection
+}
+
+/**
+ * Explains a response, returned as `geocoding.debug` if the `debug` query
+ * parameter is true and debugging is allowed
+ */
+export type StitchDebug = {
+  /** Every feature which was dropped as a duplicate of a feature of another source */
+  duplicates: DroppedDuplicate[]
+  sources: SourceDebug[]
+}
+
+/**
+ * A response of the stitcher, which each transport serializes its own way
+ */
+export type StitchResponse = {
+  body: FeatureCollection & {
+    geocoding?: GeocodingMetadata & { debug?: StitchDebug }
+  }
+  /** Headers to send besides the transport's own, such as Retry-After */
+  headers?: Record<string, string>
+  statusCode: number
+}
+
+/**
+ * The answer to a batch request
+ */
+export type BatchResponse = {
+  body: {
+    /** Why the batch was rejected as a whole */
+    errors?: string[]
+    /** The result of every item, in order. Absent if results were streamed */
+    results?: BatchResult[]
+  }
+  /** Headers to send besides the transport's own, such as Retry-After */
+  headers?: Record<string, string>
+  statusCode: number
+}
+
+export type BatchRequestOptions = {
+  /**
+   * The API key sent as a header. Every valid item counts towards the client's
+   * limits, even if identical items share a request
+   */
+  apiKey?: string
+  /** Whether the body contains one item per line rather than a JSON array */
+  ndjson?: boolean
+  /**
+   * Called with every result as soon as it's ready, in the order items finish.
+   * Results are then not collected in the response
+   */
+  onResult?: (result: BatchResult) => void
+}
+
+/**
+ * The stitcher, independent of how requests reach it
+ */
+export type Stitcher = {
+  /**
+   * Answers a request to one of the Pelias endpoints
+   * @param endpoint  The endpoint
+   * @param query     The query parameters, if there are any
+   * @param apiKey    The API key sent as a header, which takes precedence over
+   *                  the `api_key` query parameter
+   * @returns         The Pelias response
+   */
+  request: (
+    endpoint: Endpoint,
+    query: QueryParams | null,
+    apiKey?: string
+  ) => Promise<StitchResponse>
+  /**
+   * Answers a batch of search and reverse queries, each like a request to its
+   * endpoint
+   * @param body    The request body, see parseBatch
+   * @param options How the batch is authorized, parsed and returned
+   * @returns       The results, or why the batch was rejected
+   */
+  batch: (body: string, options?: BatchRequestOptions) => Promise<BatchResponse>
+  /**
+   * @returns The metrics of every request so far in Prometheus text format, or
+   *          null if metrics aren't configured to be scraped
+   */
+  metrics: () => string | null
+  /**
+   * @param apiKey  The API key of a request
+   * @returns       Whether it is the admin API key, which may see the
+   *                configuration, probe geocoders and scrape metrics
+   */
+  isAdmin: (apiKey: string | undefined) => boolean
+  /**
+   * Reports the state of the stitcher for diagnostics
+   * @param options.admin Whether the configuration is included, and probing
+   *                      allowed. See isAdmin
+   * @param options.probe Whether to send a query to every geocoder, which is
+   *                      ignored unless `admin` is set
+   * @returns             The POIs, and the circuit breaker and recent stats of
+   *                      every upstream geocoder
+   */
+  status: (options?: {
+    admin?: boolean
+    probe?: boolean
+  }) => Promise<StitchStatus>
+}
+
+/**
+ * What happened when a probe query was sent to a geocoder
+ */
+export type ProbeResult = {
+  durationMs: number
+  error?: string
+  featureCount?: number
+  ok: boolean
+}
+
+export type StitchStatus = {
+  circuitBreakers: Record<string, CircuitBreakerStatus>
+  /** The configuration, with secrets redacted. Only shown to admins */
+  config?: Record<string, unknown>
+  /** Only present if a GTFS feed is configured */
+  gtfs?: { count: number; loadedAt: number } | { error: string }
+  pois: { count: number; loadedAt: number } | { error: string }
+  /** Only present if probing was requested */
+  probes?: Record<string, ProbeResult>
+  sources: Record<string, SourceStatsSummary>
+  upstreams: Record<string, UpstreamStatsSummary>
+}
+
+/**
+ * A configured source, with everything needed to query it prepared up front
+ */
+type PreparedSource = SourceConfig & {
+  /** Circuit breakers of the primary geocoder followed by each fallback */
+  breakers: CircuitBreaker[]
+  reverseFallbacks: StitchGeocoderConfig[]
+  reverseGeocoder: StitchGeocoderConfig
+  /** Names of the primary geocoder followed by each fallback, as used in stats */
+  upstreamNames: string[]
+}
+
+// Consts
+const POIS = require('./pois.json')
+
+const { STATUS_PROBE_TEXT } = process.env
+/** Probe queries are autocomplete requests for this text */
+const PROBE_TEXT = STATUS_PROBE_TEXT || 'main'
+
+// Reverse requests always ask for FeatureCollections, so that the responses of
+// all geocoders can be merged. Geocoders are memoized by config object, so
+// these copies are made once
+const withReverseFeatureCollection = (geocoder: StitchGeocoderConfig) => ({
+  ...geocoder,
+  reverseUseFeatureCollection: true
+})
+
+/**
+ * Creates the stitcher from a validated configuration. Everything which can
+ * be prepared ahead of requests is prepared here, so transports should create
+ * a single stitcher when they start
+ * @param config  The configuration
+ * @returns       The stitcher
+ */
+export const makeStitcher = (config: StitchConfig): Stitcher => {
+  // POIs are loaded and validated up front. Without a configured location, the
+  // bundled pois.json is used
+  const getPoiIndex = makePoiIndexLoader(
+    config.pois,
+    () => new PoiIndex(validatePois(convertJsonPois(POIS)))
+  )
+  // Without a feed, results are merged as they are and stops aren't answered
+  // by the stitcher
+  const getGtfsIndex = makeGtfsIndexLoader(config.gtfs)
+  // The feed is the authority on stops, so its results win duplicate checks
+  const gtfsPriority =
+    Math.max(...config.sources.map(({ priority }) => priority)) + 1
+  // Every source labels results its own way, so they are relabelled alike
+  const formatLabel = config.labels.enabled
+    ? makeLabelFormatter(config.labels)
+    : null
+
+  // The rules deciding whether fallbacks are needed are built once per endpoint
+  const satisfactionChecks = {} as Record<Endpoint, SatisfactionRule>
+  ENDPOINTS.forEach((endpoint) => {
+    satisfactionChecks[endpoint] = makeSatisfactionCheck(
+      config.satisfaction.rules[endpoint]
+    )
+  })
+
+  const metrics = makeMetrics(config.metrics)
+  configureCache(config.cache)
+  const normalizer = makeNormalizer(config.normalization)
+  const checkAccess = makeAccessCheck(config.apiKeys)
+
+  // Every upstream geocoder gets its own circuit breaker. They are created up front
+  // so that the status endpoint lists them before any request has been made
+  const sources: PreparedSource[] = config.sources.map((source) => {
+    const upstreamNames = [
+      source.name,
+      ...source.fallbacks.map(
+        (_, index) => `${source.name} backup${index ? ` ${index + 1}` : ''}`
+      )
+    ]
+    return {
+      ...source,
+      breakers: upstreamNames.map((name) =>
+        getCircuitBreaker(name, config.circuitBreaker)
+      ),
+      reverseFallbacks: source.fallbacks.map(withReverseFeatureCollection),
+      reverseGeocoder: withReverseFeatureCollection(source.geocoder),
+      upstreamNames
+    }
+  })
+
+  /**
+   * Queries every source taking part in an endpoint and merges their responses.
+   * Invalid requests are rejected with a 400, like Pelias does
+   */
+  const handleRequest = async (
+    apiMethod: Endpoint,
+    queryStringParameters: QueryParams | null,
+    apiKey?: string,
+    batchClient?: ApiKeyConfig | null
+  ): Promise<StitchResponse> => {
+    const startedAt = Date.now()
+    // Transports may pass null if there are no query parameters
+    const query = { ...queryStringParameters }
+    // API keys must never be echoed back or logged. Items of batches were
+    // authorized and charged with the batch
+    let access: AccessDecision =
+      batchClient !== undefined
+        ? { client: batchClient, ok: true }
+        : checkAccess.authorize(apiMethod, apiKey || query.api_key)
+    delete query.api_key
+    // Debug output contains whole upstream responses, so it must be allowed
+    const debug: StitchDebug | null =
+      query.debug === 'true' && config.allowDebug
+        ? { duplicates: [], sources: [] }
+        : null
+    // Filled in as the request progresses, and logged once it's done
+    const log: RequestLog = {
+      durationMs: 0,
+      duplicates: {},
+      endpoint: apiMethod,
+      featureCount: 0,
+      featureCountBeforeDedupe: 0,
+      queryHash: hashQuery(apiMethod, query),
+      sources: [],
+      statusCode: 200
+    }
+    if (access.ok && access.client) {
+      log.client = access.client.name || access.client.key
+    }
+    const respond = (response: StitchResponse) => {
+      log.durationMs = Date.now() - startedAt
+      log.featureCount = response.body.features.length
+      log.statusCode = response.statusCode
+      if (config.logRequests) writeRequestLog(log)
+      recordRequestMetrics(metrics, log)
+      metrics.flush()
+      return response
+    }
+
+    const reject = (decision: AccessDecision & { ok: false }) =>
+      respond({
+        body: {
+          features: [],
+          geocoding: makeGeocodingMetadata({}, [], startedAt, {
+            errors: [decision.error]
+          }),
+          type: 'FeatureCollection'
+        },
+        ...(decision.retryAfterSeconds !== undefined && {
+          headers: { 'Retry-After': `${decision.retryAfterSeconds}` }
+        }),
+        statusCode: decision.statusCode
+      })
+
+    // Clients which may not make this request are rejected before anything else
+    if (!access.ok) return reject(access)
+
+    // Invalid requests are rejected the way Pelias rejects them, without querying
+    // any geocoder
+    const { errors, warnings } = validateQuery(apiMethod, query)
+    if (query.debug === 'true' && !config.allowDebug) {
+      warnings.push("param 'debug' is disabled")
+    }
+    if (errors.length) {
+      return respond({
+        body: {
+          features: [],
+          geocoding: makeGeocodingMetadata(query, [], startedAt, {
+            errors,
+            warnings
+          }),
+          type: 'FeatureCollection'
+        },
+        statusCode: 400
+      })
+    }
+
+    // Only valid requests count towards the client's limits
+    if (batchClient === undefined) {
+      access = await checkAccess.charge(access.client)
+      if (!access.ok) return reject(access)
+    }
+
+    // The text is cleaned up, and intersections and stop codes are recognized.
+    // Each geocoder is sent its own variant of the normalized text
+    const normalized = query.text ? normalizer.normalize(query.text) : null
+    if (normalized) query.text = normalized.text
+
+    // Nearby requests behave like reverse requests for geocoders which don't support them
+    const isReverse = apiMethod === 'reverse' || apiMethod === 'nearby'
+    const isPlace = apiMethod === 'place'
+    // With a feed, the stops layer and the stops it returned are answered by the
+    // stitcher, and geocoders are only queried for the other requested layers
+    // and ids
+    const requestedLayers = (query.layers || '')
+      .split(',')
+      .map((layer) => layer.trim())
+    const placeIds = isPlace
+      ? (query.ids || '')
+          .split(',')
+          .map((id) => id.trim())
+          .filter((id) => !!id)
+      : []
+    const stopIds = placeIds.filter((id) => id.startsWith(`${GTFS_SOURCE}:`))
+    const answersStops =
+      !!getGtfsIndex &&
+      (isPlace ? stopIds.length > 0 : requestedLayers.includes(STOPS_LAYER))
+    const upstreamLayers = requestedLayers.filter(
+      (layer) => layer && layer !== STOPS_LAYER
+    )
+    const onlyStops = isPlace
+      ? stopIds.length === placeIds.length
+      : !upstreamLayers.length
+    // Sources which don't take part in this endpoint aren't queried at all, nor
+    // are sources the client may not use
+    const allowedSources = access.client?.sources
+    const activeSources = sources.filter(
+      ({ endpoints, name }) =>
+        endpoints.includes(apiMethod) &&
+        (!allowedSources || allowedSources.includes(name)) &&
+        !(answersStops && onlyStops)
+    )
+    const geocoderArgs = convertQSPToGeocoderArgs(query)
+    const normalizedQuery = makeNormalizedQuery(geocoderArgs)
+    // Queries which only differ in ways the geocoders ignore share a hash
+    log.queryHash = hashQuery(apiMethod, normalizedQuery)
+    if (answersStops && !isPlace) {
+      geocoderArgs.layers = upstreamLayers.join(',')
+    }
+
+    const deadline = startedAt + config.requestDeadlineMs
+
+    /**
+     * Requests a single geocoder within a time budget. Reverse responses are converted
+     * to FeatureCollections as not every geocoder supports returning them natively
+     */
+    const request = (
+      geocoderConfig: { options?: RequestInit; type?: string },
+      args: StitchQuery,
+      timeoutMs: number
+    ): Promise<FeatureCollection> =>
+      withTimeout(async (signal) => {
+        const isOffline = geocoderConfig.type === 'OFFLINE'
+        const response = await cachedGeocoderRequest(
+          getStitchGeocoder(geocoderConfig),
+          apiMethod,
+          // Query options replace config options, so the config's options must be kept
+          {
+            ...args,
+            ...(args.text && {
+              text: normalizer.variant(geocoderConfig.type, args.text)
+            }),
+            ...(signal && {
+              options: { ...geocoderConfig.options, signal }
+            }),
+            ...(isOffline && { poiIndex: await getPoiIndex() })
+          },
+          // POIs are quicker to search than the cache, and may be reloaded
+          isOffline ? null : undefined,
+          true
+        )
+        // Constraints the geocoder can't honor itself are enforced here
+        return filterUnsupportedConstraints(
+          isReverse
+            ? convertReverseResponseToFeatureCollection(response)
+            : response,
+          args,
+          geocoderConfig.type
+        )
+      }, timeoutMs)
+
+    // Structured requests are checked against the street address
+    const satisfactionContext: SatisfactionContext = {
+      endpoint: apiMethod,
+      text:
+        apiMethod === 'structured'
+          ? geocoderArgs.structured?.address ||
+            makeStructuredQueryText(geocoderArgs.structured)
+          : query.text
+    }
+    const isSatisfactory = (response: FeatureCollection) =>
+      satisfactionChecks[apiMethod](response, satisfactionContext)
+
+    /**
+     * Queries a single configured source, falling back to each of its fallback
+     * geocoders in order if the primary is slow, fails, or returns unsatisfactory
+     * results
+     */
+    const querySource = async (
+      source: PreparedSource
+    ): Promise<{
+      debug: SourceDebug | null
+      log: SourceLog
+      report: SourceReport
+      response: FeatureCollection
+    }> => {
+      const sourceStartedAt = Date.now()
+      const geocoderConfigs = isReverse
+        ? [source.reverseGeocoder, ...source.reverseFallbacks]
+        : [source.geocoder, ...source.fallbacks]
+      const report: SourceReport = {
+        backupUsed: false,
+        duration: 0,
+        errors: [],
+        featureCount: 0,
+        name: source.name,
+        warnings: []
+      }
+      const budget = () => Math.min(source.timeoutMs, deadline - Date.now())
+      // Timeouts and skipped geocoders are expected to happen, and are only warnings
+      const reportFailure = (geocoder: string, e: Error) =>
+        (e instanceof TimeoutError || e instanceof CircuitOpenError
+          ? report.warnings
+          : report.errors
+        ).push(`${geocoder} ${e.message || e}`)
+
+      // Each geocoder is only ever requested once, either hedged or as a fallback.
+      // Geocoders which are known to be down are skipped, going directly to the next one
+      const attempted: boolean[] = []
+      const attempts: AttemptDebug[] = []
+      const attempt = (index: number) => {
+        attempted[index] = true
+        const attemptStartedAt = Date.now()
+        const geocoder = source.upstreamNames[index]
+        const stats = getUpstreamStats(geocoder)
+        // Only the primary geocoder of the preferred source understands text
+        // such as a bare stop code. Its fallbacks are sent the text as it was
+        const args =
+          index === 0 &&
+          source.name === normalized?.preferredSource &&
+          normalized.preferredSourceText
+            ? { ...geocoderArgs, text: normalized.preferredSourceText }
+            : geocoderArgs
+        return source.breakers[index]
+          .call(() => request(geocoderConfigs[index], args, budget()))
+          .then((response) => {
+            const durationMs = Date.now() - attemptStartedAt
+            stats.record(durationMs)
+            if (debug) attempts.push({ durationMs, geocoder, response })
+            return response
+          })
+          .catch((e) => {
+            const durationMs = Date.now() - attemptStartedAt
+            const error = `${e.message || e}`
+            // Skipped geocoders weren't requested at all
+            if (!(e instanceof CircuitOpenError)) {
+              stats.record(durationMs, error)
+            }
+            if (debug) attempts.push({ durationMs, error, geocoder })
+            reportFailure(
+              index === 0
+                ? 'geocoder'
+                : `backup geocoder${index > 1 ? ` ${index}` : ''}`,
+              e
+            )
+            throw e
+          })
+      }
+
+      let response: FeatureCollection | undefined
+      let usedIndex = 0
+      try {
+        if (geocoderConfigs.length > 1 && config.hedgeAfterMs !== null) {
+          const { result, usedBackup } = await hedge(
+            () => attempt(0),
+            () => attempt(1),
+            config.hedgeAfterMs,
+            isSatisfactory
+          )
+          response = result
+          usedIndex = usedBackup ? 1 : 0
+        } else {
+          response = await attempt(0)
+        }
+      } catch (e) {
+        // Already reported
+      }
+
+      // Hedging requests the first fallback when the primary is slow, whichever wins
+      let fallbackReason: FallbackReason | undefined = attempted[1]
+        ? 'slow'
+        : undefined
+      if (
+        !fallbackReason &&
+        geocoderConfigs.length > 1 &&
+        !(response && isSatisfactory(response)) &&
+        budget() > 0
+      ) {
+        fallbackReason = response ? 'unsatisfactory' : 'failed'
+      }
+
+      // If the returned results are garbage, use the fallback geocoders in order.
+      // Fallback responses are cached just like the primary one
+      for (
+        let index = 1;
+        index < geocoderConfigs.length &&
+        !(response && isSatisfactory(response)) &&
+        budget() > 0;
+        index++
+      ) {
+        if (attempted[index]) continue
+        try {
+          const fallbackResponse = await attempt(index)
+          // Unsatisfactory results may still be worth keeping
+          response =
+            response && config.satisfaction.fallbackMode === 'merge'
+              ? combineResponses(response, fallbackResponse)
+              : fallbackResponse
+          usedIndex = index
+        } catch (e) {
+          // Already reported
+        }
+      }
+
+      response = response || { features: [], type: 'FeatureCollection' }
+      const { geocoding } = response as {
+        geocoding?: { engine?: unknown; warnings?: string[] }
+      }
+      report.backupUsed = usedIndex > 0
+      recordSourceRequest(source.name, report.backupUsed)
+      report.duration = Date.now() - sourceStartedAt
+      report.engine = geocoding?.engine
+      report.featureCount = response.features?.length || 0
+      // Upstream warnings are passed on to the client
+      report.warnings.push(...(geocoding?.warnings || []))
+
+      return {
+        debug: debug && {
+          attempts,
+          backupUsed: report.backupUsed,
+          ...(fallbackReason && { fallbackReason }),
+          name: source.name,
+          response
+        },
+        log: {
+          backupUsed: report.backupUsed,
+          durationMs: report.duration,
+          errorCount: report.errors.length,
+          ...(fallbackReason && { fallbackReason }),
+          featureCount: report.featureCount,
+          name: source.name
+        },
+        report,
+        response
+      }
+    }
+
+    // Run all requests in parallel, unless the text is known to be answered by a
+    // single source, such as a stop code. Then other sources are only queried if
+    // that source has no results
+    const preferredSource = activeSources.find(
+      ({ name }) => name === normalized?.preferredSource
+    )
+    const preferred = preferredSource
+      ? [await querySource(preferredSource)]
+      : []
+    const queriedSources =
+      preferredSource && preferred[0].response.features?.length
+        ? [preferredSource]
+        : [
+            ...(preferredSource ? [preferredSource] : []),
+            ...activeSources.filter((source) => source !== preferredSource)
+          ]
+    const results = [
+      ...preferred,
+      ...(await Promise.all(
+        queriedSources.slice(preferred.length).map(querySource)
+      ))
+    ]
+    log.sources = results.map(({ log }) => log)
+    log.featureCountBeforeDedupe = results.reduce(
+      (count, { report }) => count + report.featureCount,
+      0
+    )
+
+    // Results describing a stop of the feed are given its metadata. If the feed
+    // can't be loaded, results are merged as they are
+    const gtfsIndex = getGtfsIndex
+      ? await getGtfsIndex().catch((e) => {
+          warnings.push(`${GTFS_SOURCE}: ${e.message || e}`)
+          return null
+        })
+      : null
+    const responses: RankableResponse[] = results.map(
+      ({ response }, index) => ({
+        dedupe: queriedSources[index].dedupe,
+        priority: queriedSources[index].priority,
+        response: gtfsIndex
+          ? enrichStops(response, gtfsIndex, config.gtfs.matchRadiusMeters)
+          : response,
+        source: queriedSources[index].name
+      })
+    )
+    if (answersStops && gtfsIndex) {
+      responses.push({
+        priority: gtfsPriority,
+        // The feed knows stop codes, so it is searched for the bare code
+        response: queryStops(gtfsIndex, apiMethod, {
+          ...geocoderArgs,
+          ...(normalized?.preferredSourceText && {
+            text: normalized.preferredSourceText
+          })
+        }),
+        source: GTFS_SOURCE
+      })
+    }
+
+    const merged = mergeRankedResponses(
+      responses,
+      // Every response has its own dedupe options
+      undefined,
+      isReverse ? getFocusPoint(query, 'point') : getFocusPoint(query),
+      {
+        ...config.ranking,
+        // Reverse results are sorted by distance to the point only
+        ...(isReverse && { focusBlend: 1 }),
+        // Such as intersections, if the text names one
+        ...(normalized?.preferredLayers && {
+          preferredLayers: normalized.preferredLayers
+        })
+      },
+      (dropped) => {
+        log.duplicates[dropped.reason] =
+          (log.duplicates[dropped.reason] || 0) + 1
+        debug?.duplicates.push(dropped)
+      }
+    )
+    if (formatLabel) {
+      merged.features.forEach((feature) => {
+        if (feature.properties) {
+          feature.properties.label = formatLabel(feature, geocoderArgs.lang)
+        }
+      })
+    } else if (isReverse) {
+      merged.features.forEach((feature) => {
+        if (feature.properties && !feature.properties.label) {
+          feature.properties.label = feature.properties.name
+        }
+      })
+    }
+    // Places are returned in the order they were requested in
+    if (isPlace) {
+      const ids = geocoderArgs.ids || []
+      const position = (gid: unknown) => {
+        const index = ids.indexOf(gid as string)
+        return index === -1 ? ids.length : index
+      }
+      merged.features.sort(
+        (a, b) => position(a.properties?.gid) - position(b.properties?.gid)
+      )
+    }
+    merged.bbox = computeBbox(merged.features)
+    Object.assign(merged, {
+      geocoding: {
+        ...makeGeocodingMetadata(
+          normalizedQuery,
+          results.map(({ report }) => report),
+          startedAt,
+          { warnings }
+        ),
+        // Like Pelias, debug output is part of the geocoding block
+        ...(debug && {
+          debug: {
+            ...debug,
+            sources: results.map(({ debug }) => debug as SourceDebug)
+          }
+        })
+      }
+    })
+
+    return respond({ body: merged, statusCode: 200 })
+  }
+
+  /**
+   * Converts the response to a single item into its result
+   */
+  const makeBatchResult = (
+    { id }: BatchItem,
+    index: number,
+    { body, statusCode }: StitchResponse
+  ): BatchResult => ({
+    ...(statusCode !== 200 && { errors: body.geocoding?.errors || [] }),
+    ...(id !== undefined && { id }),
+    index,
+    ...(statusCode === 200 && { response: body }),
+    statusCode
+  })
+
+  const batch = async (
+    body: string,
+    { apiKey, ndjson = false, onResult }: BatchRequestOptions = {}
+  ): Promise<BatchResponse> => {
+    // Transports which can stop reading bodies early check this themselves
+    if (Buffer.byteLength(body) > config.batch.maxBytes) {
+      return {
+        body: {
+          errors: [`batch may be at most ${config.batch.maxBytes} bytes`]
+        },
+        statusCode: 413
+      }
+    }
+    const { errors, items } = parseBatch(body, ndjson, config.batch.maxItems)
+    if (errors.length) return { body: { errors }, statusCode: 400 }
+
+    // The batch is authorized for the endpoints of its items, and every valid
+    // item is counted towards the client's limits, before any item is answered
+    const reject = (decision: AccessDecision & { ok: false }) => ({
+      body: { errors: [decision.error] },
+      ...(decision.retryAfterSeconds !== undefined && {
+        headers: { 'Retry-After': `${decision.retryAfterSeconds}` }
+      }),
+      statusCode: decision.statusCode
+    })
+    let access: AccessDecision = { client: null, ok: true }
+    for (const endpoint of BATCH_ENDPOINTS) {
+      if (!items.some((item) => item.endpoint === endpoint)) continue
+      access = checkAccess.authorize(endpoint, apiKey)
+      if (!access.ok) return reject(access)
+    }
+    const validCount = items.filter(
+      ({ endpoint, query }) => !validateQuery(endpoint, query).errors.length
+    ).length
+    if (validCount) {
+      access = await checkAccess.charge(access.client, validCount)
+      if (!access.ok) return reject(access)
+    }
+    const { client } = access
+
+    // Identical items in flight at the same time share a request. Later ones
+    // are answered from the cache, like any other request
+    const inFlight = new Map<string, Promise<StitchResponse>>()
+    const results: BatchResult[] = []
+    await forEachWithConcurrency(
+      items,
+      config.batch.concurrency,
+      async (item, index) => {
+        const key = getItemKey(item)
+        let pending = inFlight.get(key)
+        if (!pending) {
+          pending = handleRequest(item.endpoint, item.query, undefined, client)
+          inFlight.set(key, pending)
+          pending.catch(() => undefined).then(() => inFlight.delete(key))
+        }
+        let result: BatchResult
+        try {
+          result = makeBatchResult(item, index, await pending)
+        } catch (e) {
+          // A failing item mustn't fail the rest of the batch
+          console.error(`Batch item ${index} failed: ${e}`)
+          result = {
+            errors: ['internal server error'],
+            ...(item.id !== undefined && { id: item.id }),
+            index,
+            statusCode: 500
+          }
+        }
+        if (onResult) onResult(result)
+        else results[index] = result
+      }
+    )
+    return { body: onResult ? {} : { results }, statusCode: 200 }
+  }
+
+  /**
+   * Sends a probe query to a single geocoder. The cache and circuit breaker are
+   * bypassed, so that the result reflects the current state of the geocoder
+   */
+  const probe = async (
+    geocoderConfig: StitchGeocoderConfig,
+    timeoutMs: number
+  ): Promise<ProbeResult> => {
+    const probeStartedAt = Date.now()
+    try {
+      const response = await withTimeout(
+        async (signal) =>
+          cachedGeocoderRequest(
+            getStitchGeocoder(geocoderConfig),
+            'autocomplete',
+            {
+              ...(signal && {
+                options: { ...geocoderConfig.options, signal }
+              }),
+              ...(geocoderConfig.type === 'OFFLINE' && {
+                poiIndex: await getPoiIndex()
+              }),
+              text: PROBE_TEXT
+            },
+            null,
+            true
+          ),
+        timeoutMs
+      )
+      return {
+        durationMs: Date.now() - probeStartedAt,
+        featureCount: response?.features?.length || 0,
+        ok: true
+      }
+    } catch (e) {
+      return {
+        durationMs: Date.now() - probeStartedAt,
+        error: `${(e as Error).message || e}`,
+        ok: false
+      }
+    }
+  }
+
+  const isAdmin = (apiKey: string | undefined) =>
+    !!config.adminApiKey && apiKey === config.adminApiKey
+
+  const status = async ({
+    admin = false,
+    probe: probeRequested = false
+  } = {}) => {
+    // Probes query every geocoder, including paid ones
+    const shouldProbe = admin && probeRequested
+    const pois = await getPoiIndex().then(
+      (index) => ({ count: index.size, loadedAt: index.loadedAt }),
+      (e) => ({ error: `${e.message || e}` })
+    )
+    const gtfs =
+      getGtfsIndex &&
+      (await getGtfsIndex().then(
+        (index) => ({ count: index.size, loadedAt: index.loadedAt }),
+        (e) => ({ error: `${e.message || e}` })
+      ))
+    const probes: Record<string, ProbeResult> = {}
+    if (shouldProbe) {
+      await Promise.all(
+        sources.map((source) =>
+          Promise.all(
+            [source.geocoder, ...source.fallbacks].map(
+              async (geocoderConfig, index) => {
+                probes[source.upstreamNames[index]] = await probe(
+                  geocoderConfig,
+                  source.timeoutMs
+                )
+              }
+            )
+          )
+        )
+      )
+    }
+
+    return {
+      circuitBreakers: getCircuitBreakerStatuses(),
+      ...(admin && { config: summarizeConfig(config) }),
+      ...(gtfs && { gtfs }),
+      pois,
+      ...(shouldProbe && { probes }),
+      ...getStatsSummaries()
+    }
+  }
+
+  return {
+    batch,
+    isAdmin,
+    metrics: () => metrics.render(),
+    request: handleRequest,
+    status
+  }
+}
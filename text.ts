@@ -0,0 +1,120 @@
+// Consts
+/**
+ * Street types and directions which geocoders disagree on abbreviating. Both
+ * the query and the results are expanded before comparing them
+ */
+export const ABBREVIATIONS: Record<string, string> = {
+  ave: 'avenue',
+  blvd: 'boulevard',
+  ct: 'court',
+  dr: 'drive',
+  e: 'east',
+  hwy: 'highway',
+  ln: 'lane',
+  n: 'north',
+  ne: 'northeast',
+  nw: 'northwest',
+  pkwy: 'parkway',
+  pl: 'place',
+  rd: 'road',
+  s: 'south',
+  se: 'southeast',
+  sq: 'square',
+  st: 'street',
+  sw: 'southwest',
+  w: 'west'
+}
+
+/** The abbreviations of directions, which also stand for initials */
+export const DIRECTIONS = ['e', 'n', 'ne', 'nw', 's', 'se', 'sw', 'w']
+
+/** Street types by their full name, e.g. street */
+const STREET_TYPES = Object.keys(ABBREVIATIONS)
+  .filter((abbreviation) => !DIRECTIONS.includes(abbreviation))
+  .map((abbreviation) => ABBREVIATIONS[abbreviation])
+
+/** Separates the parts of a label or the streets of an intersection */
+const SEPARATOR_PATTERN = /[,;&@/]|\s+and\s+/i
+
+/**
+ * Lowercases a string and removes diacritics and punctuation, so that
+ * "Café  Müller-St." becomes "cafe muller st"
+ * @param text  The text to normalize
+ * @returns     The normalized text
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s,.;:!?'"()\-/#&@]+/g, ' ')
+    .trim()
+
+/**
+ * Checks whether a word is a number, such as a housenumber or "5th"
+ * @param token  The normalized word
+ * @returns      Whether the word contains a digit
+ */
+const isNumber = (token: string): boolean => /\d/.test(token)
+
+/**
+ * Checks whether a word is a street type, abbreviated or not
+ * @param token  The normalized word
+ * @returns      Whether the word is a street type
+ */
+const isStreetType = (token: string): boolean =>
+  STREET_TYPES.includes(token) ||
+  (!!ABBREVIATIONS[token] && !DIRECTIONS.includes(token))
+
+/**
+ * Expands the abbreviations of a single part of a label, but only in street
+ * position: "St Mary" is a saint and "E Smith" an initial, while "E Main St"
+ * and "400 Broad St Seattle" are streets. A street type is the last of them
+ * after the first word, and is expanded if it ends the part, only directions
+ * or numbers follow it, or the part starts with a housenumber. Directions are
+ * expanded before the name or after the street type of a street
+ * @param tokens  The normalized words of the part
+ * @returns       The words with abbreviations in street position expanded
+ */
+const expandStreet = (tokens: string[]): string[] => {
+  const startsWithNumber = tokens.length > 0 && isNumber(tokens[0])
+  const type = tokens.reduce(
+    (last, token, index) => (index > 0 && isStreetType(token) ? index : last),
+    -1
+  )
+  const expandType =
+    type > 0 &&
+    (startsWithNumber ||
+      tokens
+        .slice(type + 1)
+        .every((token) => DIRECTIONS.includes(token) || isNumber(token)))
+  const isStreet = type > 0 || tokens.some(isNumber)
+
+  return tokens.map((token, index) => {
+    if (DIRECTIONS.includes(token)) {
+      const prefix = index === 0 || (index === 1 && startsWithNumber)
+      const suffix = type > 0 && index > type
+      return isStreet && (prefix || suffix) ? ABBREVIATIONS[token] : token
+    }
+    return index === type && expandType ? ABBREVIATIONS[token] || token : token
+  })
+}
+
+/**
+ * Splits text into normalized words, expanding abbreviations of street types
+ * and directions in street position
+ * @param text  The text to split
+ * @returns     The words of the text
+ */
+export const tokenize = (text: string): string[] =>
+  text.split(SEPARATOR_PATTERN).reduce<string[]>(
+    (tokens, part) =>
+      tokens.concat(
+        expandStreet(
+          normalizeText(part)
+            .split(' ')
+            .filter((token) => !!token)
+        )
+      ),
+    []
+  )
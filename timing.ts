@@ -0,0 +1,133 @@
+// Types
+export type HedgedResult<T> = {
+  result: T
+  usedBackup: boolean
+}
+
+/**
+ * Thrown when a geocoder doesn't respond within its time budget
+ */
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`timed out after ${timeoutMs}ms`)
+    this.name = 'TimeoutError'
+    // Required for instanceof to work when compiling to ES5
+    Object.setPrototypeOf(this, TimeoutError.prototype)
+  }
+}
+
+/**
+ * Runs an async function, rejecting with a TimeoutError if it takes too long.
+ * Where AbortController is available, the function is passed an AbortSignal
+ * which is aborted on timeout so that the underlying request can be cancelled.
+ * @param run       The function to run
+ * @param timeoutMs How long to wait before giving up
+ * @returns         The result of the function
+ */
+export const withTimeout = <T>(
+  run: (signal?: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> => {
+  const controller =
+    typeof AbortController !== 'undefined' ? new AbortController() : undefined
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => {
+      controller?.abort()
+      reject(new TimeoutError(timeoutMs))
+    }, Math.max(timeoutMs, 0))
+  })
+
+  return Promise.race([run(controller?.signal), timeout]).then(
+    (result) => {
+      clearTimeout(timer)
+      return result
+    },
+    (error) => {
+      clearTimeout(timer)
+      throw error
+    }
+  )
+}
+
+/**
+ * Runs the primary function, and if it hasn't finished after a given time, also
+ * starts the backup function. The first acceptable result wins. If no result is
+ * acceptable, the primary result is preferred over the backup result.
+ * @param primary       The function which is normally used
+ * @param backup        The function which is started once the primary is slow
+ * @param hedgeAfterMs  How long to wait for the primary before starting the backup
+ * @param isAcceptable  Decides whether a result is good enough to be returned immediately
+ * @returns             The winning result and whether it came from the backup
+ */
+export const hedge = <T>(
+  primary: () => Promise<T>,
+  backup: () => Promise<T>,
+  hedgeAfterMs: number,
+  isAcceptable: (result: T) => boolean
+): Promise<HedgedResult<T>> =>
+  new Promise((resolve, reject) => {
+    type Outcome = { error?: unknown; result?: T; settled: boolean }
+    const outcomes: { backup: Outcome; primary: Outcome } = {
+      backup: { settled: false },
+      primary: { settled: false }
+    }
+    let hedged = false
+    let done = false
+
+    const finish = (value: HedgedResult<T>) => {
+      done = true
+      clearTimeout(timer)
+      resolve(value)
+    }
+
+    // Called every time one of the functions settles
+    const decide = () => {
+      if (done) return
+      const { backup: b, primary: p } = outcomes
+
+      if (p.settled && !p.error && isAcceptable(p.result as T)) {
+        return finish({ result: p.result as T, usedBackup: false })
+      }
+      if (b.settled && !b.error && isAcceptable(b.result as T)) {
+        return finish({ result: b.result as T, usedBackup: true })
+      }
+      // The primary finished before the backup was needed. Whether its result
+      // is good enough is up to the caller
+      if (p.settled && !hedged) {
+        done = true
+        clearTimeout(timer)
+        return p.error
+          ? reject(p.error)
+          : resolve({ result: p.result as T, usedBackup: false })
+      }
+      // Wait until both have settled before settling for an unacceptable result
+      if (!p.settled || !b.settled) return
+      if (!p.error) return finish({ result: p.result as T, usedBackup: false })
+      if (!b.error) return finish({ result: b.result as T, usedBackup: true })
+      done = true
+      reject(p.error)
+    }
+
+    const track = (name: 'backup' | 'primary', run: () => Promise<T>) => {
+      run().then(
+        (result) => {
+          outcomes[name] = { result, settled: true }
+          decide()
+        },
+        (error) => {
+          outcomes[name] = { error, settled: true }
+          decide()
+        }
+      )
+    }
+
+    const timer = setTimeout(() => {
+      if (done) return
+      hedged = true
+      track('backup', backup)
+    }, hedgeAfterMs)
+
+    track('primary', primary)
+  })
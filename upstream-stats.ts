@@ -0,0 +1,139 @@
+// Types
+export type UpstreamStatsSummary = {
+  /** How many of the recent requests failed, between 0 and 1 */
+  errorRate: number
+  lastError?: string
+  lastErrorAt?: number
+  /** Latency of the recent requests in ms */
+  latencyMs: { max: number; mean: number; p50: number; p95: number } | null
+  /** Number of recent requests the rates and latencies are based on */
+  recentRequests: number
+  /** Number of requests since the process started */
+  totalRequests: number
+}
+
+export type SourceStatsSummary = {
+  /** How often a fallback geocoder provided the results of the source */
+  backupUsed: number
+  totalRequests: number
+}
+
+// Consts
+const { UPSTREAM_STATS_WINDOW } = process.env
+
+/** Only the most recent requests count towards rates and latencies */
+const WINDOW_SIZE = UPSTREAM_STATS_WINDOW
+  ? parseInt(UPSTREAM_STATS_WINDOW)
+  : 100
+
+const percentile = (sorted: number[], share: number): number =>
+  sorted[Math.min(Math.ceil(sorted.length * share) - 1, sorted.length - 1)]
+
+/**
+ * Keeps the latency and outcome of the most recent requests to a single
+ * upstream geocoder, in a ring buffer
+ */
+export class UpstreamStats {
+  private durations: number[] = []
+  private failures: boolean[] = []
+  private lastError?: string
+  private lastErrorAt?: number
+  private next = 0
+  private totalRequests = 0
+  private windowSize: number
+
+  constructor(windowSize = WINDOW_SIZE) {
+    this.windowSize = windowSize
+  }
+
+  /**
+   * @param durationMs  How long the request took
+   * @param error       Why the request failed, if it did
+   */
+  record(durationMs: number, error?: string): void {
+    this.durations[this.next] = durationMs
+    this.failures[this.next] = error !== undefined
+    this.next = (this.next + 1) % this.windowSize
+    this.totalRequests++
+    if (error !== undefined) {
+      this.lastError = error
+      this.lastErrorAt = Date.now()
+    }
+  }
+
+  getSummary(): UpstreamStatsSummary {
+    const sorted = [...this.durations].sort((a, b) => a - b)
+    const count = sorted.length
+    return {
+      errorRate: count
+        ? this.failures.filter((failed) => failed).length / count
+        : 0,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      latencyMs: count
+        ? {
+            max: sorted[count - 1],
+            mean: Math.round(sorted.reduce((sum, d) => sum + d, 0) / count),
+            p50: percentile(sorted, 0.5),
+            p95: percentile(sorted, 0.95)
+          }
+        : null,
+      recentRequests: count,
+      totalRequests: this.totalRequests
+    }
+  }
+}
+
+const upstreams = new Map<string, UpstreamStats>()
+const sources = new Map<string, SourceStatsSummary>()
+
+/**
+ * Returns the stats of an upstream geocoder, creating them if needed. Like
+ * circuit breakers, stats live as long as the process (or warm Lambda
+ * container) does.
+ * @param name  Unique name of the upstream geocoder
+ * @returns     The stats of that geocoder
+ */
+export const getUpstreamStats = (name: string): UpstreamStats => {
+  let stats = upstreams.get(name)
+  if (!stats) {
+    stats = new UpstreamStats()
+    upstreams.set(name, stats)
+  }
+  return stats
+}
+
+/**
+ * Counts a request to a source, and whether its results came from a fallback
+ * @param name        Name of the source
+ * @param backupUsed  Whether a fallback geocoder provided the results
+ */
+export const recordSourceRequest = (
+  name: string,
+  backupUsed: boolean
+): void => {
+  const stats = sources.get(name) || { backupUsed: 0, totalRequests: 0 }
+  stats.totalRequests++
+  if (backupUsed) stats.backupUsed++
+  sources.set(name, stats)
+}
+
+/**
+ * @returns The stats of every upstream geocoder and source, keyed by name
+ */
+export const getStatsSummaries = (): {
+  sources: Record<string, SourceStatsSummary>
+  upstreams: Record<string, UpstreamStatsSummary>
+} => {
+  const summaries = {
+    sources: {} as Record<string, SourceStatsSummary>,
+    upstreams: {} as Record<string, UpstreamStatsSummary>
+  }
+  sources.forEach((stats, name) => {
+    summaries.sources[name] = { ...stats }
+  })
+  upstreams.forEach((stats, name) => {
+    summaries.upstreams[name] = stats.getSummary()
+  })
+  return summaries
+}
@@ -1,16 +1,26 @@
 import { URLSearchParams } from 'url'
 
 import bugsnag from '@bugsnag/js'
-import { fromCoordinates } from '@conveyal/lonlat'
-import { getDistance } from 'geolib'
+import { normalize } from '@conveyal/lonlat'
 import fetch from 'node-fetch'
 import type { LonLatOutput } from '@conveyal/lonlat'
-import type { Feature, FeatureCollection, Position } from 'geojson'
-import { AnyGeocoderQuery } from '@opentripplanner/geocoder/lib/geocoders/types'
+import type { BBox, Feature, FeatureCollection, Position } from 'geojson'
+import {
+  AnyGeocoderQuery,
+  SingleGeocoderResponse
+} from '@opentripplanner/geocoder/lib/geocoders/types'
+
+import { CacheStore, getCacheStore, getCacheTtl, makeCacheKey } from './cache'
+import { redact } from './config'
+import { STRUCTURED_PARAMETERS, StitchQuery } from './pelias-api'
+import { MAX_SIZE } from './validation'
 
 // Types
 export type ServerlessEvent = {
+  /** Only present for POST requests */
+  body?: string | null
   headers: Record<string, string>
+  isBase64Encoded?: boolean
   queryStringParameters: Record<string, string>
 }
 export type ServerlessCallbackFunction = (
@@ -21,6 +31,30 @@ export type ServerlessCallbackFunction = (
     statusCode: number
   } | null
 ) => void
+/**
+ * What happened when a configured geocoder (and its backup) was queried
+ */
+export type SourceReport = {
+  backupUsed: boolean
+  /** How long the geocoder took, in ms */
+  duration: number
+  /** The `geocoding.engine` block of the upstream response, if it had one */
+  engine?: unknown
+  errors: string[]
+  featureCount: number
+  name: string
+  warnings: string[]
+}
+export type GeocodingMetadata = {
+  attribution: string
+  engine: Record<string, unknown>
+  errors?: string[]
+  query: Record<string, unknown>
+  timestamp: number
+  timing: { duration: number }
+  version: string
+  warnings?: string[]
+}
 export type ServerlessResponse = {
   body: string
   headers: Record<string, string>
@@ -28,23 +62,7 @@ export type ServerlessResponse = {
 }
 
 // Consts
-const PREFERRED_LAYERS = ['venue', 'address', 'street', 'intersection']
-
-const { COORDINATE_COMPARISON_PRECISION_DIGITS } = process.env
-
-/**
- * This method removes all characters Pelias doesn't support.
- * Unfortunately, these characters not only don't match if they're found in the
- * elasticsearch record, but make the query fail and return no results.
- * Therefore, they are removed using this method. The search still completes
- * as one would expect: "ab @ c" gets converted to "ab  c" which still matches
- * an item named "ab @ c"
- * @param queryString The *URL decoded* string with invalid characters to be cleaned
- * @returns           The string with invalid characters replaced
- */
-export const makeQueryPeliasCompatible = (queryString: string): string => {
-  return queryString.replace(/@/g, ' ').replace(/&/g, ' ')
-}
+export const PREFERRED_LAYERS = ['venue', 'address', 'street', 'intersection']
 
 /**
  * This method converts Query String Parameters from AWS into an object
@@ -54,9 +72,9 @@ export const makeQueryPeliasCompatible = (queryString: string): string => {
  */
 export const convertQSPToGeocoderArgs = (
   queryStringParams: Record<string, string>
-): AnyGeocoderQuery => {
+): StitchQuery => {
   const params = new URLSearchParams(queryStringParams)
-  const geocoderArgs: AnyGeocoderQuery = {}
+  const geocoderArgs: StitchQuery = {}
 
   const [minLat, minLon, maxLat, maxLon, size] = [
     params.get('boundary.rect.min_lat'),
@@ -64,16 +82,29 @@ export const convertQSPToGeocoderArgs = (
     params.get('boundary.rect.max_lat'),
     params.get('boundary.rect.max_lon'),
     params.get('size')
-  ].map((p) => p && parseFloat(p))
+  ].map((p) => (p ? parseFloat(p) : NaN))
 
   const text = params.get('text')
   const layers = params.get('layers')
+  const country = params.get('boundary.country')
 
-  if (minLat && minLon && maxLat && maxLon) {
+  // 0 is a valid coordinate, only missing or invalid ones are left out
+  if ([minLat, minLon, maxLat, maxLon].every((c) => Number.isFinite(c))) {
     geocoderArgs.boundary = {
       rect: { maxLat, maxLon, minLat, minLon }
     }
   }
+  if (country) {
+    geocoderArgs.boundary = { ...geocoderArgs.boundary, country }
+  }
+  if (params.get('boundary.circle.lat')) {
+    geocoderArgs.boundaryCircle = {
+      lat: parseFloat(params.get('boundary.circle.lat') as string),
+      lon: parseFloat(params.get('boundary.circle.lon') as string),
+      // Pelias' default radius
+      radius: parseFloat(params.get('boundary.circle.radius') || '50')
+    }
+  }
   if (params.get('focus.point.lat')) {
     geocoderArgs.focusPoint = {
       lat: params.get('focus.point.lat'),
@@ -89,14 +120,227 @@ export const convertQSPToGeocoderArgs = (
   if (text) {
     geocoderArgs.text = text
   }
+  // Passed on as is
+  const passThrough: ('categories' | 'lang' | 'sources')[] = [
+    'categories',
+    'lang',
+    'sources'
+  ]
+  passThrough.forEach((parameter) => {
+    const value = params.get(parameter)
+    if (value) geocoderArgs[parameter] = value
+  })
+  const boundaryGid = params.get('boundary.gid')
+  if (boundaryGid) {
+    geocoderArgs.boundaryGid = boundaryGid
+  }
+  const ids = params.get('ids')
+  if (ids) {
+    geocoderArgs.ids = ids
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => !!id)
+  }
+  const structured: Record<string, string> = {}
+  STRUCTURED_PARAMETERS.forEach((parameter) => {
+    const value = params.get(parameter)
+    if (value) structured[parameter] = value
+  })
+  if (Object.keys(structured).length) {
+    geocoderArgs.structured = structured
+  }
 
   // Safe, performant default
-  geocoderArgs.size = size || 4
+  geocoderArgs.size = Math.min(size || 4, MAX_SIZE)
   geocoderArgs.layers = layers || PREFERRED_LAYERS.join(',')
 
   return geocoderArgs
 }
 
+/**
+ * Extracts the focus point (or another point, such as the reverse geocoding point)
+ * from the query string parameters, if a valid one is present
+ * @param queryStringParams The query string parameters from the event object
+ * @param prefix            The name of the point parameters, without `.lat` and `.lon`
+ * @returns                 The point in a format geolib can handle, or undefined
+ */
+export const getFocusPoint = (
+  queryStringParams: Record<string, string>,
+  prefix = 'focus.point'
+): LonLatOutput | undefined => {
+  const lat = queryStringParams?.[`${prefix}.lat`]
+  const lon = queryStringParams?.[`${prefix}.lon`]
+  if (!lat || !lon) return undefined
+
+  try {
+    return normalize({ lat, lon })
+  } catch (e) {
+    // Invalid coordinates can't be used for ranking
+    return undefined
+  }
+}
+
+/**
+ * Geocoders which don't support `reverseUseFeatureCollection` return a single
+ * location instead of a FeatureCollection. This method ensures reverse responses
+ * can always be merged.
+ * @param response  The response of a geocoder's reverse method
+ * @returns         The response as a FeatureCollection
+ */
+export const convertReverseResponseToFeatureCollection = (
+  response: FeatureCollection | SingleGeocoderResponse | null
+): FeatureCollection => {
+  if (!response) return { features: [], type: 'FeatureCollection' }
+  if ('features' in response) return response
+
+  return {
+    features: response.rawGeocodedFeature ? [response.rawGeocodedFeature] : [],
+    type: 'FeatureCollection'
+  }
+}
+
+/**
+ * Builds the normalized query Pelias reports in `geocoding.query`. Numbers are
+ * parsed and lists are split, so clients see what was actually requested
+ * @param geocoderArgs  The query as passed to the geocoders
+ * @returns             The query in Pelias parameter naming
+ */
+export const makeNormalizedQuery = (
+  geocoderArgs: StitchQuery
+): Record<string, unknown> => {
+  const {
+    boundary,
+    boundaryCircle,
+    boundaryGid,
+    categories,
+    focusPoint,
+    ids,
+    lang,
+    layers,
+    point,
+    size,
+    sources,
+    structured,
+    text
+  } = geocoderArgs
+  const query: Record<string, unknown> = {}
+  const toNumber = (value: unknown) =>
+    typeof value === 'string' ? parseFloat(value) : value
+
+  if (text) query.text = text
+  if (ids) query.ids = ids
+  if (structured) Object.assign(query, structured)
+  if (size) query.size = toNumber(size)
+  if (layers) query.layers = layers.split(',')
+  if (sources) query.sources = sources.split(',')
+  if (focusPoint) {
+    const { lat, lon } = focusPoint as { lat: unknown; lon: unknown }
+    query['focus.point.lat'] = toNumber(lat)
+    query['focus.point.lon'] = toNumber(lon)
+  }
+  if (point) {
+    const { lat, lon } = point as { lat: unknown; lon: unknown }
+    query['point.lat'] = toNumber(lat)
+    query['point.lon'] = toNumber(lon)
+  }
+  if (boundary?.rect) {
+    query['boundary.rect.min_lat'] = boundary.rect.minLat
+    query['boundary.rect.min_lon'] = boundary.rect.minLon
+    query['boundary.rect.max_lat'] = boundary.rect.maxLat
+    query['boundary.rect.max_lon'] = boundary.rect.maxLon
+  }
+  if (boundary?.country) query['boundary.country'] = boundary.country
+  if (boundaryCircle) {
+    query['boundary.circle.lat'] = boundaryCircle.lat
+    query['boundary.circle.lon'] = boundaryCircle.lon
+    query['boundary.circle.radius'] = boundaryCircle.radius
+  }
+  if (boundaryGid) query['boundary.gid'] = boundaryGid
+  if (categories) query.categories = categories.split(',')
+  if (lang) query.lang = lang
+
+  return query
+}
+
+/**
+ * Creates the `geocoding` block Pelias includes at the top of every response,
+ * describing the stitcher itself and every upstream geocoder which contributed
+ * @param query     The normalized query (see makeNormalizedQuery)
+ * @param sources   What happened when each configured geocoder was queried
+ * @param startedAt When the request started, in ms since the epoch
+ * @param messages  Errors and warnings of the stitcher itself, such as invalid parameters
+ * @returns         The geocoding metadata object
+ */
+export const makeGeocodingMetadata = (
+  query: Record<string, unknown>,
+  sources: SourceReport[],
+  startedAt: number,
+  messages: { errors?: string[]; warnings?: string[] } = {}
+): GeocodingMetadata => {
+  const errors = sources.reduce<string[]>(
+    (all, { errors, name }) =>
+      all.concat(errors.map((error) => `${name}: ${error}`)),
+    messages.errors || []
+  )
+  const warnings = sources.reduce<string[]>(
+    (all, { name, warnings }) =>
+      all.concat(warnings.map((warning) => `${name}: ${warning}`)),
+    messages.warnings || []
+  )
+
+  return {
+    attribution: 'https://github.com/ibi-group/pelias-stitch',
+    engine: {
+      author: 'IBI Group',
+      name: 'pelias-stitch',
+      upstreams: sources.map(
+        ({ backupUsed, duration, engine, featureCount, name }) => ({
+          backupUsed,
+          duration,
+          engine,
+          featureCount,
+          name
+        })
+      ),
+      version: require('./package.json').version
+    },
+    query,
+    timestamp: startedAt,
+    timing: { duration: Date.now() - startedAt },
+    version: '0.2',
+    ...(errors.length > 0 ? { errors } : {}),
+    ...(warnings.length > 0 ? { warnings } : {})
+  }
+}
+
+/**
+ * Computes the bounding box of a set of features
+ * @param features  The features to cover
+ * @returns         [minLon, minLat, maxLon, maxLat], or undefined if there are no points
+ */
+export const computeBbox = (features: Feature[]): BBox | undefined => {
+  const bbox = features.reduce<number[] | undefined>((acc, feature) => {
+    // Features may carry their own bbox, e.g. for streets or localities
+    const [minLon, minLat, maxLon, maxLat] =
+      feature?.bbox ||
+      (feature?.geometry?.type === 'Point'
+        ? [...feature.geometry.coordinates, ...feature.geometry.coordinates]
+        : [])
+    if ([minLon, minLat, maxLon, maxLat].some((n) => typeof n !== 'number')) {
+      return acc
+    }
+    if (!acc) return [minLon, minLat, maxLon, maxLat]
+    return [
+      Math.min(acc[0], minLon),
+      Math.min(acc[1], minLat),
+      Math.max(acc[2], maxLon),
+      Math.max(acc[3], maxLat)
+    ]
+  }, undefined)
+
+  return bbox && [bbox[0], bbox[1], bbox[2], bbox[3]]
+}
+
 /**
  * Compares two GeoJSON positions and returns if they are equal within 10m accuracy
  * @param a         One GeoJSON Position object
@@ -123,198 +367,67 @@ export const arePointsRoughlyEqual = (
 }
 
 /**
- * Inspects a feature and removes it if a similar feature is included within a
- * second list of features
- * @param feature The feature to either keep or remove
- * @param customFeatures The set of features to check against
- * @returns True or false depending on if the feature is unique
- */
-const filterOutDuplicateStops = (
-  feature: Feature,
-  customFeatures: Feature[],
-  checkNameDuplicates: boolean
-): boolean => {
-  // If the names are the same, or if the feature is too far away, we can't consider the feature
-  if (
-    customFeatures.find(
-      (otherFeature: Feature) =>
-        (checkNameDuplicates &&
-          (feature?.properties?.name || '')
-            .toLowerCase()
-            .includes((otherFeature?.properties?.name || '').toLowerCase())) ||
-        // Any feature this far away is likely not worth being considered
-        feature?.properties?.distance > 7500
-    )
-  ) {
-    return false
-  }
-
-  // If the feature to be tested isn't a stop, we don't have to check its coordinates.
-  // In OpenStreetMap, some transit stops have an "operator" tag which is
-  // added to the addendum field in Pelias. Therefore, there is still potential
-  // for some transit stops without the "operator" tag to still be included in
-  // search results.
-  if (
-    !feature.properties ||
-    !feature.properties.addendum ||
-    // if a OSM feature has an operator tag, it is a transit stop
-    ((!feature.properties.addendum.osm ||
-      !feature.properties.addendum.osm.operator) &&
-      // HERE public transport categories start with a 400
-      !feature.properties.addendum.categories?.find(
-        (c) => !!c.id.match(/^400-/)
-      ))
-  ) {
-    // Returning true ensures the Feature is *saved*
-    return true
-  }
-
-  // If a custom feature at the same location *can't* be found, return the Feature
-  return !customFeatures.find((otherFeature: Feature) => {
-    // Check Point data exists before working with it
-    if (
-      feature.geometry.type !== 'Point' ||
-      otherFeature.geometry.type !== 'Point'
-    ) {
-      return null
-    }
-
-    // If this is true, we have a match! Which will be negated above to remove the
-    // duplicate
-    return arePointsRoughlyEqual(
-      feature.geometry.coordinates,
-      otherFeature.geometry.coordinates,
-      COORDINATE_COMPARISON_PRECISION_DIGITS
-        ? parseInt(COORDINATE_COMPARISON_PRECISION_DIGITS)
-        : undefined
-    )
-  })
-}
-
-/**
- * Merges two Pelias responses together
- * @param responses An object containing two Pelias response objects
- * @returns         A single Pelias response object the features from both input objects
- */
-export const mergeResponses = (
-  responses: {
-    customResponse: FeatureCollection
-    primaryResponse: FeatureCollection
-  },
-  checkNameDuplicates = true,
-  focusPoint?: LonLatOutput
-): FeatureCollection => {
-  // Openstreetmap can sometimes include bus stop info with less
-  // correct information than the GTFS feed.
-  // Remove anything from the geocode.earth response that's within 10 meters of a custom result
-  responses.primaryResponse.features =
-    responses?.primaryResponse?.features?.filter((feature: Feature) =>
-      filterOutDuplicateStops(
-        feature,
-        responses.customResponse.features,
-        checkNameDuplicates
-      )
-    ) || []
-
-  // If a focus point is specified, sort custom features by distance to the focus point
-  // This ensures the 3 stops are all relevant.
-  if (focusPoint && responses.customResponse.features) {
-    responses.customResponse.features.sort((a, b) => {
-      if (
-        a &&
-        a.geometry.type === 'Point' &&
-        b &&
-        b.geometry.type === 'Point'
-      ) {
-        // Use lonlat to convert GeoJSON Point to input geolib can handle
-        // Compare distances between coordiante and focus point
-        return (
-          getDistance(fromCoordinates(a.geometry.coordinates), focusPoint) -
-          getDistance(fromCoordinates(b.geometry.coordinates), focusPoint)
-        )
-      }
-      // Can't do a comparison, becuase types are wrong
-      return 0
-    })
-  }
-
-  // Insert merged features back into Geocode.Earth response
-  const mergedResponse: FeatureCollection = {
-    ...responses.primaryResponse,
-    features: [
-      // Merge features together
-      // customResponses may be null, but we know primaryResponse to exist
-      ...(responses.customResponse.features || []),
-      ...responses.primaryResponse.features
-    ]
-  }
-
-  return mergedResponse
-}
-
-/**
- * Formerly allowed caching requests in Redis store. This method is kept around now
- * in case another caching solution is attempted again in the future
+ * Makes a geocoder request, using the configured cache store (see cache.ts) if
+ * one is available. Failed requests are never cached, empty responses are
+ * cached for a shorter time than responses with results.
  * @param geocoder        geocoder object returned from geocoder package
  * @param requestMethod   Geocoder Request Method
  * @param args            Args for Geocoder request method
+ * @param cacheStore      Store to use. Defaults to the configured store
+ * @param rethrowErrors   If true, failed requests throw instead of returning an empty FeatureCollection
  * @returns               FeatureCollection either from cache or live
  */
 export const cachedGeocoderRequest = async (
-  geocoder: Record<string, (q: AnyGeocoderQuery) => Promise<FeatureCollection>>,
+  geocoder: { geocoderConfig?: unknown } & Record<string, unknown>,
   requestMethod: string,
-  args: AnyGeocoderQuery
+  args: StitchQuery,
+  cacheStore: CacheStore | null = getCacheStore(),
+  rethrowErrors = false
 ): Promise<FeatureCollection> => {
-  const { focusPoint, text } = args
-  if (!text) return { features: [], type: 'FeatureCollection' }
-
-  try {
-    const onlineResponse = await geocoder[requestMethod](args)
-    return onlineResponse
-  } catch (e) {
-    console.warn(`Request to ${JSON.stringify(geocoder)} failed: ${e}`)
+  const { ids, point, structured, text } = args
+  // Reverse requests have a point instead of text, place requests have ids
+  // and structured requests have address components
+  if (!text && !point && !ids?.length && !structured) {
     return { features: [], type: 'FeatureCollection' }
   }
-}
 
-/**
- * Checks if a feature collection provides "satisfactory" results for a given queryString.
- * Satisfactory is defined as having results, having results where at least one is of a set of
- * preferred layers, and as at least one of the results contains the entirety of the query string.
- *
- * This method does two passes over the array for readability -- the temporal difference to doing
- * some form of reducer is minimal.
- *
- * @param featureCollection The GeoJSON featureCollection to check
- * @param queryString       The query string which the featureCollection results are supposed to represent
- * @returns                 true if the results are deemed satisfactory, false otherwise
- */
-export const checkIfResultsAreSatisfactory = (
-  featureCollection: FeatureCollection,
-  queryString: string
-): boolean => {
-  const { features } = featureCollection
+  const cacheKey =
+    cacheStore && makeCacheKey(geocoder.geocoderConfig, requestMethod, args)
 
-  // Check for zero length
-  if (features?.length === 0) return false
+  if (cacheStore && cacheKey) {
+    try {
+      const cachedResponse = await cacheStore.get(cacheKey)
+      if (cachedResponse) return JSON.parse(cachedResponse)
+    } catch (e) {
+      console.warn(`Reading from cache failed: ${e}`)
+    }
+  }
 
-  // Check for at least one layer being one of the preferred layers
-  if (
-    !features?.some((feature) =>
-      PREFERRED_LAYERS.includes(feature?.properties?.layer)
+  let onlineResponse: FeatureCollection
+  try {
+    const method = geocoder[requestMethod] as (
+      q: StitchQuery
+    ) => Promise<FeatureCollection>
+    onlineResponse = await method.call(geocoder, args)
+  } catch (e) {
+    // The geocoder config may hold API keys, which must not end up in logs
+    console.warn(
+      `Request to ${JSON.stringify(
+        redact(geocoder.geocoderConfig)
+      )} failed: ${e}`
     )
-  )
-    return false
+    if (rethrowErrors) throw e
+    return { features: [], type: 'FeatureCollection' }
+  }
 
-  // Check that the query string is present in at least one returned string
-  if (
-    !features?.some((feature) =>
-      feature?.properties?.name
-        ?.toLowerCase()
-        .includes(queryString.toLowerCase())
-    )
-  )
-    return false
+  const ttl = getCacheTtl(requestMethod, onlineResponse)
+  if (cacheStore && cacheKey && onlineResponse && ttl > 0) {
+    try {
+      await cacheStore.set(cacheKey, JSON.stringify(onlineResponse), ttl)
+    } catch (e) {
+      console.warn(`Writing to cache failed: ${e}`)
+    }
+  }
 
-  return true
+  return onlineResponse
 }
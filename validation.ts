@@ -0,0 +1,196 @@
+import { URLSearchParams } from 'url'
+
+import { STRUCTURED_PARAMETERS } from './pelias-api'
+
+// Types
+export type ValidationResult = {
+  errors: string[]
+  warnings: string[]
+}
+
+// Consts
+/** Pelias never returns more results than this */
+export const MAX_SIZE = 40
+
+const BOUNDARY_RECT_PARAMETERS = [
+  'boundary.rect.min_lat',
+  'boundary.rect.min_lon',
+  'boundary.rect.max_lat',
+  'boundary.rect.max_lon'
+]
+
+/**
+ * Checks that a value is a number between -limit and limit
+ */
+const validateNumber = (
+  name: string,
+  value: string,
+  limit: number,
+  errors: string[]
+): void => {
+  // parseFloat accepts trailing garbage such as "47abc", Number does not
+  const number = value.trim() === '' ? NaN : Number(value)
+  if (!isFinite(number)) {
+    errors.push(`invalid param '${name}': must be a number`)
+  } else if (number < -limit || number > limit) {
+    errors.push(`invalid param '${name}': must be >=-${limit} and <=${limit}`)
+  }
+}
+
+/**
+ * Checks that a latitude/longitude pair is either fully present or absent, and
+ * that both values are numbers within range
+ * @param params    The query parameters
+ * @param prefix    The prefix of the pair, e.g. `focus.point`
+ * @param required  Whether the pair must be present
+ * @param errors    Errors are added to this list
+ */
+const validateLatLon = (
+  params: URLSearchParams,
+  prefix: string,
+  required: boolean,
+  errors: string[]
+): void => {
+  const lat = params.get(`${prefix}.lat`)
+  const lon = params.get(`${prefix}.lon`)
+
+  if (lat === null && lon === null) {
+    if (required) {
+      errors.push(`missing param '${prefix}.lat'`)
+      errors.push(`missing param '${prefix}.lon'`)
+    }
+    return
+  }
+  if (lat === null || lon === null) {
+    errors.push(
+      `parameters '${prefix}.lat' and '${prefix}.lon' must both be specified`
+    )
+    return
+  }
+  validateNumber(`${prefix}.lat`, lat, 90, errors)
+  validateNumber(`${prefix}.lon`, lon, 180, errors)
+}
+
+/**
+ * Validates the query parameters of a request the same way Pelias does, so that
+ * invalid requests are rejected before any geocoder is queried
+ * @param apiMethod         The endpoint which was requested
+ * @param queryStringParams The query parameters of the request
+ * @returns                 Errors, which mean the request must be rejected, and
+ *                          warnings, which are passed on to the client
+ */
+export const validateQuery = (
+  apiMethod: string,
+  queryStringParams: Record<string, string> | null
+): ValidationResult => {
+  const params = new URLSearchParams(queryStringParams || {})
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const text = params.get('text')
+  if (
+    (apiMethod === 'autocomplete' || apiMethod === 'search') &&
+    !text?.trim()
+  ) {
+    errors.push(text === null ? "missing param 'text'" : "invalid param 'text'")
+  }
+  if (
+    apiMethod === 'structured' &&
+    !STRUCTURED_PARAMETERS.some((parameter) => params.get(parameter)?.trim())
+  ) {
+    errors.push(
+      `at least one of the following parameters must be specified: ${STRUCTURED_PARAMETERS.join(
+        ', '
+      )}`
+    )
+  }
+  if (apiMethod === 'place') {
+    const ids = params.get('ids')
+    if (!ids?.trim()) {
+      errors.push("missing param 'ids'")
+    } else {
+      ids
+        .split(',')
+        .filter(
+          (id) =>
+            id.split(':').length < 3 || id.split(':').some((part) => !part)
+        )
+        .forEach((id) =>
+          errors.push(
+            `invalid param 'ids': '${id}' must be of the format source:layer:id`
+          )
+        )
+    }
+  }
+
+  validateLatLon(
+    params,
+    'point',
+    apiMethod === 'reverse' || apiMethod === 'nearby',
+    errors
+  )
+  validateLatLon(params, 'focus.point', false, errors)
+  validateLatLon(params, 'boundary.circle', false, errors)
+
+  const radius = params.get('boundary.circle.radius')
+  if (radius !== null) {
+    if (params.get('boundary.circle.lat') === null) {
+      errors.push(
+        "missing param 'boundary.circle.lat', required with 'boundary.circle.radius'"
+      )
+    }
+    if (!(Number(radius) > 0)) {
+      errors.push("invalid param 'boundary.circle.radius': must be >0")
+    }
+  }
+  const country = params.get('boundary.country')
+  if (country !== null && !/^[a-z]{2,3}$/i.test(country)) {
+    errors.push(
+      "invalid param 'boundary.country': must be an ISO 3166-1 alpha-2 or alpha-3 code"
+    )
+  }
+
+  const rect = BOUNDARY_RECT_PARAMETERS.map((parameter) =>
+    params.get(parameter)
+  )
+  if (rect.some((value) => value !== null)) {
+    const missing = BOUNDARY_RECT_PARAMETERS.filter(
+      (_, index) => rect[index] === null
+    )
+    missing.forEach((parameter) =>
+      errors.push(`missing boundary.rect param '${parameter}'`)
+    )
+    if (!missing.length) {
+      const errorCount = errors.length
+      BOUNDARY_RECT_PARAMETERS.forEach((parameter, index) =>
+        validateNumber(
+          parameter,
+          rect[index] as string,
+          parameter.endsWith('lat') ? 90 : 180,
+          errors
+        )
+      )
+      const [minLat, minLon, maxLat, maxLon] = rect.map(Number)
+      if (
+        errors.length === errorCount &&
+        (minLat > maxLat || minLon > maxLon)
+      ) {
+        errors.push(
+          "invalid boundary.rect: 'min_lat' and 'min_lon' must be less than 'max_lat' and 'max_lon'"
+        )
+      }
+    }
+  }
+
+  const size = params.get('size')
+  if (size !== null) {
+    const number = Number(size)
+    if (!Number.isInteger(number) || number < 1) {
+      errors.push("invalid param 'size': must be a positive integer")
+    } else if (number > MAX_SIZE) {
+      warnings.push(`out-of-range integer 'size', using MAX_SIZE (${MAX_SIZE})`)
+    }
+  }
+
+  return { errors, warnings }
+}